@@ -0,0 +1,101 @@
+import { Timestamp } from 'firebase/firestore';
+import { searchMessages, SearchSourceSession, syncSearchIndex, tokenize } from '../../app/services/chatSearch';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('firebase/firestore', () => ({}));
+
+const now = new Date(2026, 5, 15, 12);
+const daysAgo = (days: number) => ({ toMillis: () => now.getTime() - days * 24 * 60 * 60 * 1000 }) as Timestamp;
+
+const session = (
+  id: string,
+  messages: [string, string, number][],
+  title = 'Chat'
+): SearchSourceSession => ({
+  id,
+  title,
+  messages: messages.map(([messageId, message, age]) => ({
+    id: messageId,
+    type: 'assistant',
+    message,
+    timestamp: daysAgo(age),
+  })),
+});
+
+const search = async (query: string) =>
+  (await searchMessages('uid', query, { now })).map(hit => hit.message.messageId);
+
+describe('tokenize', () => {
+  it('lowercases, drops stop words and stems', () => {
+    expect(tokenize('What did the assistant say about my Blood Pressure readings?')).toEqual([
+      'blood',
+      'pressure',
+      'reading',
+    ]);
+  });
+
+  it('keeps numbers and accented words', () => {
+    expect(tokenize('Took 500mg of paracétamol')).toEqual(['took', '500mg', 'paracétamol']);
+  });
+
+  it('strips one suffix, leaving short words and double s alone', () => {
+    expect(tokenize('walking tested bus stress red sing')).toEqual(['walk', 'test', 'bus', 'stress', 'red', 'sing']);
+  });
+});
+
+describe('searchMessages', () => {
+  beforeEach(async () => {
+    await syncSearchIndex('uid', [
+      session('a', [
+        ['sleep', 'Try to keep a regular **sleep** schedule.', 1],
+        ['bp-once', 'Your blood pressure was fine.', 2],
+        ['bp-often', 'Blood pressure, blood pressure: check your blood pressure daily.', 2],
+      ]),
+      session('b', [
+        ['water', 'Drink more water during the day.', 40],
+        ['pressure-only', 'Tyre pressure is unrelated.', 2],
+      ]),
+    ]);
+  });
+
+  it('ranks messages with more of the query first', async () => {
+    const results = await search('blood pressure');
+
+    expect(results.slice(0, 2)).toEqual(['bp-often', 'bp-once']);
+    expect(results).toContain('pressure-only');
+    expect(results.indexOf('pressure-only')).toBeGreaterThan(1);
+  });
+
+  it('matches stemmed and partly typed words', async () => {
+    expect(await search('pressures')).toContain('bp-once');
+    expect(await search('wat')).toEqual(['water']);
+  });
+
+  it('searches the plain text of markdown replies', async () => {
+    const [hit] = await searchMessages('uid', 'sleep', { now });
+
+    expect(hit.snippet).toBe('Try to keep a regular sleep schedule.');
+    expect(hit.snippet.slice(...hit.highlights[0])).toBe('sleep');
+  });
+
+  it('narrows to a time phrase', async () => {
+    expect(await search('water last week')).toEqual([]);
+    expect(await search('water')).toEqual(['water']);
+  });
+
+  it('drops removed messages and re-indexes edited ones', async () => {
+    await syncSearchIndex('uid', [
+      session('a', [
+        ['sleep', 'Try to keep a regular bedtime.', 1],
+        ['bp-once', 'Your blood pressure was fine.', 2],
+      ]),
+    ]);
+
+    expect(await search('sleep')).toEqual([]);
+    expect(await search('bedtime')).toEqual(['sleep']);
+    expect(await search('water')).toEqual([]);
+    expect(await search('pressure')).toEqual(['bp-once']);
+  });
+});
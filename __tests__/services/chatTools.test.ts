@@ -0,0 +1,85 @@
+import { getDoc, getDocs } from 'firebase/firestore';
+import { prepareToolCall, ToolCall, validateToolCall } from '../../app/services/chatTools';
+
+jest.mock('firebase/firestore', () => ({
+  collection: jest.fn(),
+  doc: jest.fn(),
+  getDoc: jest.fn(),
+  getDocs: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+}));
+jest.mock('../../app/config/firebase', () => ({ db: {} }));
+jest.mock('../../app/services/notificationScheduler', () => ({ reconcileNotifications: jest.fn() }));
+
+const snapshot = (items: Record<string, unknown>[]) => ({ docs: items.map(item => ({ data: () => item })) });
+
+const reminderCall = (title: string, type = 'medication'): ToolCall => ({
+  name: 'createReminder',
+  args: { title, type, time: '08:00' },
+});
+
+describe('validateToolCall', () => {
+  it('accepts a known tool and cleans its arguments', () => {
+    expect(validateToolCall({ name: 'logVital', args: { type: 'heartRate', value: 72, extra: true } })).toEqual({
+      name: 'logVital',
+      args: { type: 'heartRate', value: 72 },
+    });
+  });
+
+  it.each(['toString', 'constructor', '__proto__', 'hasOwnProperty'])('rejects the inherited name %s', name => {
+    expect(validateToolCall({ name, args: {} })).toBeNull();
+  });
+
+  it('rejects unknown tools and missing required arguments', () => {
+    expect(validateToolCall({ name: 'deleteEverything', args: {} })).toBeNull();
+    expect(validateToolCall({ name: 'createReminder', args: { title: 'Walk', time: '25:00' } })).toBeNull();
+    expect(validateToolCall('logVital')).toBeNull();
+  });
+});
+
+describe('prepareToolCall', () => {
+  beforeEach(() => {
+    (getDoc as jest.Mock).mockResolvedValue({ exists: () => true, data: () => ({ allergies: ['Penicillin'] }) });
+    (getDocs as jest.Mock)
+      .mockResolvedValueOnce(snapshot([{ title: 'Warfarin 5mg', isCompleted: false }]))
+      .mockResolvedValueOnce(snapshot([]));
+  });
+
+  afterEach(() => jest.resetAllMocks());
+
+  it('puts interaction warnings on a medication reminder before it is saved', async () => {
+    const prepared = await prepareToolCall('uid', reminderCall('Aspirin 75mg'));
+
+    expect(prepared.status).toBe('pending');
+    expect(prepared.warnings?.[0]).toMatchObject({ kind: 'interaction', severity: 'major' });
+  });
+
+  it('warns about allergies from the profile', async () => {
+    const prepared = await prepareToolCall('uid', reminderCall('Amoxicillin'));
+
+    expect(prepared.warnings?.map(warning => warning.kind)).toContain('allergy');
+  });
+
+  it('leaves other reminders and safe medications without warnings', async () => {
+    expect(await prepareToolCall('uid', reminderCall('Dentist', 'appointment'))).toEqual({
+      ...reminderCall('Dentist', 'appointment'),
+      status: 'pending',
+    });
+    expect((await prepareToolCall('uid', reminderCall('Vitamin D'))).warnings).toBeUndefined();
+  });
+
+  it('does not take a manufacturer name for a drug', async () => {
+    expect((await prepareToolCall('uid', reminderCall('Bayer Claritin'))).warnings).toBeUndefined();
+  });
+
+  it('still offers the reminder when the check cannot load', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (getDoc as jest.Mock).mockRejectedValue(new Error('offline'));
+
+    expect(await prepareToolCall('uid', reminderCall('Aspirin'))).toEqual({
+      ...reminderCall('Aspirin'),
+      status: 'pending',
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Timestamp } from 'firebase/firestore';
+import { buildHealthContext, ContextProfile, getAge, redactIdentifiers } from '../../app/services/healthContext';
+
+jest.mock('firebase/firestore', () => ({}));
+
+const profile: ContextProfile = {
+  fullName: 'Priya Raman',
+  email: 'priya.raman@example.com',
+  phoneNumber: '+44 7700 900123',
+  dateOfBirth: '1980-04-02',
+  gender: 'Female',
+  allergies: ['Penicillin'],
+  conditions: ['Asthma'],
+  emergencyContact: { name: 'Arun Raman', relationship: 'Brother', phoneNumber: '+44 7700 900456' },
+};
+
+const at = (seconds: number) => ({ seconds }) as Timestamp;
+
+describe('getAge', () => {
+  beforeEach(() => jest.useFakeTimers().setSystemTime(new Date(2026, 3, 2, 12)));
+  afterEach(() => jest.useRealTimers());
+
+  it('counts whole years, turning over on the birthday', () => {
+    expect(getAge('1980-04-02')).toBe(46);
+    expect(getAge('1980-04-03')).toBe(45);
+  });
+
+  it('returns null for a missing, unreadable or impossible date', () => {
+    expect(getAge(undefined)).toBeNull();
+    expect(getAge('not a date')).toBeNull();
+    expect(getAge('2030-01-01')).toBeNull();
+  });
+});
+
+describe('redactIdentifiers', () => {
+  it('removes names, email and phone numbers', () => {
+    const text =
+      'Priya Raman here, mail priya.raman@example.com or call +44 7700 900123. Tell Arun I said hi, priya.';
+
+    const redacted = redactIdentifiers(text, profile);
+
+    expect(redacted).not.toMatch(/priya|raman|arun|example\.com|7700/i);
+    expect(redacted).toBe(
+      '[redacted] here, mail [redacted] or call [redacted]. Tell [redacted] I said hi, [redacted].'
+    );
+  });
+
+  it('removes emails and phone numbers without a profile', () => {
+    expect(redactIdentifiers('Reach me at a.b@c.io or (555) 123-4567', null)).toBe(
+      'Reach me at [redacted] or [redacted]'
+    );
+  });
+
+  it('keeps dates, readings and short name parts', () => {
+    expect(redactIdentifiers('BP 120/80 on 2026-01-15, weight 72.5 kg', profile)).toBe(
+      'BP 120/80 on 2026-01-15, weight 72.5 kg'
+    );
+    expect(redactIdentifiers('Jo and I went out', { fullName: 'Jo Li' })).toBe('Jo and I went out');
+  });
+});
+
+describe('buildHealthContext', () => {
+  const healthData = {
+    vitals: {
+      heartRate: { value: 72, unit: 'bpm', status: 'Normal' },
+      bloodPressure: { value: '150/95', unit: 'mmHg', status: 'High' },
+      water: { value: 4, unit: 'glasses', status: 'Normal', goal: 8 },
+    },
+    metrics: [
+      { type: 'heartRate', value: 70, unit: 'bpm', timestamp: at(1), notes: 'Call Priya after' },
+      { type: 'heartRate', value: 88, unit: 'bpm', timestamp: at(2), notes: 'After the walk' },
+    ],
+  };
+  const history = [
+    { type: 'user' as const, message: 'Hi, I am Priya' },
+    { type: 'assistant' as const, message: 'Hello! How can I help?' },
+  ];
+
+  it('includes everything and redacts free text when the budget allows', () => {
+    const context = buildHealthContext({
+      question: 'Why is my heart racing?',
+      profile,
+      healthData,
+      history,
+      summary: 'Priya asked about asthma.',
+      tokenBudget: 1000,
+    });
+
+    expect(context.healthInfo).toContain('Allergies: Penicillin');
+    expect(context.healthInfo).toContain('Heart Rate: 72 bpm (Normal)');
+    expect(context.healthInfo).toContain('Water: 4 glasses (Normal) - Goal: 8 glasses');
+    expect(context.healthInfo).toContain('Heart Rate: 88 bpm (Note: After the walk)');
+    expect(context.summary).toBe('[redacted] asked about asthma.');
+    expect(context.conversation).toBe('User: Hi, I am [redacted]\nAssistant: Hello! How can I help?');
+    expect(`${context.healthInfo}${context.summary}${context.conversation}`).not.toMatch(/priya|raman|example/i);
+  });
+
+  it('never includes direct identifiers from the profile', () => {
+    const { healthInfo } = buildHealthContext({ question: 'blood type?', profile, tokenBudget: 1000 });
+
+    expect(healthInfo).not.toMatch(/priya|raman|example\.com|7700|arun/i);
+  });
+
+  it('stays within the budget', () => {
+    [0, 10, 25, 40, 60].forEach(tokenBudget => {
+      const context = buildHealthContext({ question: 'heart', profile, healthData, history, tokenBudget });
+      expect(context.tokenCount).toBeLessThanOrEqual(tokenBudget);
+    });
+  });
+
+  it('fills the budget in priority order', () => {
+    const build = (tokenBudget: number) =>
+      buildHealthContext({
+        question: 'Is my heart rate ok?',
+        profile: { allergies: ['Penicillin'] },
+        healthData,
+        history,
+        summary: 'Talked about sleep.',
+        tokenBudget,
+      });
+
+    // Profile safety fields first, then the summary
+    expect(build(8)).toMatchObject({ summary: '', conversation: '' });
+    expect(build(8).healthInfo).toBe('User health information:\nProfile:\nAllergies: Penicillin');
+    expect(build(14).summary).toBe('Talked about sleep.');
+    expect(build(14).healthInfo).not.toContain('Heart Rate');
+
+    // Then vitals the question is about and out-of-range ones, then matching metrics
+    const vitals = build(31).healthInfo;
+    expect(vitals).toContain('Heart Rate: 72 bpm (Normal)\nBlood Pressure: 150/95 mmHg (High)');
+    expect(vitals).not.toContain('Additional Health Metrics');
+    expect(build(43).healthInfo).toContain('Heart Rate: 88 bpm (Note: After the walk)');
+
+    // Then recent turns, newest first, and only then the remaining vitals
+    expect(build(53).conversation).toBe('Assistant: Hello! How can I help?');
+    expect(build(61).conversation).toBe('User: Hi, I am Priya\nAssistant: Hello! How can I help?');
+    expect(build(61).healthInfo).not.toContain('Water');
+    expect(build(71).healthInfo).toContain('Water: 4 glasses (Normal) - Goal: 8 glasses');
+  });
+});
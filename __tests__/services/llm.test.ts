@@ -0,0 +1,131 @@
+import { LLMConfig } from '../../app/config/llm';
+import {
+  createLLMProvider,
+  GeminiProvider,
+  getLLMProvider,
+  MockProvider,
+  OpenAICompatibleProvider,
+  setLLMProvider,
+} from '../../app/services/llm';
+import { parseServerSentEvents } from '../../app/services/llm/openai';
+
+const baseConfig: LLMConfig = {
+  provider: 'gemini',
+  model: 'test-model',
+  apiKey: 'key',
+  maxOutputTokens: 100,
+  temperature: 0.5,
+  contextTokenBudget: 800,
+};
+
+const collect = async (stream: AsyncIterable<string>) => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+const sse = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n`;
+
+describe('createLLMProvider', () => {
+  it('builds the provider named in config', () => {
+    expect(createLLMProvider(baseConfig)).toBeInstanceOf(GeminiProvider);
+    expect(createLLMProvider({ ...baseConfig, provider: 'mock' })).toBeInstanceOf(MockProvider);
+    expect(
+      createLLMProvider({ ...baseConfig, provider: 'openai', baseUrl: 'http://localhost:8000/v1' })
+    ).toBeInstanceOf(OpenAICompatibleProvider);
+  });
+
+  it('requires a base URL for the OpenAI-compatible provider', () => {
+    expect(() => createLLMProvider({ ...baseConfig, provider: 'openai' })).toThrow('LLM_BASE_URL');
+  });
+
+  it('lets tests swap the active provider', () => {
+    const mock = new MockProvider('Hi', 0);
+    setLLMProvider(mock);
+    expect(getLLMProvider()).toBe(mock);
+    setLLMProvider(null);
+  });
+});
+
+describe('MockProvider', () => {
+  it('returns the canned reply', async () => {
+    await expect(new MockProvider('Drink water.', 0).generate('prompt')).resolves.toBe('Drink water.');
+  });
+
+  it('wraps plain replies in the structured format when JSON is requested', async () => {
+    const reply = await new MockProvider('Drink water.', 0).generate('prompt', { responseFormat: 'json' });
+    expect(JSON.parse(reply)).toMatchObject({ answer: 'Drink water.', urgency: 'none' });
+  });
+
+  it('streams the reply word by word', async () => {
+    const chunks = await collect(new MockProvider('Rest and drink water.', 0).stream('prompt'));
+    expect(chunks).toEqual(['Rest ', 'and ', 'drink ', 'water.']);
+  });
+
+  it('estimates tokens at about four characters each', async () => {
+    await expect(new MockProvider().countTokens('12345678')).resolves.toBe(2);
+  });
+
+  it('stops streaming once the signal aborts', async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    const read = async () => {
+      for await (const chunk of new MockProvider('one two three four', 0).stream('prompt', { signal: controller.signal })) {
+        chunks.push(chunk);
+        if (chunks.length === 2) controller.abort();
+      }
+    };
+    await expect(read()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(chunks).toEqual(['one ', 'two ']);
+  });
+
+  it('rejects generate when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(new MockProvider().generate('prompt', { signal: controller.signal })).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+  });
+});
+
+describe('parseServerSentEvents', () => {
+  it('joins events split across chunks', async () => {
+    const payload = sse('Hello') + sse(' world');
+    const pieces = [payload.slice(0, 20), payload.slice(20, 45), payload.slice(45)];
+    await expect(collect(parseServerSentEvents(pieces))).resolves.toEqual(['Hello', ' world']);
+  });
+
+  it('ends the stream at [DONE], even mid-chunk', async () => {
+    const pieces = [sse('Hello') + 'data: [DONE]\n' + sse('ignored'), sse('also ignored')];
+    await expect(collect(parseServerSentEvents(pieces))).resolves.toEqual(['Hello']);
+  });
+
+  it('skips comments and events without content', async () => {
+    const pieces = [': keep-alive\n', `data: ${JSON.stringify({ choices: [{ delta: {} }] })}\n`, sse('Hi')];
+    await expect(collect(parseServerSentEvents(pieces))).resolves.toEqual(['Hi']);
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  const originalFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('falls back to the whole SSE payload when fetch has no readable body', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      body: null,
+      text: async () => sse('Take ') + sse('it with food.') + 'data: [DONE]\n',
+    }) as unknown as typeof fetch;
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:8000/v1/',
+      model: 'test-model',
+      maxOutputTokens: 100,
+      temperature: 0.5,
+    });
+    const chunks = await collect(provider.stream('prompt'));
+    expect(chunks.join('')).toBe('Take it with food.');
+    expect(global.fetch).toHaveBeenCalledWith('http://localhost:8000/v1/chat/completions', expect.any(Object));
+  });
+});
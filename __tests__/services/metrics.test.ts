@@ -0,0 +1,64 @@
+import { getDocs } from 'firebase/firestore';
+import { getMetricAggregates } from '../../app/services/metrics';
+
+// Queries are recorded as plain objects so each getDocs call can be checked
+jest.mock('firebase/firestore', () => ({
+  collection: jest.fn(() => 'metrics'),
+  doc: jest.fn(),
+  getDocs: jest.fn(),
+  limit: jest.fn(count => ({ limit: count })),
+  orderBy: jest.fn(),
+  query: jest.fn((_collection, ...constraints) => constraints),
+  setDoc: jest.fn(),
+  startAfter: jest.fn(cursor => ({ startAfter: cursor })),
+  Timestamp: { fromDate: jest.fn(date => date) },
+  where: jest.fn(),
+}));
+jest.mock('../../app/config/firebase', () => ({ db: {} }));
+
+const mockGetDocs = getDocs as jest.Mock;
+
+const reading = (id: number, value: number, date: Date) => ({
+  id: String(id),
+  data: () => ({ type: 'heart_rate', value, unit: 'bpm', timestamp: { toDate: () => date } }),
+});
+
+// Serves the readings newest first, honouring limit and startAfter like Firestore
+const serve = (docs: ReturnType<typeof reading>[]) =>
+  mockGetDocs.mockImplementation(async (constraints: any[]) => {
+    const after = constraints.find(constraint => constraint?.startAfter)?.startAfter;
+    const count = constraints.find(constraint => constraint?.limit)?.limit;
+    const start = after ? docs.indexOf(after) + 1 : 0;
+    return { docs: docs.slice(start, start + count) };
+  });
+
+describe('getMetricAggregates', () => {
+  beforeEach(() => mockGetDocs.mockReset());
+
+  it('reads every reading in range, a batch at a time', async () => {
+    const day = new Date(2026, 0, 15, 9);
+    const docs = Array.from({ length: 1200 }, (_, index) => reading(index, index % 2 ? 80 : 60, day));
+    serve(docs);
+
+    const [aggregate] = await getMetricAggregates('uid', 'heart_rate', 'day');
+
+    expect(mockGetDocs).toHaveBeenCalledTimes(3);
+    expect(aggregate).toEqual({ start: new Date(2026, 0, 15), count: 1200, min: 60, max: 80, avg: 70 });
+  });
+
+  it('buckets readings by day, newest first', async () => {
+    serve([
+      reading(3, 90, new Date(2026, 0, 16, 8)),
+      reading(2, 70, new Date(2026, 0, 15, 20)),
+      reading(1, 50, new Date(2026, 0, 15, 8)),
+    ]);
+
+    const aggregates = await getMetricAggregates('uid', 'heart_rate', 'day');
+
+    expect(mockGetDocs).toHaveBeenCalledTimes(1);
+    expect(aggregates.map(({ start, count, avg }) => [start.getDate(), count, avg])).toEqual([
+      [16, 1, 90],
+      [15, 2, 60],
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+import { Timestamp } from 'firebase/firestore';
+import { Medication } from '../../app/services/medications';
+import { getNotificationPreferences, NotificationPreferences } from '../../app/services/notificationPreferences';
+import { getFiredEscalations, planNotifications } from '../../app/services/notificationScheduler';
+import { Reminder, ReminderType } from '../../app/services/reminders';
+
+jest.mock('expo-notifications', () => ({}));
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('../../app/config/firebase', () => ({ db: {} }));
+jest.mock('../../app/services/escalations', () => ({ logFiredEscalations: jest.fn() }));
+
+const at = (date: Date) => ({ toDate: () => date }) as Timestamp;
+
+const medication = (overrides: Partial<Medication> = {}): Medication => ({
+  id: 'med',
+  name: 'Warfarin',
+  form: 'tablet',
+  dose: 1,
+  schedule: { times: ['08:00'], daysOfWeek: [] },
+  startDate: at(new Date(2026, 0, 1)),
+  notificationEnabled: true,
+  createdAt: at(new Date(2026, 0, 1)),
+  ...overrides,
+});
+
+const reminder = (
+  id: string,
+  time: string,
+  type: ReminderType = 'other',
+  overrides: Partial<Reminder> = {}
+): Reminder => ({
+  id,
+  title: id,
+  date: at(new Date(2026, 0, 15)),
+  time,
+  type,
+  isCompleted: false,
+  isRecurring: true,
+  recurringPattern: 'daily',
+  notificationEnabled: true,
+  createdAt: at(new Date(2026, 0, 1)),
+  ...overrides,
+});
+
+const context = { userName: 'Sam', contact: { name: 'Alex', relationship: 'Partner', phoneNumber: '+447700900000' } };
+const preferences = getNotificationPreferences({});
+const occurrenceId = 'med@2026-01-15T08:00';
+
+describe('getFiredEscalations', () => {
+  it('lists the follow-ups a critical dose has already passed', () => {
+    const now = new Date(2026, 0, 15, 9, 30);
+    const fired = getFiredEscalations([], [medication({ critical: true })], new Set(), preferences, context, now);
+
+    expect(fired.map(({ step, firedAt }) => [step, firedAt])).toEqual([
+      ['renotified', new Date(2026, 0, 15, 8, 30)],
+      ['escalated', new Date(2026, 0, 15, 9, 0)],
+    ]);
+    expect(fired[0].data).toMatchObject({ occurrenceId, medicationId: 'med', critical: true });
+    expect(fired[1].data).toMatchObject({ occurrenceId, contactName: 'Alex' });
+  });
+
+  it('leaves out follow-ups still to come', () => {
+    const now = new Date(2026, 0, 15, 8, 45);
+    const fired = getFiredEscalations([], [medication({ critical: true })], new Set(), preferences, context, now);
+
+    expect(fired.map(({ step }) => step)).toEqual(['renotified']);
+  });
+
+  it('leaves out recorded doses and medications that are not critical', () => {
+    const now = new Date(2026, 0, 15, 9, 30);
+
+    expect(getFiredEscalations([], [medication()], new Set(), preferences, context, now)).toEqual([]);
+    expect(
+      getFiredEscalations([], [medication({ critical: true })], new Set([occurrenceId]), preferences, context, now)
+    ).toEqual([]);
+  });
+});
+
+describe('planNotifications', () => {
+  const now = new Date(2026, 0, 15, 0, 0);
+  const quietNights = (overrides: Partial<NotificationPreferences> = {}) =>
+    getNotificationPreferences({
+      notificationPreferences: { quietHours: { enabled: true, start: '22:00', end: '07:00' }, ...overrides },
+    });
+  const plan = (reminders: Reminder[], preferences: NotificationPreferences, medications: Medication[] = []) =>
+    planNotifications(reminders, medications, new Set(), preferences, context, now).filter(
+      notification => notification.date < new Date(2026, 0, 16, 12)
+    );
+  const summary = (notifications: ReturnType<typeof plan>) =>
+    notifications.map(({ identifier, date, silent }) => [identifier, date.toTimeString().slice(0, 5), silent]);
+
+  it('holds back notices in quiet hours that run past midnight and silences due ones', () => {
+    const notifications = plan(
+      [reminder('late', '23:30'), reminder('early', '06:30'), reminder('evening', '21:00')],
+      quietNights()
+    );
+
+    expect(summary(notifications.filter(notification => notification.date.getDate() === 15))).toEqual([
+      ['reminder:early@2026-01-15', '06:30', true],
+      ['reminder:evening@2026-01-15:1h', '20:00', false],
+      ['reminder:evening@2026-01-15:15m', '20:45', false],
+      ['reminder:evening@2026-01-15', '21:00', false],
+      ['reminder:late@2026-01-15', '23:30', true],
+    ]);
+  });
+
+  it('treats the end of quiet hours as outside them', () => {
+    const notifications = plan([reminder('wake', '07:00')], quietNights());
+
+    expect(summary(notifications.filter(notification => notification.date.getDate() === 15))).toEqual([
+      ['reminder:wake@2026-01-15', '07:00', false],
+    ]);
+  });
+
+  it('keeps critical follow-ups in quiet hours but not others', () => {
+    const medications = [
+      medication({ id: 'critical', critical: true, schedule: { times: ['23:00'], daysOfWeek: [] } }),
+      medication({ id: 'routine', schedule: { times: ['23:00'], daysOfWeek: [] } }),
+    ];
+    const identifiers = plan([], quietNights(), medications).map(notification => notification.identifier);
+
+    expect(identifiers).toContain('escalation:critical@2026-01-15T23:00');
+    expect(identifiers).not.toContain('escalation:routine@2026-01-15T23:00');
+  });
+
+  it('sends only the chosen lead-time notices per type', () => {
+    const preferences = getNotificationPreferences({ notificationPreferences: { leadTimes: { other: [] } } });
+    const identifiers = plan([reminder('walk', '10:00', 'exercise'), reminder('call', '11:00')], preferences)
+      .filter(notification => notification.date.getDate() === 15)
+      .map(notification => notification.identifier);
+
+    expect(identifiers).toEqual([
+      'reminder:walk@2026-01-15:2h',
+      'reminder:walk@2026-01-15:1h',
+      'reminder:walk@2026-01-15:15m',
+      'reminder:walk@2026-01-15',
+      'reminder:call@2026-01-15',
+    ]);
+  });
+
+  it('caps a type per day, keeping due notifications and then the soonest notices', () => {
+    const preferences = getNotificationPreferences({ notificationPreferences: { dailyCaps: { water: 2 } } });
+    const identifiers = plan([reminder('water', '08:00', 'water')], preferences)
+      .filter(notification => notification.date.getDate() === 15)
+      .map(notification => notification.identifier);
+
+    expect(identifiers).toEqual(['reminder:water@2026-01-15', 'reminder:water@2026-01-15:morning']);
+  });
+
+  it('keeps the soonest 60 notifications', () => {
+    const preferences = getNotificationPreferences({ notificationPreferences: { leadTimes: { other: [] } } });
+    const reminders = Array.from({ length: 12 }, (_, i) => reminder(`r${i}`, `08:${String(i).padStart(2, '0')}`));
+
+    const notifications = planNotifications(reminders, [], new Set(), preferences, context, now);
+
+    expect(notifications).toHaveLength(60);
+    expect(notifications.map(notification => notification.date.getTime())).toEqual(
+      [...notifications].map(notification => notification.date.getTime()).sort((a, b) => a - b)
+    );
+    // 12 a day for a week: the first five days fill the limit
+    const days = new Set(notifications.map(notification => notification.date.getDate()));
+    expect(days).toEqual(new Set([15, 16, 17, 18, 19]));
+  });
+});
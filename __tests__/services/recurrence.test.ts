@@ -0,0 +1,107 @@
+import { Timestamp } from 'firebase/firestore';
+import { expandRecurrence, getNextOccurrence, RecurrenceRule, toDateKey } from '../../app/services/recurrence';
+
+jest.mock('firebase/firestore', () => ({}));
+
+const at = (date: Date) => ({ toDate: () => date }) as Timestamp;
+
+const days = (dates: Date[]) => dates.map(toDateKey);
+
+// Wednesday 7 January 2026, 08:30
+const start = new Date(2026, 0, 7, 8, 30);
+const from = new Date(2026, 0, 1);
+const to = new Date(2027, 0, 1);
+
+describe('expandRecurrence', () => {
+  it('returns a one-off only inside the range', () => {
+    expect(expandRecurrence(start, null, from, to)).toEqual([start]);
+    expect(expandRecurrence(start, null, new Date(2026, 0, 8), to)).toEqual([]);
+  });
+
+  it('counts skipped days towards COUNT', () => {
+    const rule: RecurrenceRule = { frequency: 'daily', interval: 1, count: 4, exceptions: ['2026-01-08'] };
+
+    expect(days(expandRecurrence(start, rule, from, to))).toEqual(['2026-01-07', '2026-01-09', '2026-01-10']);
+  });
+
+  it('counts occurrences before the range towards COUNT', () => {
+    const rule: RecurrenceRule = { frequency: 'daily', interval: 1, count: 3 };
+
+    expect(days(expandRecurrence(start, rule, new Date(2026, 0, 9), to))).toEqual(['2026-01-09']);
+  });
+
+  it('includes the UNTIL day', () => {
+    const rule: RecurrenceRule = { frequency: 'daily', interval: 2, until: at(new Date(2026, 0, 11)) };
+
+    expect(days(expandRecurrence(start, rule, from, to))).toEqual(['2026-01-07', '2026-01-09', '2026-01-11']);
+  });
+
+  it('keeps the time of day', () => {
+    const [second] = expandRecurrence(start, { frequency: 'daily', interval: 1 }, new Date(2026, 0, 8), to);
+
+    expect(second).toEqual(new Date(2026, 0, 8, 8, 30));
+  });
+
+  it('skips months too short for the start day without counting them', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 1, count: 4 };
+
+    expect(days(expandRecurrence(new Date(2026, 0, 31, 9), rule, from, to))).toEqual([
+      '2026-01-31',
+      '2026-03-31',
+      '2026-05-31',
+      '2026-07-31',
+    ]);
+  });
+
+  it('starts a weekly series mid-week without going back before the start', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 1, byWeekday: [1, 3, 5] };
+
+    expect(days(expandRecurrence(start, rule, from, new Date(2026, 0, 17)))).toEqual([
+      '2026-01-07',
+      '2026-01-09',
+      '2026-01-12',
+      '2026-01-14',
+      '2026-01-16',
+    ]);
+  });
+
+  it('repeats every other week on the chosen weekdays', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 2, byWeekday: [5, 1] };
+
+    expect(days(expandRecurrence(start, rule, from, new Date(2026, 0, 31)))).toEqual([
+      '2026-01-09',
+      '2026-01-19',
+      '2026-01-23',
+    ]);
+  });
+
+  it.each([0, 0.5, -3, NaN])('treats an interval of %p as 1', interval => {
+    const rule: RecurrenceRule = { frequency: 'daily', interval, count: 3 };
+
+    expect(days(expandRecurrence(start, rule, from, to))).toEqual(['2026-01-07', '2026-01-08', '2026-01-09']);
+  });
+
+  it('rounds a fractional interval down', () => {
+    const rule: RecurrenceRule = { frequency: 'daily', interval: 2.9, count: 3 };
+
+    expect(days(expandRecurrence(start, rule, from, to))).toEqual(['2026-01-07', '2026-01-09', '2026-01-11']);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('finds the next occurrence after an exception', () => {
+    const rule: RecurrenceRule = { frequency: 'daily', interval: 1, exceptions: ['2026-01-10'] };
+
+    expect(getNextOccurrence(start, rule, new Date(2026, 0, 10))).toEqual(new Date(2026, 0, 11, 8, 30));
+  });
+
+  it('returns null once a series has ended', () => {
+    const afterEnd = new Date(2026, 1, 1);
+
+    expect(getNextOccurrence(start, { frequency: 'daily', interval: 1, count: 5 }, afterEnd)).toBeNull();
+    expect(
+      getNextOccurrence(start, { frequency: 'weekly', interval: 1, until: at(new Date(2026, 0, 21)) }, afterEnd)
+    ).toBeNull();
+    expect(getNextOccurrence(start, null, afterEnd)).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { FakeSpeechRecognizer, FakeSpeechSynthesizer, RecognitionHandlers, toSpeechText } from '../../app/services/speech';
+
+describe('toSpeechText', () => {
+  it('removes headers, emphasis, quotes and links', () => {
+    const reply = [
+      '## Summary:',
+      'A **normal** resting heart rate is _60–100_ BPM.',
+      '> **Disclaimer:** See the [guidelines](https://example.com) for details.',
+    ].join('\n');
+    expect(toSpeechText(reply)).toBe(
+      'Summary. A normal resting heart rate is 60–100 BPM. Disclaimer: See the guidelines for details.'
+    );
+  });
+
+  it('reads recommendation bullets as sentences', () => {
+    const reply = ['## Recommendations', '- **Drink water** regularly', '* Rest for a day.', '1. See a doctor if it persists!'].join('\n');
+    expect(toSpeechText(reply)).toBe(
+      'Recommendations. Drink water regularly. Rest for a day. See a doctor if it persists.'
+    );
+  });
+
+  it('does not double up full stops', () => {
+    expect(toSpeechText('## Note:\n- Done.')).toBe('Note. Done.');
+  });
+});
+
+describe('FakeSpeechRecognizer', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  const handlers = (): jest.Mocked<RecognitionHandlers> => ({
+    onPartial: jest.fn(),
+    onFinal: jest.fn(),
+    onError: jest.fn(),
+    onEnd: jest.fn(),
+  });
+
+  it('reports partial transcripts, then the final one on stop', async () => {
+    const recognizer = new FakeSpeechRecognizer('my chest hurts', 100);
+    const events = handlers();
+    await recognizer.start(events);
+
+    jest.advanceTimersByTime(100);
+    expect(events.onPartial).toHaveBeenLastCalledWith('my');
+    jest.advanceTimersByTime(200);
+    expect(events.onPartial.mock.calls.map(([text]) => text)).toEqual(['my', 'my chest', 'my chest hurts']);
+    expect(events.onFinal).not.toHaveBeenCalled();
+
+    recognizer.stop();
+    expect(events.onFinal).toHaveBeenCalledWith('my chest hurts');
+    expect(events.onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('delivers what was heard so far when stopped early', async () => {
+    const recognizer = new FakeSpeechRecognizer('what is a normal heart rate', 100);
+    const events = handlers();
+    await recognizer.start(events);
+    jest.advanceTimersByTime(250);
+    recognizer.stop();
+    jest.advanceTimersByTime(1000);
+    expect(events.onFinal).toHaveBeenCalledWith('what is');
+    expect(events.onPartial).toHaveBeenCalledTimes(2);
+  });
+
+  it('discards the transcript on abort', async () => {
+    const recognizer = new FakeSpeechRecognizer('hello there', 100);
+    const events = handlers();
+    await recognizer.start(events);
+    jest.advanceTimersByTime(100);
+    recognizer.abort();
+    expect(events.onFinal).not.toHaveBeenCalled();
+    expect(events.onEnd).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('FakeSpeechSynthesizer', () => {
+  it('records speech and finishes the previous utterance when interrupted', () => {
+    const synthesizer = new FakeSpeechSynthesizer();
+    const onDone = jest.fn();
+    synthesizer.speak('First', { onDone });
+    synthesizer.speak('Second');
+    expect(synthesizer.spoken).toEqual(['First', 'Second']);
+    expect(onDone).toHaveBeenCalledTimes(1);
+  });
+});
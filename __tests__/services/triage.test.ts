@@ -0,0 +1,86 @@
+import { getLocales } from 'expo-localization';
+import { getCurrentCountryCode } from '../../app/services/emergencyContact';
+import { detectEmergency, getEmergencyNumber, resolveEmergencyNumber } from '../../app/services/triage';
+
+// Only the audit log touches Firestore
+jest.mock('firebase/firestore', () => ({}));
+jest.mock('../../app/config/firebase', () => ({ db: {} }));
+jest.mock('expo-localization', () => ({ getLocales: jest.fn(() => [{ regionCode: 'GB' }]) }));
+jest.mock('../../app/services/emergencyContact', () => ({ getCurrentCountryCode: jest.fn() }));
+
+const ruleFor = (text: string) => detectEmergency(text)?.rule.id ?? null;
+
+describe('detectEmergency', () => {
+  it.each([
+    ['I have chest pain spreading to my arm', 'chest-pain'],
+    ['my face is drooping and I have slurred speech', 'stroke-signs'],
+    ["I can't breathe", 'breathing'],
+    ['I want to kill myself', 'suicidal-ideation'],
+  ])('flags English red flags: %s', (text, rule) => {
+    expect(ruleFor(text)).toBe(rule);
+  });
+
+  it.each([
+    ['मेरे सीने में दर्द हो रहा है', 'chest-pain'],
+    ['seene mein dard ho raha hai', 'chest-pain'],
+    ['पापा का चेहरा टेढ़ा हो गया है', 'stroke-signs'],
+    ['साँस नहीं आ रही है', 'breathing'],
+    ['saans lene mein dikkat ho rahi hai', 'breathing'],
+    ['मैं आत्महत्या करना चाहता हूँ', 'suicidal-ideation'],
+    ['marna chahta hoon', 'suicidal-ideation'],
+  ])('flags Hindi red flags: %s', (text, rule) => {
+    expect(ruleFor(text)).toBe(rule);
+  });
+
+  it.each([
+    ['எனக்கு நெஞ்சு வலி இருக்கிறது', 'chest-pain'],
+    ['அம்மாவுக்கு பக்கவாதம் போல இருக்கிறது', 'stroke-signs'],
+    ['மூச்சு விட முடியவில்லை', 'breathing'],
+    ['தற்கொலை செய்ய நினைக்கிறேன்', 'suicidal-ideation'],
+  ])('flags Tamil red flags: %s', (text, rule) => {
+    expect(ruleFor(text)).toBe(rule);
+  });
+
+  it('ignores negated and everyday messages', () => {
+    expect(ruleFor('no chest pain today, just tired')).toBeNull();
+    expect(ruleFor('मुझे हल्का सिरदर्द है')).toBeNull();
+    expect(ruleFor('எனக்கு லேசான தலைவலி')).toBeNull();
+  });
+});
+
+describe('getEmergencyNumber', () => {
+  it('looks up the country', () => {
+    expect(getEmergencyNumber('US')).toBe('911');
+    expect(getEmergencyNumber('au')).toBe('000');
+    expect(getEmergencyNumber('DE')).toBe('112');
+  });
+
+  it('falls back to 112 for an unknown country', () => {
+    expect(getEmergencyNumber(null)).toBe('112');
+    expect(getEmergencyNumber('ZZ')).toBe('112');
+  });
+
+  it("uses the phone's region setting by default", () => {
+    expect(getEmergencyNumber()).toBe('999');
+  });
+
+  it('uses the locale when the region setting is missing', () => {
+    (getLocales as jest.Mock).mockReturnValueOnce([{ regionCode: null }]);
+    jest
+      .spyOn(Intl, 'DateTimeFormat')
+      .mockReturnValueOnce({ resolvedOptions: () => ({ locale: 'en-NZ' }) } as Intl.DateTimeFormat);
+    expect(getEmergencyNumber()).toBe('111');
+  });
+});
+
+describe('resolveEmergencyNumber', () => {
+  it('prefers the country the phone is in over its region setting', async () => {
+    (getCurrentCountryCode as jest.Mock).mockResolvedValueOnce('JP');
+    await expect(resolveEmergencyNumber()).resolves.toBe('119');
+  });
+
+  it('falls back to the region setting without a location', async () => {
+    (getCurrentCountryCode as jest.Mock).mockResolvedValueOnce(null);
+    await expect(resolveEmergencyNumber()).resolves.toBe('999');
+  });
+});
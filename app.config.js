@@ -37,7 +37,27 @@ export default {
           "backgroundColor": "#000000"
         }
       ],
-      "expo-secure-store"
+      "expo-secure-store",
+      [
+        "expo-location",
+        {
+          "locationWhenInUsePermission": "Allow Neuracare to add your location to emergency messages you send to your emergency contact."
+        }
+      ],
+      [
+        "expo-image-picker",
+        {
+          "photosPermission": "Allow Neuracare to attach photos to your chat questions.",
+          "cameraPermission": "Allow Neuracare to take photos to attach to your chat questions."
+        }
+      ],
+      [
+        "expo-speech-recognition",
+        {
+          "microphonePermission": "Allow Neuracare to use the microphone to dictate chat messages.",
+          "speechRecognitionPermission": "Allow Neuracare to turn your speech into chat messages."
+        }
+      ]
     ],
     experiments: {
       typedRoutes: true
@@ -48,6 +68,12 @@ export default {
       },
       owner: "aathif123",
       GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+      LLM_PROVIDER: process.env.LLM_PROVIDER,
+      LLM_MODEL: process.env.LLM_MODEL,
+      LLM_BASE_URL: process.env.LLM_BASE_URL,
+      LLM_API_KEY: process.env.LLM_API_KEY,
+      LLM_CONTEXT_TOKEN_BUDGET: process.env.LLM_CONTEXT_TOKEN_BUDGET,
+      PROMPT_TEMPLATES_URL: process.env.PROMPT_TEMPLATES_URL,
       FIREBASE_API_KEY: process.env.FIREBASE_API_KEY,
       FIREBASE_AUTH_DOMAIN: process.env.FIREBASE_AUTH_DOMAIN,
       FIREBASE_PROJECT_ID: process.env.FIREBASE_PROJECT_ID,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -15,6 +15,7 @@ import {
   Keyboard,
   Easing,
   Linking,
+  Modal,
 } from 'react-native';
 import { MaterialIcons, MaterialCommunityIcons, Feather, AntDesign } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -27,40 +28,74 @@ import {
   getDocs,
   Timestamp,
   addDoc,
+  setDoc,
   orderBy,
   onSnapshot,
   deleteDoc,
   writeBatch,
   updateDoc,
+  deleteField,
   and,
 } from 'firebase/firestore';
 import { onAuthStateChanged } from 'firebase/auth';
-import { router } from 'expo-router';
-import Constants from 'expo-constants';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import Markdown from 'react-native-markdown-display';
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
-
-// API Key Setup
-const GEMINI_API_KEY = Constants.expoConfig?.extra?.GEMINI_API_KEY;
-if (!GEMINI_API_KEY) {
-  console.error('Gemini API key is missing. Check your environment variables.');
-}
-
-// Initialize Gemini AI
-let genAI: GoogleGenerativeAI;
-let model: GenerativeModel;
-try {
-  genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-  model = genAI.getGenerativeModel({
-    model: "gemini-2.0-flash",
-    generationConfig: {
-      maxOutputTokens: 150,  // Enforces concise responses
-      temperature: 0.5,      // Ensures focused, accurate answers
-    },
-  });
-} catch (error) {
-  console.error('Error initializing Gemini AI:', error);
-}
+import llmConfig from '../config/llm';
+import { getLLMProvider, LLMImage } from '../services/llm';
+import { buildHealthContext, redactIdentifiers } from '../services/healthContext';
+import { refreshSessionSummary, shouldRefreshSummary } from '../services/chatMemory';
+import { DEFAULT_EMERGENCY_NUMBER, detectEmergency, logTriageEvent, TriageResult } from '../services/triage';
+import { syncSearchIndex } from '../services/chatSearch';
+import { EXPORT_FORMATS, ExportFormat, exportChatSessions } from '../services/chatExport';
+import { getSpeechRecognizer, getSpeechSynthesizer, toSpeechText } from '../services/speech';
+import {
+  ChatAttachment,
+  ImageSource,
+  loadAttachmentImage,
+  PendingImage,
+  pickChatImage,
+  toLLMImage,
+  uploadChatImage,
+} from '../services/chatAttachments';
+import {
+  checkOnline,
+  DeliveryState,
+  enqueueMessage,
+  getNextDueMessage,
+  loadQueue,
+  recordFailedAttempt,
+  removeFromQueue,
+  resetQueuedMessage,
+  subscribeToConnectivity,
+} from '../services/chatQueue';
+import {
+  HEALTH_SYSTEM_PROMPT_ID,
+  loadRemotePromptTemplates,
+  PromptTemplateRef,
+  renderPrompt,
+} from '../services/prompts';
+import { getLanguage, ResponseLanguage, ResponsePreferences, toPromptVariables } from '../services/responsePreferences';
+import EmergencyCard from '@/components/EmergencyCard';
+import { useEmergencyNumber } from '@/hooks/useEmergencyNumber';
+import {
+  AssistantResponse,
+  extractPartialAnswer,
+  parseAssistantResponse,
+  Recommendation,
+  RecommendationKind,
+  RESPONSE_FORMAT_INSTRUCTIONS,
+  STRUCTURED_MAX_OUTPUT_TOKENS,
+  UrgencyLevel,
+} from '../services/responseSchema';
+import {
+  ChatToolCall,
+  describeToolCall,
+  executeToolCall,
+  prepareToolCall,
+  requiresConfirmation,
+  TOOL_INSTRUCTIONS,
+} from '../services/chatTools';
 
 // Types (unchanged)
 interface ChatMessage {
@@ -69,9 +104,32 @@ interface ChatMessage {
   message: string;
   timestamp: Timestamp;
   isRecommendation?: boolean;
+  isTruncated?: boolean; // Set when the user stopped the reply mid-stream
+  recommendations?: Recommendation[];
+  urgency?: UrgencyLevel;
+  disclaimers?: string[];
+  toolCalls?: ChatToolCall[]; // Write actions proposed by the assistant, confirmed by the user
+  feedback?: MessageFeedback;
+  previousVersions?: AssistantVersion[]; // Earlier replies replaced by "Regenerate", oldest first
+  attachments?: ChatAttachment[];
+  deliveryState?: DeliveryState; // User messages only
+  promptTemplate?: PromptTemplateRef; // Assistant replies; unset for replies from before the prompt registry
 }
 
-interface UserProfile {
+type FeedbackRating = 'up' | 'down';
+
+interface MessageFeedback {
+  rating: FeedbackRating;
+  reason?: string;
+  timestamp: Timestamp;
+}
+
+type AssistantVersion = Pick<
+  ChatMessage,
+  'message' | 'timestamp' | 'recommendations' | 'urgency' | 'disclaimers' | 'feedback' | 'promptTemplate'
+>;
+
+interface UserProfile extends ResponsePreferences {
   fullName: string;
   email: string;
   phoneNumber: string;
@@ -121,18 +179,11 @@ interface ChatSession {
   createdAt: Timestamp;
   lastUpdated: Timestamp;
   messages: ChatMessage[];
+  summary?: string;
+  summaryMessageCount?: number;
+  forkedFrom?: { sessionId: string; messageId: string }; // Set when created by editing a message
 }
 
-// Optimized System Prompt
-const HEALTH_SYSTEM_PROMPT = `You are Neuracare AI, a health assistant. Your responses must be concise and directly address the user's query. If the query is vague, provide general advice and suggest specifying details for personalized responses. Provide health advice, symptom tracking, lifestyle tips, and treatment suggestions with disclaimers. Do not provide definitive diagnoses; always recommend consulting a healthcare professional for accurate diagnosis. Tailor responses to user health data if available. For emergencies, urge immediate medical attention. Use bullet points for clarity. Be empathetic and professional.
-
-Format your responses using markdown:
-- Use ## for section headers
-- Use **bold** for emphasis
-- Use - for bullet points
-- Use > for important notes or disclaimers
--must respond within 150 tokens and dont ask questions must give a solution`;   
- 
 const INITIAL_MESSAGE: ChatMessage = {
   id: '1',
   type: 'assistant',
@@ -140,6 +191,66 @@ const INITIAL_MESSAGE: ChatMessage = {
   timestamp: Timestamp.now(),
 };
 
+type MessageFilter = 'all' | 'recommendations' | 'medication';
+
+const MESSAGE_FILTERS: { key: MessageFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'recommendations', label: 'Recommendations' },
+  { key: 'medication', label: 'Medication' },
+];
+
+const RECOMMENDATION_KINDS: Record<
+  RecommendationKind,
+  { icon: keyof typeof MaterialCommunityIcons.glyphMap; color: string; label: string }
+> = {
+  lifestyle: { icon: 'run', color: '#4CAF50', label: 'Lifestyle' },
+  medication: { icon: 'pill', color: '#FF5722', label: 'Medication' },
+  'see-doctor': { icon: 'doctor', color: '#2196F3', label: 'See a doctor' },
+};
+
+const URGENCY_LABELS: Partial<Record<UrgencyLevel, { label: string; color: string }>> = {
+  soon: { label: 'See a doctor soon', color: '#FF9800' },
+  emergency: { label: 'Seek emergency care', color: '#F44336' },
+};
+
+const matchesFilter = (chat: ChatMessage, filter: MessageFilter): boolean => {
+  if (filter === 'all') return true;
+  if (chat.type !== 'assistant') return false;
+  if (filter === 'medication') return !!chat.recommendations?.some(r => r.kind === 'medication');
+  return !!chat.recommendations?.length || !!chat.isRecommendation;
+};
+
+const AUTO_SPEAK_KEY = 'chat.autoSpeak';
+
+// Sent when the user attaches a photo without typing a question
+const IMAGE_ONLY_QUESTION = 'What can you tell me about this image?';
+
+const IMAGE_INSTRUCTIONS = 'The user attached image(s) to this message. Describe only what is relevant to their health question, do not try to identify people, and recommend a professional review for anything that looks concerning.';
+
+const QUEUE_POLL_INTERVAL_MS = 5000;
+
+const DELIVERY_STATES: Record<
+  Exclude<DeliveryState, 'delivered'>,
+  { icon: keyof typeof MaterialIcons.glyphMap; label: string; color: string }
+> = {
+  queued: { icon: 'schedule', label: 'Waiting to send', color: '#888' },
+  sending: { icon: 'sync', label: 'Sending', color: '#888' },
+  failed: { icon: 'error-outline', label: 'Not sent', color: '#F44336' },
+};
+
+const FEEDBACK_REASONS = ['Inaccurate', 'Not helpful', 'Unsafe', 'Too long', 'Other'];
+
+// Snapshot of an assistant reply kept when it is regenerated; skips unset fields for Firestore
+const toAssistantVersion = (chat: ChatMessage): AssistantVersion => {
+  const version: AssistantVersion = { message: chat.message, timestamp: chat.timestamp };
+  if (chat.recommendations) version.recommendations = chat.recommendations;
+  if (chat.urgency) version.urgency = chat.urgency;
+  if (chat.disclaimers) version.disclaimers = chat.disclaimers;
+  if (chat.feedback) version.feedback = chat.feedback;
+  if (chat.promptTemplate) version.promptTemplate = chat.promptTemplate;
+  return version;
+};
+
 // Helper Functions (unchanged except minor refinements)
 const formatMessageText = (text: string): string => {
   let formattedText = text
@@ -163,16 +274,58 @@ const enhanceResponseWithMarkdown = (text: string): string => {
   return enhancedText;
 };
 
-// Suggested Questions
+// Suggested Questions, in the user's preferred response language
+const SUGGESTED_QUESTIONS: Record<
+  ResponseLanguage,
+  {
+    title: string;
+    general: string[];
+    condition: (name: string) => string;
+    highHeartRate: string;
+    allergy: (name: string) => string;
+  }
+> = {
+  en: {
+    title: 'Suggested Questions:',
+    general: [
+      'How can I improve my sleep quality?',
+      'What are some exercises for stress reduction?',
+      'Can you suggest a healthy meal plan?',
+    ],
+    condition: name => `What should I know about managing ${name}?`,
+    highHeartRate: 'What can I do to lower my heart rate?',
+    allergy: name => `What treatments are available for ${name} allergies?`,
+  },
+  ta: {
+    title: 'பரிந்துரைக்கப்பட்ட கேள்விகள்:',
+    general: [
+      'என் தூக்கத்தின் தரத்தை எப்படி மேம்படுத்துவது?',
+      'மன அழுத்தத்தைக் குறைக்க என்ன உடற்பயிற்சிகள் உள்ளன?',
+      'ஆரோக்கியமான உணவுத் திட்டத்தைப் பரிந்துரைக்க முடியுமா?',
+    ],
+    condition: name => `${name} ஐ நிர்வகிப்பது பற்றி நான் என்ன தெரிந்துகொள்ள வேண்டும்?`,
+    highHeartRate: 'என் இதயத் துடிப்பைக் குறைக்க நான் என்ன செய்யலாம்?',
+    allergy: name => `${name} ஒவ்வாமைக்கு என்ன சிகிச்சைகள் உள்ளன?`,
+  },
+  hi: {
+    title: 'सुझाए गए सवाल:',
+    general: [
+      'नींद की गुणवत्ता सुधारने के उपाय क्या हैं?',
+      'तनाव कम करने के लिए कौन-से व्यायाम अच्छे हैं?',
+      'क्या आप एक स्वस्थ भोजन योजना सुझा सकते हैं?',
+    ],
+    condition: name => `${name} को संभालने के बारे में मुझे क्या जानना चाहिए?`,
+    highHeartRate: 'अपनी हृदय गति कम करने के लिए मैं क्या करूँ?',
+    allergy: name => `${name} एलर्जी के लिए कौन-से उपचार उपलब्ध हैं?`,
+  },
+};
+
 const generateSuggestedQuestions = (profile: UserProfile, health: HealthData): string[] => {
-  const questions: string[] = [
-    "How can I improve my sleep quality?",
-    "What are some exercises for stress reduction?",
-    "Can you suggest a healthy meal plan?",
-  ];
-  if (profile.conditions?.length) questions.push(`What should I know about managing ${profile.conditions[0]}?`);
-  if (health.vitals.heartRate?.status === 'high') questions.push("What can I do to lower my heart rate?");
-  if (profile.allergies?.length) questions.push(`What treatments are available for ${profile.allergies[0]} allergies?`);
+  const strings = SUGGESTED_QUESTIONS[getLanguage(profile).key];
+  const questions: string[] = [...strings.general];
+  if (profile.conditions?.length) questions.push(strings.condition(profile.conditions[0]));
+  if (health.vitals.heartRate?.status === 'high') questions.push(strings.highHeartRate);
+  if (profile.allergies?.length) questions.push(strings.allergy(profile.allergies[0]));
   return questions.slice(0, 4);
 };
 
@@ -190,13 +343,44 @@ export default function ChatScreen() {
   const [sidebarVisible, setSidebarVisible] = useState(false);
   const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [streamingText, setStreamingText] = useState('');
+  const [triageAlert, setTriageAlert] = useState<TriageResult | null>(null);
+  const emergencyNumber = useEmergencyNumber(!!triageAlert);
+  const [messageFilter, setMessageFilter] = useState<MessageFilter>('all');
+  const [filterBarVisible, setFilterBarVisible] = useState(false);
+  // Index into [...previousVersions, current] per message; missing means the current version
+  const [versionView, setVersionView] = useState<Record<string, number>>({});
+  const [feedbackTarget, setFeedbackTarget] = useState<ChatMessage | null>(null);
+  const [feedbackReason, setFeedbackReason] = useState('');
+  const [feedbackNote, setFeedbackNote] = useState('');
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  const [editText, setEditText] = useState('');
+  const [exportSessionIds, setExportSessionIds] = useState<string[] | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingImage, setPendingImage] = useState<PendingImage | null>(null);
+  const [viewerImageUrl, setViewerImageUrl] = useState<string | null>(null);
+  const [isOffline, setIsOffline] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+  const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
+  const [autoSpeak, setAutoSpeak] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Set by the search screen to open a specific message
+  const searchTarget = useLocalSearchParams<{ sessionId?: string; messageId?: string }>();
 
+  const abortControllerRef = useRef<AbortController | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
   const fadeAnim = useRef(new Animated.Value(1)).current;
   const dot1Opacity = useRef(new Animated.Value(0.3)).current;
   const dot2Opacity = useRef(new Animated.Value(0.3)).current;
   const dot3Opacity = useRef(new Animated.Value(0.3)).current;
   const sidebarAnim = useRef(new Animated.Value(-280)).current;
+  const messageOffsets = useRef<Record<string, number>>({});
+  const handledSearchTarget = useRef<string | null>(null);
+  // Composer text before dictation started; recognized speech is appended to it
+  const dictationBaseRef = useRef('');
+  const micPressedRef = useRef(false);
+  const queueBusyRef = useRef(false);
+  const processQueueRef = useRef<() => void>(() => {});
 
   // Authentication and Data Loading (unchanged)
   useEffect(() => {
@@ -260,6 +444,71 @@ export default function ChatScreen() {
     }
   };
 
+  // Picks up language and reading-level changes made on the profile tab
+  useFocusEffect(
+    useCallback(() => {
+      if (userId) loadUserProfile(userId);
+    }, [userId])
+  );
+
+  // Remote prompt overrides apply from the next reply on
+  useEffect(() => {
+    loadRemotePromptTemplates();
+  }, []);
+
+  useEffect(() => {
+    AsyncStorage.getItem(AUTO_SPEAK_KEY)
+      .then(value => setAutoSpeak(value === 'true'))
+      .catch(error => console.error('Error loading voice settings:', error));
+    return () => {
+      getSpeechSynthesizer().stop();
+      getSpeechRecognizer().abort();
+    };
+  }, []);
+
+  // Retries queued messages when the connection returns and once their backoff has elapsed
+  useEffect(() => {
+    if (!userId) return;
+    const unsubscribe = subscribeToConnectivity(online => {
+      setIsOffline(!online);
+      if (online) processQueueRef.current();
+    });
+    const timer = setInterval(() => processQueueRef.current(), QUEUE_POLL_INTERVAL_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [userId]);
+
+  // Opens the session picked on the search screen and scrolls to the message
+  useEffect(() => {
+    const { sessionId, messageId } = searchTarget;
+    if (!sessionId || !messageId) return;
+    const key = `${sessionId}/${messageId}`;
+    if (handledSearchTarget.current === key) return;
+    const session = chatSessions.find(s => s.id === sessionId);
+    if (!session) return;
+    handledSearchTarget.current = key;
+    setCurrentSessionId(sessionId);
+    setChatHistory(session.messages);
+    setMessageFilter('all');
+    setHighlightedMessageId(messageId);
+  }, [searchTarget.sessionId, searchTarget.messageId, chatSessions]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    // Wait for the switched session to lay out, and for the scroll-to-end it triggers
+    const scrollTimer = setTimeout(() => {
+      const offset = messageOffsets.current[highlightedMessageId];
+      if (offset !== undefined) scrollViewRef.current?.scrollTo({ y: Math.max(0, offset - 16), animated: true });
+    }, 400);
+    const clearTimer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => {
+      clearTimeout(scrollTimer);
+      clearTimeout(clearTimer);
+    };
+  }, [highlightedMessageId]);
+
   const loadChatSessions = async (uid: string) => {
     try {
       const q = query(collection(db, 'users', uid, 'chatSessions'), orderBy('lastUpdated', 'desc'));
@@ -271,6 +520,9 @@ export default function ChatScreen() {
             title: data.title || 'New Chat',
             createdAt: data.createdAt || Timestamp.now(),
             lastUpdated: data.lastUpdated || Timestamp.now(),
+            summary: data.summary,
+            summaryMessageCount: data.summaryMessageCount,
+            forkedFrom: data.forkedFrom,
           };
           const messagesSnapshot = await getDocs(query(
             collection(db, 'users', uid, 'chatSessions', doc.id, 'messages'),
@@ -287,6 +539,13 @@ export default function ChatScreen() {
           });
         }
         setChatSessions(sessions);
+        syncSearchIndex(
+          uid,
+          sessions.map(session => ({
+            ...session,
+            messages: session.messages.filter(msg => msg.id !== INITIAL_MESSAGE.id),
+          }))
+        );
         if (sessions.length === 0) {
           createNewSession();
         } else if (!currentSessionId || !sessions.find(s => s.id === currentSessionId)) {
@@ -374,17 +633,42 @@ export default function ChatScreen() {
     }).start(() => setSidebarVisible(!sidebarVisible));
   };
 
-  const saveMessage = async (message: Omit<ChatMessage, 'id'>) => {
-    if (!userId || !currentSessionId) return;
+  // Writes are not awaited: offline, Firestore keeps them pending and sends them on reconnect
+  const saveMessage = (
+    message: Omit<ChatMessage, 'id'>,
+    sessionId: string | null = currentSessionId,
+    history: ChatMessage[] = chatHistory,
+    messageId?: string
+  ): string | undefined => {
+    if (!userId || !sessionId) return;
+    const messagesRef = collection(db, 'users', userId, 'chatSessions', sessionId, 'messages');
+    const messageRef = messageId ? doc(messagesRef, messageId) : doc(messagesRef);
+    setDoc(messageRef, message).catch(error => console.error('Error saving message:', error));
+    updateDoc(doc(db, 'users', userId, 'chatSessions', sessionId), { lastUpdated: Timestamp.now() }).catch(error =>
+      console.error('Error updating session:', error)
+    );
+    if (message.type === 'user' && history.length <= 1) {
+      updateSessionTitle(sessionId, message.message);
+    }
+    return messageRef.id;
+  };
+
+  const updateDeliveryState = (sessionId: string, messageId: string, deliveryState: DeliveryState) => {
+    if (!userId) return;
+    setChatHistory(prev => prev.map(msg => (msg.id === messageId ? { ...msg, deliveryState } : msg)));
+    updateDoc(doc(db, 'users', userId, 'chatSessions', sessionId, 'messages', messageId), { deliveryState }).catch(
+      error => console.error('Error updating delivery state:', error)
+    );
+  };
+
+  // Runs in the background; a failed refresh is retried on the next turn
+  const updateSessionSummary = async (messages: ChatMessage[], session?: ChatSession) => {
+    if (!userId || !session) return;
+    if (!shouldRefreshSummary(messages.length, session)) return;
     try {
-      const docRef = await addDoc(collection(db, 'users', userId, 'chatSessions', currentSessionId, 'messages'), message);
-      await updateDoc(doc(db, 'users', userId, 'chatSessions', currentSessionId), { lastUpdated: Timestamp.now() });
-      if (message.type === 'user' && chatHistory.length <= 1) {
-        updateSessionTitle(currentSessionId, message.message);
-      }
-      return docRef.id;
+      await refreshSessionSummary(userId, session.id, messages, session, userProfile);
     } catch (error) {
-      console.error('Error saving message:', error);
+      console.error('Error updating session summary:', error);
     }
   };
 
@@ -407,6 +691,9 @@ export default function ChatScreen() {
             await updateDoc(doc(db, 'users', userId, 'chatSessions', currentSessionId), {
               title: 'New Chat',
               lastUpdated: Timestamp.now(),
+              summary: deleteField(),
+              summaryMessageCount: deleteField(),
+              summaryUpdatedAt: deleteField(),
             });
           } catch (error) {
             console.error('Error clearing chat history:', error);
@@ -416,103 +703,506 @@ export default function ChatScreen() {
     ]);
   };
 
+  // Streams one model reply; a stopped stream is unfinished JSON, so only the answer text is kept
+  const streamStructuredReply = async (prompt: string, controller: AbortController, images?: LLMImage[]) => {
+    let raw = '';
+    try {
+      const stream = getLLMProvider().stream(prompt, {
+        signal: controller.signal,
+        responseFormat: 'json',
+        maxOutputTokens: STRUCTURED_MAX_OUTPUT_TOKENS,
+        images,
+      });
+      for await (const delta of stream) {
+        raw += delta;
+        setStreamingText(extractPartialAnswer(raw));
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) throw error;
+    }
+
+    const isTruncated = controller.signal.aborted;
+    const structured: AssistantResponse = isTruncated
+      ? { answer: extractPartialAnswer(raw), recommendations: [], urgency: 'none', disclaimers: [], toolCalls: [] }
+      : parseAssistantResponse(raw);
+    return { raw, structured, isTruncated };
+  };
+
+  // Runs or declines a write the assistant proposed, then records the outcome on the message
+  const handleToolCallDecision = async (chat: ChatMessage, index: number, confirmed: boolean) => {
+    if (!userId || !currentSessionId || !chat.toolCalls) return;
+    const call = chat.toolCalls[index];
+    let updated: ChatToolCall = { ...call, status: confirmed ? 'confirmed' : 'declined' };
+    if (confirmed) {
+      try {
+        updated.result = await executeToolCall(userId, call);
+      } catch (error) {
+        console.error('Error running chat tool:', error);
+        updated = { ...updated, status: 'failed', result: 'Could not complete this action.' };
+      }
+    }
+    const toolCalls = chat.toolCalls.map((item, i) => (i === index ? updated : item));
+    setChatHistory(prev => prev.map(msg => (msg.id === chat.id ? { ...msg, toolCalls } : msg)));
+    try {
+      await updateDoc(doc(db, 'users', userId, 'chatSessions', currentSessionId, 'messages', chat.id), { toolCalls });
+    } catch (error) {
+      console.error('Error saving tool call status:', error);
+    }
+  };
+
+  /**
+   * Builds the prompt for `text` from the given history, streams the reply (running
+   * read-only tools once) and returns the assistant message to store, or null when
+   * the user stopped it before any text arrived.
+   */
+  const generateReply = async (
+    text: string,
+    history: ChatMessage[],
+    session?: ChatSession,
+    images: LLMImage[] = []
+  ): Promise<Omit<ChatMessage, 'id'> | null> => {
+    const { healthInfo, summary, conversation } = buildHealthContext({
+      question: text,
+      profile: userProfile,
+      healthData,
+      history: history.map(msg =>
+        msg.attachments?.length ? { ...msg, message: `${msg.message} [image attached]` } : msg
+      ),
+      summary: session?.summary,
+      tokenBudget: llmConfig.contextTokenBudget,
+    });
+    const question = redactIdentifiers(text.trim(), userProfile);
+    const summarySection = summary ? `\n\nConversation summary so far:\n${summary}` : '';
+    const imageSection = images.length ? `\n\n${IMAGE_INSTRUCTIONS}` : '';
+    const systemPrompt = renderPrompt(HEALTH_SYSTEM_PROMPT_ID, {
+      ...toPromptVariables(userProfile),
+      responseFormat: RESPONSE_FORMAT_INSTRUCTIONS,
+      tools: TOOL_INSTRUCTIONS,
+    });
+    const prompt = `${systemPrompt.text}\n\n${healthInfo}${summarySection}${imageSection}\n\nRecent conversation:\n${conversation}\n\nUser: ${question}\n\nAssistant:`;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    let { raw, structured, isTruncated } = await streamStructuredReply(prompt, controller, images);
+
+    // Read-only tools run straight away and the model answers again with their results
+    const readCalls = isTruncated ? [] : structured.toolCalls.filter(call => !requiresConfirmation(call));
+    if (readCalls.length > 0 && userId) {
+      const results = await Promise.all(
+        readCalls.map(async call => {
+          try {
+            return `${call.name}: ${await executeToolCall(userId, call)}`;
+          } catch (error) {
+            console.error('Error running chat tool:', error);
+            return `${call.name}: failed to load data`;
+          }
+        })
+      );
+      const followUp = `${prompt} ${raw}\n\nTool results:\n${results.join('\n\n')}\n\nUsing these results, reply to the user in the same JSON format without calling read tools again.\n\nAssistant:`;
+      ({ raw, structured, isTruncated } = await streamStructuredReply(followUp, controller, images));
+    }
+
+    if (!structured.answer.trim()) {
+      if (isTruncated) return null;
+      throw new Error('Failed to get response from the model');
+    }
+
+    const pendingWrites: ChatToolCall[] =
+      isTruncated || !userId
+        ? []
+        : await Promise.all(
+            structured.toolCalls.filter(requiresConfirmation).map(call => prepareToolCall(userId, call))
+          );
+
+    const aiResponse: Omit<ChatMessage, 'id'> = {
+      type: 'assistant',
+      message: enhanceResponseWithMarkdown(structured.answer),
+      timestamp: Timestamp.now(),
+      isRecommendation: structured.recommendations.length > 0,
+      recommendations: structured.recommendations,
+      urgency: structured.urgency,
+      disclaimers: structured.disclaimers,
+      promptTemplate: { id: systemPrompt.id, version: systemPrompt.version },
+    };
+    if (pendingWrites.length > 0) aiResponse.toolCalls = pendingWrites;
+    if (isTruncated) aiResponse.isTruncated = true;
+    return aiResponse;
+  };
+
+  const finishGenerating = () => {
+    abortControllerRef.current = null;
+    setStreamingText('');
+    setIsLoading(false);
+    setTimeout(() => scrollViewRef.current?.scrollToEnd({ animated: true }), 100);
+  };
+
   // Optimized Send Message Function
-  const sendMessage = async (text: string = message) => {
-    if (!text.trim() || isLoading) return;
+  // `target` lets callers send into a session that is not yet reflected in state (e.g. a fork)
+  const sendMessage = async (
+    text: string = message,
+    target?: { sessionId: string; history: ChatMessage[]; attachments?: ChatAttachment[] }
+  ) => {
+    // Attachments from the composer only apply to messages the user typed
+    const image = target ? null : pendingImage;
+    const sessionId = target?.sessionId ?? currentSessionId;
+    if ((!text.trim() && !image) || isLoading || !userId || !sessionId) return;
+    if (!text.trim()) text = IMAGE_ONLY_QUESTION;
+    const history = target?.history ?? chatHistory;
     setIsLoading(true);
+
+    const online = await checkOnline();
+    if (image && !online) {
+      Alert.alert('You Are Offline', 'Photos can only be sent while online. Remove the photo to queue your message.');
+      setIsLoading(false);
+      return;
+    }
+
     setMessage('');
+    setPendingImage(null);
     Keyboard.dismiss();
     if (showSuggestions) {
       Animated.timing(fadeAnim, { toValue: 0, duration: 200, useNativeDriver: true }).start(() => setShowSuggestions(false));
     }
 
-    const userMessage: Omit<ChatMessage, 'id'> = { type: 'user', message: text, timestamp: Timestamp.now() };
-    const userMessageId = await saveMessage(userMessage);
-    setChatHistory(prev => [...prev, { ...userMessage, id: userMessageId || Date.now().toString() }]);
+    // Red-flag check runs locally before anything goes to the network
+    const triage = detectEmergency(text);
+    if (triage) {
+      setTriageAlert(triage);
+      logTriageEvent(userId, triage, { sessionId, source: 'chat' });
+    }
+
+    let attachments = target?.attachments;
+    if (image) {
+      try {
+        attachments = [await uploadChatImage(userId, sessionId, image)];
+      } catch (error) {
+        console.error('Error uploading image:', error);
+        Alert.alert('Error', 'Failed to upload the image. Please try again.');
+        setPendingImage(image);
+        setMessage(text === IMAGE_ONLY_QUESTION ? '' : text);
+        setIsLoading(false);
+        return;
+      }
+    }
+
+    const userMessageData: Omit<ChatMessage, 'id'> = {
+      type: 'user',
+      message: text,
+      timestamp: Timestamp.now(),
+      deliveryState: online ? 'sending' : 'queued',
+    };
+    if (attachments?.length) userMessageData.attachments = attachments;
+    const userMessage: ChatMessage = { ...userMessageData, id: saveMessage(userMessageData, sessionId, history)! };
+    setChatHistory(prev => [...prev, userMessage]);
     setTimeout(() => scrollViewRef.current?.scrollToEnd({ animated: true }), 100);
 
+    // Queued until the reply arrives, so the prompt survives a dropped connection or a restart
+    await enqueueMessage(userId, {
+      messageId: userMessage.id,
+      sessionId,
+      text,
+      createdAt: userMessage.timestamp.toMillis(),
+      ...(attachments ? { attachments } : {}),
+    });
+    if (!online) {
+      setIsLoading(false);
+      return;
+    }
+    await deliverMessage(userMessage, sessionId, history, image ? [toLLMImage(image)] : undefined);
+  };
+
+  /**
+   * Gets the assistant reply for a saved user message and tracks its delivery state.
+   * Failures stay in the persisted queue, which retries them with backoff.
+   */
+  const deliverMessage = async (
+    userMessage: ChatMessage,
+    sessionId: string,
+    history: ChatMessage[],
+    images?: LLMImage[]
+  ) => {
+    if (!userId) return;
+    setIsLoading(true);
+    updateDeliveryState(sessionId, userMessage.id, 'sending');
+    try {
+      const session = chatSessions.find(s => s.id === sessionId);
+      const aiResponse = await generateReply(
+        userMessage.message,
+        history,
+        session,
+        images ?? (await Promise.all((userMessage.attachments || []).map(loadAttachmentImage)))
+      );
+      updateDeliveryState(sessionId, userMessage.id, 'delivered');
+      await removeFromQueue(userId, userMessage.id);
+      if (!aiResponse) return;
+
+      const savedResponse: ChatMessage = { ...aiResponse, id: saveMessage(aiResponse, sessionId, history)! };
+      // Only shown if the user is still looking at the session the message was sent from
+      setChatHistory(prev => (prev.some(msg => msg.id === userMessage.id) ? [...prev, savedResponse] : prev));
+      if (autoSpeak) speakMessage(savedResponse);
+      updateSessionSummary([...history, userMessage, savedResponse], session);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      const queued = await recordFailedAttempt(userId, userMessage.id);
+      updateDeliveryState(sessionId, userMessage.id, queued?.state ?? 'failed');
+    } finally {
+      finishGenerating();
+    }
+  };
+
+  // Delivers the oldest due message in the queue; driven by reconnects and a retry timer
+  const processQueue = async () => {
+    if (!userId || isLoading || queueBusyRef.current) return;
+    queueBusyRef.current = true;
     try {
-      let healthContext = "User health information:\n";
-      if (userProfile) {
-        healthContext += `Name: ${userProfile.fullName}\n`;
-        if (userProfile.gender) healthContext += `Gender: ${userProfile.gender}\n`;
-        if (userProfile.dateOfBirth) healthContext += `Date of Birth: ${userProfile.dateOfBirth}\n`;
-        if (userProfile.height) healthContext += `Height: ${userProfile.height} cm\n`;
-        if (userProfile.weight) healthContext += `Weight: ${userProfile.weight} kg\n`;
-        if (userProfile.bloodType) healthContext += `Blood Type: ${userProfile.bloodType}\n`;
-        if (userProfile.allergies?.length) healthContext += `Allergies: ${userProfile.allergies.join(', ')}\n`;
-        if (userProfile.conditions?.length) healthContext += `Medical Conditions: ${userProfile.conditions.join(', ')}\n`;
-        if (userProfile.emergencyContact) healthContext += `Emergency Contact: ${userProfile.emergencyContact.name} (${userProfile.emergencyContact.relationship}) - ${userProfile.emergencyContact.phoneNumber}\n`;
+      if (!(await checkOnline())) return;
+      const item = getNextDueMessage(await loadQueue(userId));
+      if (!item) return;
+      const session = chatSessions.find(s => s.id === item.sessionId);
+      if (!session) {
+        // The session was deleted while the message waited
+        await removeFromQueue(userId, item.messageId);
+        return;
       }
-      if (healthData) {
-        healthContext += "\nRecent Vital Signs:\n";
-        if (healthData.vitals) {
-          Object.entries(healthData.vitals).forEach(([key, vital]) => {
-            if (vital?.value !== undefined) {
-              healthContext += `${key.charAt(0).toUpperCase() + key.slice(1)}: ${vital.value} ${vital.unit || ''}`;
-              if (vital.status) healthContext += ` (${vital.status})`;
-              if (vital.goal) healthContext += ` - Goal: ${vital.goal} ${vital.unit || ''}`;
-              healthContext += '\n';
-            }
-          });
-        }
-        if (healthData.metrics?.length) {
-          healthContext += "\nAdditional Health Metrics:\n";
-          const metricsByType = healthData.metrics.reduce((acc, metric) => {
-            acc[metric.type] = acc[metric.type] || [];
-            acc[metric.type].push(metric);
-            return acc;
-          }, {} as Record<string, HealthMetric[]>);
-          Object.entries(metricsByType).forEach(([type, metrics]) => {
-            const latest = metrics.sort((a, b) => b.timestamp.seconds - a.timestamp.seconds)[0];
-            healthContext += `${type}: ${latest.value} ${latest.unit}${latest.notes ? ` (Note: ${latest.notes})` : ''}\n`;
-          });
-        }
-        if (healthData.lastUpdated) {
-          const date = healthData.lastUpdated.toDate();
-          healthContext += `\nHealth data last updated: ${date.toLocaleDateString()} ${date.toLocaleTimeString()}\n`;
-        }
-      } else {
-        healthContext += "\nNo health data available.\n";
+
+      const messages = session.id === currentSessionId ? chatHistory : session.messages;
+      const index = messages.findIndex(msg => msg.id === item.messageId);
+      const history = index === -1 ? messages : messages.slice(0, index);
+      let userMessage = messages[index];
+      if (!userMessage) {
+        // The pending write was lost, e.g. the app was closed while offline
+        const data: Omit<ChatMessage, 'id'> = {
+          type: 'user',
+          message: item.text,
+          timestamp: Timestamp.fromMillis(item.createdAt),
+          deliveryState: 'queued',
+        };
+        if (item.attachments) data.attachments = item.attachments;
+        userMessage = { ...data, id: saveMessage(data, item.sessionId, history, item.messageId)! };
+        if (session.id === currentSessionId) setChatHistory(prev => [...prev, userMessage]);
       }
+      await deliverMessage(userMessage, item.sessionId, history);
+    } finally {
+      queueBusyRef.current = false;
+    }
+  };
+  processQueueRef.current = processQueue;
+
+  const retryMessage = async (chat: ChatMessage) => {
+    if (!userId || !currentSessionId) return;
+    const reset = await resetQueuedMessage(userId, chat.id);
+    if (!reset) {
+      await enqueueMessage(userId, {
+        messageId: chat.id,
+        sessionId: currentSessionId,
+        text: chat.message,
+        createdAt: chat.timestamp.toMillis(),
+        ...(chat.attachments ? { attachments: chat.attachments } : {}),
+      });
+    }
+    updateDeliveryState(currentSessionId, chat.id, 'queued');
+    processQueue();
+  };
+
+  // Produces a new version of an assistant reply; earlier versions stay on the message
+  const regenerateReply = async (chat: ChatMessage) => {
+    if (!userId || !currentSessionId || isLoading) return;
+    const index = chatHistory.findIndex(msg => msg.id === chat.id);
+    const userIndex = chatHistory.slice(0, index).map(msg => msg.type).lastIndexOf('user');
+    if (userIndex === -1) return;
+
+    setIsLoading(true);
+    try {
+      const currentSession = chatSessions.find(s => s.id === currentSessionId);
+      const userMessage = chatHistory[userIndex];
+      const images = await Promise.all((userMessage.attachments || []).map(loadAttachmentImage));
+      const reply = await generateReply(userMessage.message, chatHistory.slice(0, userIndex), currentSession, images);
+      if (!reply) return;
 
-      const recentMessages = chatHistory
-        .slice(-5)
-        .map(msg => `${msg.type === 'user' ? 'User' : 'Assistant'}: ${msg.message}`)
-        .join('\n');
-      const prompt = `${HEALTH_SYSTEM_PROMPT}\n\n${healthContext}\n\nRecent conversation:\n${recentMessages}\n\nUser: ${text.trim()}\n\nAssistant:`;
-
-      if (!model) throw new Error('Gemini AI model not initialized.');
-      const result = await model.generateContent(prompt);
-      if (!result?.response) throw new Error('Failed to get response from Gemini AI');
-      const response = await result.response.text();
-      const enhancedResponse = enhanceResponseWithMarkdown(response);
-      const isRecommendation = containsRecommendation(enhancedResponse);
-
-      const aiResponse: Omit<ChatMessage, 'id'> = {
-        type: 'assistant',
-        message: enhancedResponse,
-        timestamp: Timestamp.now(),
-        isRecommendation,
+      const previousVersions = [...(chat.previousVersions || []), toAssistantVersion(chat)];
+      const update: Record<string, any> = {
+        ...reply,
+        previousVersions,
+        isTruncated: reply.isTruncated ?? deleteField(),
+        toolCalls: reply.toolCalls ?? deleteField(),
+        feedback: deleteField(),
       };
-      const aiMessageId = await saveMessage(aiResponse);
-      setChatHistory(prev => [...prev, { ...aiResponse, id: aiMessageId || Date.now().toString() }]);
+      await updateDoc(doc(db, 'users', userId, 'chatSessions', currentSessionId, 'messages', chat.id), update);
+      const updated: ChatMessage = { ...reply, id: chat.id, previousVersions };
+      setChatHistory(prev => prev.map(msg => (msg.id === chat.id ? updated : msg)));
+      setVersionView(prev => ({ ...prev, [chat.id]: previousVersions.length }));
     } catch (error) {
-      console.error('Error sending message:', error);
-      Alert.alert('Error', 'Failed to get a response. Please try again.');
+      console.error('Error regenerating reply:', error);
+      Alert.alert('Error', 'Failed to regenerate the response. Please try again.');
     } finally {
-      setIsLoading(false);
-      setTimeout(() => scrollViewRef.current?.scrollToEnd({ animated: true }), 100);
+      finishGenerating();
     }
   };
 
-  const containsRecommendation = (text: string): boolean => {
-    const keywords = [
-      'medication', 'medicine', 'drug', 'treatment', 'therapy', 'prescription',
-      'dose', 'dosage', 'take', 'recommend', 'advise', 'suggest', 'first aid',
-      'remedy', 'cure', 'mg', 'milligram', 'tablet', 'capsule', 'syrup', 'injection',
-    ];
-    return keywords.some(keyword => text.toLowerCase().includes(keyword.toLowerCase()));
+  // Copies the conversation up to `chat` into a new session and sends the edited text there
+  const editAndResend = async (chat: ChatMessage, newText: string) => {
+    if (!userId || !currentSessionId || !newText.trim() || isLoading) return;
+    const index = chatHistory.findIndex(msg => msg.id === chat.id);
+    if (index === -1) return;
+    try {
+      const source = chatSessions.find(s => s.id === currentSessionId);
+      const sessionRef = await addDoc(collection(db, 'users', userId, 'chatSessions'), {
+        title: `${source?.title || 'New Chat'} (edited)`,
+        createdAt: Timestamp.now(),
+        lastUpdated: Timestamp.now(),
+        forkedFrom: { sessionId: currentSessionId, messageId: chat.id },
+      });
+
+      const batch = writeBatch(db);
+      const copied = chatHistory.slice(0, index).map(msg => {
+        const { id, ...data } = msg;
+        const messageRef = doc(collection(db, 'users', userId, 'chatSessions', sessionRef.id, 'messages'));
+        batch.set(messageRef, data);
+        return { ...msg, id: messageRef.id };
+      });
+      await batch.commit();
+
+      setCurrentSessionId(sessionRef.id);
+      setChatHistory(copied);
+      await sendMessage(newText, { sessionId: sessionRef.id, history: copied, attachments: chat.attachments });
+    } catch (error) {
+      console.error('Error editing message:', error);
+      Alert.alert('Error', 'Failed to resend the edited message. Please try again.');
+    }
+  };
+
+  const submitFeedback = async (chat: ChatMessage, rating: FeedbackRating, reason?: string) => {
+    if (!userId || !currentSessionId) return;
+    const feedback: MessageFeedback = { rating, timestamp: Timestamp.now() };
+    if (reason?.trim()) feedback.reason = reason.trim();
+    setChatHistory(prev => prev.map(msg => (msg.id === chat.id ? { ...msg, feedback } : msg)));
+    try {
+      await updateDoc(doc(db, 'users', userId, 'chatSessions', currentSessionId, 'messages', chat.id), { feedback });
+    } catch (error) {
+      console.error('Error saving feedback:', error);
+    }
+  };
+
+  const exportSessions = async (format: ExportFormat) => {
+    if (!exportSessionIds) return;
+    setIsExporting(true);
+    try {
+      const sessions = chatSessions
+        .filter(session => exportSessionIds.includes(session.id))
+        .map(session => ({
+          ...session,
+          // The open session may have messages the snapshot has not picked up yet
+          messages: (session.id === currentSessionId ? chatHistory : session.messages).filter(
+            msg => msg.id !== INITIAL_MESSAGE.id
+          ),
+        }));
+      await exportChatSessions(sessions, format);
+      setExportSessionIds(null);
+    } catch (error) {
+      console.error('Error exporting chat:', error);
+      Alert.alert('Error', 'Failed to export the conversation. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const attachImage = async (source: ImageSource) => {
+    try {
+      const image = await pickChatImage(source);
+      if (image) setPendingImage(image);
+    } catch (error) {
+      console.error('Error attaching image:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to attach the image.');
+    }
+  };
+
+  const showAttachOptions = () => {
+    Alert.alert('Attach a Photo', 'The photo is sent to the AI assistant along with your question.', [
+      { text: 'Take Photo', onPress: () => attachImage('camera') },
+      { text: 'Choose from Library', onPress: () => attachImage('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  // Push-to-talk: listens while the mic button is held and fills the composer
+  const startDictation = async () => {
+    if (isLoading || isListening) return;
+    micPressedRef.current = true;
+    const recognizer = getSpeechRecognizer();
+    if (!recognizer.isAvailable()) {
+      Alert.alert('Voice Input Unavailable', 'Speech recognition is not supported on this device.');
+      return;
+    }
+    if (!(await recognizer.requestPermission())) {
+      Alert.alert('Permission Needed', 'Allow microphone and speech recognition access to dictate messages.');
+      return;
+    }
+    getSpeechSynthesizer().stop();
+    dictationBaseRef.current = message.trim();
+    const applyTranscript = (text: string) =>
+      setMessage([dictationBaseRef.current, text.trim()].filter(Boolean).join(' '));
+    setIsListening(true);
+    try {
+      await recognizer.start(
+        {
+          onPartial: applyTranscript,
+          onFinal: applyTranscript,
+          onError: error => {
+            console.error('Speech recognition error:', error);
+            Alert.alert('Error', "Couldn't catch that. Please try again.");
+          },
+          onEnd: () => setIsListening(false),
+        },
+        { lang: getLanguage(userProfile).speechLocale }
+      );
+      // Released while the permission prompt or recognizer was starting
+      if (!micPressedRef.current) recognizer.stop();
+    } catch (error) {
+      console.error('Error starting dictation:', error);
+      setIsListening(false);
+    }
+  };
+
+  const stopDictation = () => {
+    micPressedRef.current = false;
+    getSpeechRecognizer().stop();
+  };
+
+  // Reads a reply aloud, or stops it if it is already playing
+  const speakMessage = (chat: ChatMessage) => {
+    const synthesizer = getSpeechSynthesizer();
+    if (speakingMessageId === chat.id) {
+      synthesizer.stop();
+      setSpeakingMessageId(null);
+      return;
+    }
+    const text = [chat.message, ...(chat.recommendations || []).map(item => item.text)].join('\n');
+    setSpeakingMessageId(chat.id);
+    synthesizer.speak(toSpeechText(text), {
+      lang: getLanguage(userProfile).speechLocale,
+      onDone: () => setSpeakingMessageId(current => (current === chat.id ? null : current)),
+    });
+  };
+
+  const toggleAutoSpeak = () => {
+    const next = !autoSpeak;
+    setAutoSpeak(next);
+    if (!next) getSpeechSynthesizer().stop();
+    AsyncStorage.setItem(AUTO_SPEAK_KEY, String(next)).catch(error =>
+      console.error('Error saving voice settings:', error)
+    );
+  };
+
+  const closeFeedback = () => {
+    setFeedbackTarget(null);
+    setFeedbackReason('');
+    setFeedbackNote('');
+  };
+
+  // Abort the in-flight reply; sendMessage keeps whatever has streamed so far
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
   };
 
   // Typing Indicator Animation (unchanged)
@@ -536,6 +1226,28 @@ export default function ChatScreen() {
     if (isLoading) animateTypingIndicator();
   }, [isLoading]);
 
+  // Shared by saved replies and the in-progress streaming bubble
+  const renderMarkdown = (text: string) => (
+    <Markdown
+      style={markdownStyles}
+      rules={{
+        link: (node, children) => (
+          <TouchableOpacity key={node.key} onPress={() => Linking.openURL(node.attributes.href)}>
+            <Text style={markdownStyles.link}>{children}</Text>
+          </TouchableOpacity>
+        ),
+        list_item: (node, children) => (
+          <View key={node.key} style={markdownStyles.listItemContainer}>
+            <Text style={markdownStyles.listItemBullet}>•</Text>
+            <View style={markdownStyles.listItemContent}>{children}</View>
+          </View>
+        ),
+      }}
+    >
+      {formatMessageText(text)}
+    </Markdown>
+  );
+
   // Render (unchanged except minor cleanup)
   if (isInitializing) {
     return (
@@ -556,6 +1268,13 @@ export default function ChatScreen() {
             <AntDesign name="plus" size={20} color="#fff" />
             <Text style={styles.newChatText}>New Chat</Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.exportAllButton}
+            onPress={() => setExportSessionIds(chatSessions.map(session => session.id))}
+          >
+            <MaterialIcons name="ios-share" size={18} color="#00BFFF" />
+            <Text style={styles.exportAllText}>Export all chats</Text>
+          </TouchableOpacity>
         </View>
         <ScrollView style={styles.sessionsList}>
           {chatSessions.map(session => (
@@ -577,6 +1296,13 @@ export default function ChatScreen() {
                   {session.title}
                 </Text>
               </View>
+              <TouchableOpacity
+                style={styles.deleteButton}
+                onPress={() => setExportSessionIds([session.id])}
+                accessibilityLabel="Export chat"
+              >
+                <MaterialIcons name="ios-share" size={20} color="#888" />
+              </TouchableOpacity>
               <TouchableOpacity style={styles.deleteButton} onPress={() => deleteSession(session.id)}>
                 <MaterialIcons name="delete-outline" size={20} color="#888" />
               </TouchableOpacity>
@@ -601,76 +1327,316 @@ export default function ChatScreen() {
               <MaterialCommunityIcons name="robot-happy" size={24} color="#00BFFF" />
               <Text style={styles.headerTitle}>Neuracare AI</Text>
             </View>
-            <TouchableOpacity onPress={clearHistory} style={styles.clearButton}>
-              <MaterialIcons name="delete-outline" size={24} color="#00BFFF" />
-            </TouchableOpacity>
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                onPress={toggleAutoSpeak}
+                style={styles.clearButton}
+                accessibilityLabel={autoSpeak ? 'Stop reading replies aloud' : 'Read replies aloud'}
+              >
+                <MaterialIcons
+                  name={autoSpeak ? 'record-voice-over' : 'voice-over-off'}
+                  size={24}
+                  color={autoSpeak ? '#FF9800' : '#00BFFF'}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => router.push('/chat-search')}
+                style={styles.clearButton}
+                accessibilityLabel="Search chats"
+              >
+                <MaterialIcons name="search" size={24} color="#00BFFF" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setFilterBarVisible(!filterBarVisible)}
+                style={styles.clearButton}
+                accessibilityLabel="Filter messages"
+              >
+                <MaterialIcons
+                  name="filter-list"
+                  size={24}
+                  color={messageFilter === 'all' ? '#00BFFF' : '#FF9800'}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={clearHistory} style={styles.clearButton}>
+                <MaterialIcons name="delete-outline" size={24} color="#00BFFF" />
+              </TouchableOpacity>
+            </View>
           </View>
+          {filterBarVisible && (
+            <View style={styles.filterBar}>
+              {MESSAGE_FILTERS.map(filter => (
+                <TouchableOpacity
+                  key={filter.key}
+                  style={[styles.filterChip, messageFilter === filter.key && styles.activeFilterChip]}
+                  onPress={() => setMessageFilter(filter.key)}
+                >
+                  <Text style={[styles.filterChipText, messageFilter === filter.key && styles.activeFilterChipText]}>
+                    {filter.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
         </View>
       </View>
 
+      {isOffline && (
+        <View style={styles.offlineBanner}>
+          <MaterialIcons name="cloud-off" size={16} color="#FFC107" />
+          <Text style={styles.offlineText}>You're offline. Messages will send when you reconnect.</Text>
+        </View>
+      )}
+
       <ScrollView
         style={styles.chatContainer}
         ref={scrollViewRef}
         onContentSizeChange={() => scrollViewRef.current?.scrollToEnd({ animated: true })}
       >
-        {chatHistory.map(chat => (
-          <View key={chat.id}>
+        {chatHistory.filter(item => matchesFilter(item, messageFilter)).map(item => {
+          const versionCount = (item.previousVersions?.length ?? 0) + 1;
+          const versionIndex = versionView[item.id] ?? versionCount - 1;
+          const isCurrentVersion = versionIndex === versionCount - 1;
+          const chat: ChatMessage = isCurrentVersion
+            ? item
+            : { id: item.id, type: item.type, ...item.previousVersions![versionIndex] };
+          // The greeting is not a model reply, so it gets no feedback or regenerate actions
+          const canAct = !isLoading && item.id !== INITIAL_MESSAGE.id;
+          return (
             <View
-              style={[
-                styles.messageContainer,
-                chat.type === 'user' ? styles.userMessage : styles.assistantMessage,
-              ]}
+              key={chat.id}
+              onLayout={event => {
+                messageOffsets.current[chat.id] = event.nativeEvent.layout.y;
+              }}
             >
-              {chat.type === 'assistant' && (
-                <View style={styles.assistantHeader}>
-                  <Image
-                    source={require('../../assets/images/ai-avatar.png')}
-                    style={styles.assistantAvatar}
-                    defaultSource={require('../../assets/images/ai-avatar.png')}
-                  />
-                  <Text style={styles.assistantName}>Neuracare AI</Text>
-                </View>
-              )}
-              {chat.type === 'user' ? (
-                <Text style={styles.messageText}>{chat.message}</Text>
-              ) : (
-                <Markdown
-                  style={markdownStyles}
-                  rules={{
-                    link: (node, children) => (
-                      <TouchableOpacity key={node.key} onPress={() => Linking.openURL(node.attributes.href)}>
-                        <Text style={markdownStyles.link}>{children}</Text>
-                      </TouchableOpacity>
-                    ),
-                    list_item: (node, children) => (
-                      <View key={node.key} style={markdownStyles.listItemContainer}>
-                        <Text style={markdownStyles.listItemBullet}>•</Text>
-                        <View style={markdownStyles.listItemContent}>{children}</View>
+              <View
+                style={[
+                  styles.messageContainer,
+                  chat.type === 'user' ? styles.userMessage : styles.assistantMessage,
+                  chat.id === highlightedMessageId && styles.highlightedMessage,
+                ]}
+              >
+                {chat.type === 'assistant' && (
+                  <View style={styles.assistantHeader}>
+                    <Image
+                      source={require('../../assets/images/ai-avatar.png')}
+                      style={styles.assistantAvatar}
+                      defaultSource={require('../../assets/images/ai-avatar.png')}
+                    />
+                    <Text style={styles.assistantName}>Neuracare AI</Text>
+                  </View>
+                )}
+                {chat.attachments?.map(attachment => (
+                  <TouchableOpacity key={attachment.id} onPress={() => setViewerImageUrl(attachment.downloadUrl)}>
+                    <Image
+                      source={{ uri: attachment.downloadUrl }}
+                      style={[styles.attachmentThumbnail, { aspectRatio: attachment.width / attachment.height || 1 }]}
+                    />
+                  </TouchableOpacity>
+                ))}
+                {chat.type === 'user' ? (
+                  <Text style={styles.messageText}>{chat.message}</Text>
+                ) : (
+                  renderMarkdown(chat.message)
+                )}
+                {chat.isTruncated && (
+                  <View style={styles.truncatedBadge}>
+                    <MaterialIcons name="stop-circle" size={14} color="#fff" />
+                    <Text style={styles.recommendationText}>Stopped early</Text>
+                  </View>
+                )}
+                {chat.recommendations?.map((item, index) => {
+                  const kind = RECOMMENDATION_KINDS[item.kind];
+                  return (
+                    <View key={index} style={[styles.recommendationItem, { borderLeftColor: kind.color }]}>
+                      <View style={styles.recommendationItemHeader}>
+                        <MaterialCommunityIcons name={kind.icon} size={14} color={kind.color} />
+                        <Text style={[styles.recommendationKind, { color: kind.color }]}>{kind.label}</Text>
                       </View>
-                    ),
-                  }}
-                >
-                  {formatMessageText(chat.message)}
-                </Markdown>
-              )}
-              {chat.isRecommendation && (
-                <View style={styles.recommendationBadge}>
-                  <MaterialIcons name="medical-services" size={14} color="#fff" />
-                  <Text style={styles.recommendationText}>Health Recommendation</Text>
-                </View>
-              )}
+                      <Text style={styles.recommendationItemText}>{item.text}</Text>
+                    </View>
+                  );
+                })}
+                {chat.urgency && URGENCY_LABELS[chat.urgency] && (
+                  <View style={[styles.recommendationBadge, { backgroundColor: URGENCY_LABELS[chat.urgency]!.color }]}>
+                    <MaterialIcons name="priority-high" size={14} color="#fff" />
+                    <Text style={styles.recommendationText}>{URGENCY_LABELS[chat.urgency]!.label}</Text>
+                  </View>
+                )}
+                {chat.toolCalls?.map((call, index) => (
+                  <View key={index} style={styles.toolCallCard}>
+                    <View style={styles.recommendationItemHeader}>
+                      <MaterialIcons
+                        name={call.name === 'createReminder' ? 'alarm-add' : 'edit-note'}
+                        size={16}
+                        color="#00BFFF"
+                      />
+                      <Text style={styles.toolCallText}>{describeToolCall(call)}</Text>
+                    </View>
+                    {call.warnings?.map((warning, warningIndex) => (
+                      <Text
+                        key={warningIndex}
+                        style={[styles.toolCallWarning, warning.severity === 'major' && styles.toolCallWarningMajor]}
+                      >
+                        ⚠ {warning.message}
+                      </Text>
+                    ))}
+                    {call.status === 'pending' && call.warnings?.length ? (
+                      <Text style={styles.toolCallStatus}>
+                        Check with your doctor or pharmacist before taking these.
+                      </Text>
+                    ) : null}
+                    {call.status === 'pending' ? (
+                      <View style={styles.toolCallActions}>
+                        <TouchableOpacity
+                          style={[styles.toolCallButton, styles.toolCallCancel]}
+                          onPress={() => handleToolCallDecision(chat, index, false)}
+                        >
+                          <Text style={styles.toolCallButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={[styles.toolCallButton, styles.toolCallConfirm]}
+                          onPress={() => handleToolCallDecision(chat, index, true)}
+                        >
+                          <Text style={styles.toolCallButtonText}>
+                            {call.warnings?.length ? 'Save Anyway' : 'Confirm'}
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                    ) : (
+                      <Text style={styles.toolCallStatus}>
+                        {call.status === 'declined' ? 'Cancelled' : call.result}
+                      </Text>
+                    )}
+                  </View>
+                ))}
+                {chat.disclaimers?.map((disclaimer, index) => (
+                  <Text key={index} style={styles.disclaimerText}>{disclaimer}</Text>
+                ))}
+                {/* Messages saved before structured replies only carry the flag */}
+                {chat.isRecommendation && !chat.recommendations && (
+                  <View style={styles.recommendationBadge}>
+                    <MaterialIcons name="medical-services" size={14} color="#fff" />
+                    <Text style={styles.recommendationText}>Health Recommendation</Text>
+                  </View>
+                )}
+              </View>
+              <View
+                style={[
+                  styles.messageFooter,
+                  chat.type === 'user' ? styles.userTimestamp : styles.assistantTimestamp,
+                ]}
+              >
+                <Text style={styles.timestamp}>{formatTimestamp(chat.timestamp)}</Text>
+                {versionCount > 1 && (
+                  <View style={styles.versionPager}>
+                    <TouchableOpacity
+                      disabled={versionIndex === 0}
+                      onPress={() => setVersionView(prev => ({ ...prev, [item.id]: versionIndex - 1 }))}
+                    >
+                      <MaterialIcons name="chevron-left" size={18} color={versionIndex === 0 ? '#444' : '#888'} />
+                    </TouchableOpacity>
+                    <Text style={styles.versionText}>{versionIndex + 1}/{versionCount}</Text>
+                    <TouchableOpacity
+                      disabled={isCurrentVersion}
+                      onPress={() => setVersionView(prev => ({ ...prev, [item.id]: versionIndex + 1 }))}
+                    >
+                      <MaterialIcons name="chevron-right" size={18} color={isCurrentVersion ? '#444' : '#888'} />
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {isCurrentVersion && chat.type === 'assistant' && (
+                  <TouchableOpacity
+                    style={styles.messageAction}
+                    onPress={() => speakMessage(item)}
+                    accessibilityLabel={speakingMessageId === item.id ? 'Stop reading' : 'Read aloud'}
+                  >
+                    <MaterialIcons
+                      name={speakingMessageId === item.id ? 'stop-circle' : 'volume-up'}
+                      size={16}
+                      color={speakingMessageId === item.id ? '#00BFFF' : '#888'}
+                    />
+                  </TouchableOpacity>
+                )}
+                {canAct && isCurrentVersion && chat.type === 'assistant' && (
+                  <>
+                    <TouchableOpacity
+                      style={styles.messageAction}
+                      onPress={() => submitFeedback(item, 'up')}
+                      accessibilityLabel="Helpful"
+                    >
+                      <MaterialIcons
+                        name={item.feedback?.rating === 'up' ? 'thumb-up' : 'thumb-up-off-alt'}
+                        size={16}
+                        color={item.feedback?.rating === 'up' ? '#00BFFF' : '#888'}
+                      />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.messageAction}
+                      onPress={() => setFeedbackTarget(item)}
+                      accessibilityLabel="Not helpful"
+                    >
+                      <MaterialIcons
+                        name={item.feedback?.rating === 'down' ? 'thumb-down' : 'thumb-down-off-alt'}
+                        size={16}
+                        color={item.feedback?.rating === 'down' ? '#F44336' : '#888'}
+                      />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.messageAction}
+                      onPress={() => regenerateReply(item)}
+                      accessibilityLabel="Regenerate response"
+                    >
+                      <MaterialIcons name="refresh" size={16} color="#888" />
+                    </TouchableOpacity>
+                  </>
+                )}
+                {chat.type === 'user' && chat.deliveryState && chat.deliveryState !== 'delivered' && (
+                  <View style={styles.deliveryState}>
+                    <MaterialIcons
+                      name={DELIVERY_STATES[chat.deliveryState].icon}
+                      size={14}
+                      color={DELIVERY_STATES[chat.deliveryState].color}
+                    />
+                    <Text style={[styles.deliveryStateText, { color: DELIVERY_STATES[chat.deliveryState].color }]}>
+                      {DELIVERY_STATES[chat.deliveryState].label}
+                    </Text>
+                    {chat.deliveryState === 'failed' && !isLoading && (
+                      <TouchableOpacity onPress={() => retryMessage(item)} accessibilityLabel="Retry sending">
+                        <Text style={styles.retryText}>Retry</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+                {canAct && chat.type === 'user' && (
+                  <TouchableOpacity
+                    style={styles.messageAction}
+                    onPress={() => {
+                      setEditText(item.message);
+                      setEditingMessage(item);
+                    }}
+                    accessibilityLabel="Edit and resend"
+                  >
+                    <MaterialIcons name="edit" size={16} color="#888" />
+                  </TouchableOpacity>
+                )}
+              </View>
             </View>
-            <Text
-              style={[
-                styles.timestamp,
-                chat.type === 'user' ? styles.userTimestamp : styles.assistantTimestamp,
-              ]}
-            >
-              {formatTimestamp(chat.timestamp)}
-            </Text>
+          );
+        })}
+        {isLoading && streamingText !== '' && (
+          <View style={[styles.messageContainer, styles.assistantMessage]}>
+            <View style={styles.assistantHeader}>
+              <Image
+                source={require('../../assets/images/ai-avatar.png')}
+                style={styles.assistantAvatar}
+                defaultSource={require('../../assets/images/ai-avatar.png')}
+              />
+              <Text style={styles.assistantName}>Neuracare AI</Text>
+            </View>
+            {renderMarkdown(streamingText)}
           </View>
-        ))}
-        {isLoading && (
+        )}
+        {isLoading && streamingText === '' && (
           <View style={styles.loadingContainer}>
             <View style={styles.typingIndicator}>
               <Animated.View style={[styles.typingDot, { opacity: dot1Opacity }]} />
@@ -682,9 +1648,20 @@ export default function ChatScreen() {
         )}
       </ScrollView>
 
+      {triageAlert && (
+        <EmergencyCard
+          title={triageAlert.rule.title}
+          advice={triageAlert.rule.advice}
+          emergencyNumber={emergencyNumber}
+          fallbackNumber={DEFAULT_EMERGENCY_NUMBER}
+          emergencyContact={userProfile?.emergencyContact}
+          onDismiss={() => setTriageAlert(null)}
+        />
+      )}
+
       {showSuggestions && suggestedQuestions.length > 0 && (
         <Animated.View style={[styles.suggestionsContainer, { opacity: fadeAnim }]}>
-          <Text style={styles.suggestionsTitle}>Suggested Questions:</Text>
+          <Text style={styles.suggestionsTitle}>{SUGGESTED_QUESTIONS[getLanguage(userProfile).key].title}</Text>
           <ScrollView
             horizontal
             showsHorizontalScrollIndicator={false}
@@ -706,30 +1683,204 @@ export default function ChatScreen() {
         </Animated.View>
       )}
 
+      {pendingImage && (
+        <View style={styles.pendingAttachment}>
+          <Image source={{ uri: pendingImage.uri }} style={styles.pendingThumbnail} />
+          <Text style={styles.pendingAttachmentText}>Photo attached</Text>
+          <TouchableOpacity onPress={() => setPendingImage(null)} accessibilityLabel="Remove photo">
+            <MaterialIcons name="close" size={20} color="#888" />
+          </TouchableOpacity>
+        </View>
+      )}
+
       <KeyboardAvoidingView
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
         style={styles.inputContainer}
       >
+        <TouchableOpacity
+          onPress={showAttachOptions}
+          disabled={isLoading}
+          style={styles.micButton}
+          accessibilityLabel="Attach a photo"
+        >
+          <MaterialIcons name="add-photo-alternate" size={22} color="#00BFFF" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPressIn={startDictation}
+          onPressOut={stopDictation}
+          disabled={isLoading}
+          style={[styles.micButton, isListening && styles.micButtonActive]}
+          accessibilityLabel="Hold to dictate"
+        >
+          <MaterialIcons name={isListening ? 'mic' : 'mic-none'} size={24} color={isListening ? '#fff' : '#00BFFF'} />
+        </TouchableOpacity>
         <TextInput
           style={styles.input}
           value={message}
           onChangeText={setMessage}
-          placeholder="Type your health question..."
+          placeholder={isListening ? 'Listening...' : 'Type your health question...'}
           placeholderTextColor="#888"
           multiline
           editable={!isLoading}
         />
-        <TouchableOpacity onPress={() => sendMessage()} disabled={isLoading}>
-          <LinearGradient
-            colors={['#00BFFF', '#1E90FF', '#4169E1']}
-            start={{ x: 0, y: 0 }}
-            end={{ x: 1, y: 1 }}
-            style={[styles.sendButton, isLoading && styles.disabledButton]}
-          >
-            <MaterialIcons name="send" size={24} color="#fff" />
-          </LinearGradient>
-        </TouchableOpacity>
+        {isLoading ? (
+          <TouchableOpacity onPress={stopGenerating} accessibilityLabel="Stop generating">
+            <View style={[styles.sendButton, styles.stopButton]}>
+              <MaterialIcons name="stop" size={24} color="#fff" />
+            </View>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity onPress={() => sendMessage()}>
+            <LinearGradient
+              colors={['#00BFFF', '#1E90FF', '#4169E1']}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 1 }}
+              style={styles.sendButton}
+            >
+              <MaterialIcons name="send" size={24} color="#fff" />
+            </LinearGradient>
+          </TouchableOpacity>
+        )}
       </KeyboardAvoidingView>
+
+      <Modal
+        visible={!!feedbackTarget}
+        transparent
+        animationType="fade"
+        onRequestClose={closeFeedback}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>What was wrong with this response?</Text>
+            <View style={[styles.filterBar, styles.reasonChips]}>
+              {FEEDBACK_REASONS.map(reason => (
+                <TouchableOpacity
+                  key={reason}
+                  style={[styles.filterChip, feedbackReason === reason && styles.activeFilterChip]}
+                  onPress={() => setFeedbackReason(reason)}
+                >
+                  <Text style={[styles.filterChipText, feedbackReason === reason && styles.activeFilterChipText]}>
+                    {reason}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={styles.modalInput}
+              value={feedbackNote}
+              onChangeText={setFeedbackNote}
+              placeholder="Tell us more (optional)"
+              placeholderTextColor="#888"
+              multiline
+            />
+            <View style={styles.toolCallActions}>
+              <TouchableOpacity style={[styles.toolCallButton, styles.toolCallCancel]} onPress={closeFeedback}>
+                <Text style={styles.toolCallButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.toolCallButton, styles.toolCallConfirm]}
+                onPress={() => {
+                  if (feedbackTarget) {
+                    const reason = [feedbackReason, feedbackNote.trim()].filter(Boolean).join(': ');
+                    submitFeedback(feedbackTarget, 'down', reason);
+                  }
+                  closeFeedback();
+                }}
+              >
+                <Text style={styles.toolCallButtonText}>Submit</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={!!viewerImageUrl}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setViewerImageUrl(null)}
+      >
+        <TouchableOpacity style={styles.imageViewer} activeOpacity={1} onPress={() => setViewerImageUrl(null)}>
+          {viewerImageUrl && (
+            <Image source={{ uri: viewerImageUrl }} style={styles.imageViewerImage} resizeMode="contain" />
+          )}
+        </TouchableOpacity>
+      </Modal>
+
+      <Modal
+        visible={!!exportSessionIds}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setExportSessionIds(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>
+              {exportSessionIds?.length === 1 ? 'Export this chat' : `Export ${exportSessionIds?.length ?? 0} chats`}
+            </Text>
+            <Text style={styles.modalSubtitle}>Choose a format to save or share, e.g. with your doctor.</Text>
+            {EXPORT_FORMATS.map(format => (
+              <TouchableOpacity
+                key={format.key}
+                style={styles.exportOption}
+                disabled={isExporting}
+                onPress={() => exportSessions(format.key)}
+              >
+                <Text style={styles.exportOptionLabel}>{format.label}</Text>
+                <Text style={styles.exportOptionDescription}>{format.description}</Text>
+              </TouchableOpacity>
+            ))}
+            <View style={styles.toolCallActions}>
+              {isExporting && <ActivityIndicator color="#00BFFF" />}
+              <TouchableOpacity
+                style={[styles.toolCallButton, styles.toolCallCancel]}
+                onPress={() => setExportSessionIds(null)}
+              >
+                <Text style={styles.toolCallButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={!!editingMessage}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setEditingMessage(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Edit message</Text>
+            <Text style={styles.modalSubtitle}>The edited message is sent in a new chat; this one stays as it is.</Text>
+            <TextInput
+              style={styles.modalInput}
+              value={editText}
+              onChangeText={setEditText}
+              placeholderTextColor="#888"
+              multiline
+              autoFocus
+            />
+            <View style={styles.toolCallActions}>
+              <TouchableOpacity
+                style={[styles.toolCallButton, styles.toolCallCancel]}
+                onPress={() => setEditingMessage(null)}
+              >
+                <Text style={styles.toolCallButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.toolCallButton, styles.toolCallConfirm]}
+                onPress={() => {
+                  if (editingMessage) editAndResend(editingMessage, editText);
+                  setEditingMessage(null);
+                }}
+              >
+                <Text style={styles.toolCallButtonText}>Resend</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -786,6 +1937,7 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.2,
     shadowRadius: 1,
   },
+  highlightedMessage: { borderColor: '#FF9800', borderWidth: 2 },
   userMessage: {
     alignSelf: 'flex-end',
     backgroundColor: 'rgba(0, 191, 255, 0.1)',
@@ -804,9 +1956,24 @@ const styles = StyleSheet.create({
   assistantAvatar: { width: 24, height: 24, borderRadius: 12, marginRight: 8 },
   assistantName: { color: '#00BFFF', fontSize: 14, fontWeight: 'bold' },
   messageText: { color: '#fff', fontSize: 16, lineHeight: 22 },
-  timestamp: { fontSize: 12, marginTop: 4, marginBottom: 12 },
-  userTimestamp: { color: '#888', alignSelf: 'flex-end', marginRight: 8 },
-  assistantTimestamp: { color: '#888', alignSelf: 'flex-start', marginLeft: 8 },
+  timestamp: { fontSize: 12, color: '#888' },
+  userTimestamp: { alignSelf: 'flex-end', marginRight: 8 },
+  assistantTimestamp: { alignSelf: 'flex-start', marginLeft: 8 },
+  deliveryState: { flexDirection: 'row', alignItems: 'center', marginLeft: 8 },
+  deliveryStateText: { fontSize: 11, marginLeft: 3 },
+  retryText: { color: '#00BFFF', fontSize: 12, fontWeight: 'bold', marginLeft: 8 },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 6,
+    backgroundColor: 'rgba(255, 193, 7, 0.12)',
+  },
+  offlineText: { color: '#FFC107', fontSize: 12, marginLeft: 6 },
+  messageFooter: { flexDirection: 'row', alignItems: 'center', marginTop: 4, marginBottom: 12 },
+  messageAction: { marginLeft: 12, padding: 2 },
+  versionPager: { flexDirection: 'row', alignItems: 'center', marginLeft: 8 },
+  versionText: { color: '#888', fontSize: 12 },
   recommendationBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -818,6 +1985,57 @@ const styles = StyleSheet.create({
     marginTop: 8,
   },
   recommendationText: { color: '#fff', fontSize: 12, fontWeight: 'bold', marginLeft: 4 },
+  recommendationItem: {
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    borderLeftWidth: 3,
+    borderRadius: 8,
+    padding: 8,
+    marginTop: 8,
+  },
+  recommendationItemHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 4 },
+  recommendationKind: { fontSize: 12, fontWeight: 'bold', marginLeft: 4 },
+  recommendationItemText: { color: '#fff', fontSize: 14, lineHeight: 20 },
+  toolCallCard: {
+    borderWidth: 1,
+    borderColor: '#00BFFF',
+    borderRadius: 8,
+    padding: 8,
+    marginTop: 8,
+  },
+  toolCallText: { color: '#fff', fontSize: 14, marginLeft: 6, flex: 1 },
+  toolCallActions: { flexDirection: 'row', justifyContent: 'flex-end', marginTop: 8 },
+  toolCallButton: { paddingHorizontal: 14, paddingVertical: 6, borderRadius: 12, marginLeft: 8 },
+  toolCallCancel: { backgroundColor: '#333' },
+  toolCallConfirm: { backgroundColor: '#00BFFF' },
+  toolCallButtonText: { color: '#fff', fontSize: 13, fontWeight: 'bold' },
+  toolCallStatus: { color: '#888', fontSize: 12, marginTop: 6 },
+  toolCallWarning: { color: '#FFB300', fontSize: 13, lineHeight: 18, marginTop: 4 },
+  toolCallWarningMajor: { color: '#FF5252', fontWeight: 'bold' },
+  disclaimerText: { color: '#888', fontSize: 12, fontStyle: 'italic', marginTop: 8 },
+  headerActions: { flexDirection: 'row', alignItems: 'center' },
+  filterBar: { flexDirection: 'row', marginTop: 8 },
+  reasonChips: { flexWrap: 'wrap', rowGap: 8 },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#00BFFF',
+    marginRight: 8,
+  },
+  activeFilterChip: { backgroundColor: '#00BFFF' },
+  filterChipText: { color: '#00BFFF', fontSize: 12 },
+  activeFilterChipText: { color: '#fff', fontWeight: 'bold' },
+  truncatedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(136, 136, 136, 0.6)',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
   inputContainer: {
     flexDirection: 'row',
     padding: 16,
@@ -839,8 +2057,46 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#00BFFF',
   },
+  attachmentThumbnail: { width: 180, maxHeight: 240, borderRadius: 12, marginBottom: 8 },
+  pendingAttachment: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  pendingThumbnail: { width: 48, height: 48, borderRadius: 8 },
+  pendingAttachmentText: { color: '#888', fontSize: 14, marginLeft: 12, flex: 1 },
+  imageViewer: { flex: 1, backgroundColor: 'rgba(0,0,0,0.95)', justifyContent: 'center' },
+  imageViewerImage: { width: '100%', height: '80%' },
+  micButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: '#00BFFF',
+  },
+  micButtonActive: { backgroundColor: '#F44336', borderColor: '#F44336' },
   sendButton: { width: 48, height: 48, borderRadius: 24, justifyContent: 'center', alignItems: 'center' },
   disabledButton: { opacity: 0.5 },
+  stopButton: { backgroundColor: '#F44336' },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'center', padding: 24 },
+  modalCard: { backgroundColor: '#1E1E1E', borderRadius: 16, padding: 16 },
+  modalTitle: { color: '#fff', fontSize: 16, fontWeight: 'bold', marginBottom: 8 },
+  modalSubtitle: { color: '#888', fontSize: 13, marginBottom: 8 },
+  modalInput: {
+    backgroundColor: '#2A2A2A',
+    color: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    minHeight: 80,
+    maxHeight: 160,
+    marginTop: 8,
+    textAlignVertical: 'top',
+  },
   loadingContainer: { padding: 16, alignItems: 'center' },
   loadingText: { color: '#00BFFF', fontSize: 16, marginTop: 12 },
   typingIndicator: {
@@ -883,6 +2139,11 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
   newChatText: { color: '#fff', marginLeft: 8, fontWeight: 'bold' },
+  exportAllButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', marginTop: 12 },
+  exportAllText: { color: '#00BFFF', marginLeft: 6, fontSize: 14 },
+  exportOption: { borderWidth: 1, borderColor: '#333', borderRadius: 12, padding: 12, marginTop: 8 },
+  exportOptionLabel: { color: '#fff', fontSize: 15, fontWeight: 'bold' },
+  exportOptionDescription: { color: '#888', fontSize: 12, marginTop: 2 },
   sessionsList: { flex: 1 },
   sessionItem: {
     flexDirection: 'row',
@@ -11,6 +11,7 @@ import {
   Alert,
   RefreshControl,
   ActivityIndicator,
+  Linking,
 } from 'react-native'
 import React, { useState, useEffect, useCallback } from 'react'
 import { MaterialIcons, MaterialCommunityIcons, Ionicons, Feather } from '@expo/vector-icons'
@@ -19,10 +20,13 @@ import { BlurView } from 'expo-blur'
 import Header from '@/components/Header'
 import { router } from 'expo-router'
 import { auth, db } from '../config/firebase'
-import { doc, getDoc, onSnapshot, DocumentData, collection, query, where, orderBy, limit, getDocs } from 'firebase/firestore'
+import { doc, getDoc, onSnapshot, DocumentData, collection, getDocs } from 'firebase/firestore'
 import { onAuthStateChanged, User } from 'firebase/auth'
 import { Timestamp } from 'firebase/firestore'
-import * as Notifications from 'expo-notifications'
+import { getUpcomingReminderOccurrences, Reminder } from '../services/reminders'
+import { getCallUrl } from '../services/emergencyContact'
+import { DEFAULT_EMERGENCY_NUMBER } from '../services/triage'
+import { useEmergencyNumber } from '@/hooks/useEmergencyNumber'
 
 const { width } = Dimensions.get('window')
 
@@ -49,6 +53,7 @@ type UserData = {
   vitals: Record<VitalType, VitalData>
   upcoming: Array<{
     id: string
+    occurrenceId: string
     type: 'medication' | 'appointment' | 'exercise' | 'water'
     title: string
     time: string
@@ -82,6 +87,7 @@ export default function Index() {
   const [currentUser, setCurrentUser] = useState<User | null>(null)
   const [debugInfo, setDebugInfo] = useState<string>('') // For debugging
   const [refreshing, setRefreshing] = useState(false);
+  const emergencyNumber = useEmergencyNumber()
 
   // Check authentication and fetch user data
   useEffect(() => {
@@ -180,21 +186,35 @@ export default function Index() {
     }
   }
 
-  // Handle emergency action
+  // Handle emergency action; the emergency screen has the contact and Medical ID, also offline
   const handleEmergency = () => {
+    const fallback =
+      emergencyNumber === DEFAULT_EMERGENCY_NUMBER
+        ? ''
+        : ` ${DEFAULT_EMERGENCY_NUMBER} also works from most mobile phones.`
     Alert.alert(
-      'Emergency Contact',
-      'Do you want to call emergency services?',
+      'Emergency',
+      `Do you want to call emergency services (${emergencyNumber})?${fallback}`,
       [
         {
           text: 'Cancel',
           style: 'cancel',
         },
         {
-          text: 'Call Emergency',
-          onPress: () => {
-            // In a real app, this would use Linking to make a phone call
-            Alert.alert('Calling Emergency Services...')
+          text: 'Contact & Medical ID',
+          onPress: () => router.push('/emergency'),
+        },
+        {
+          text: `Call ${emergencyNumber}`,
+          onPress: async () => {
+            // Open the emergency screen underneath so it is there when the call ends
+            router.push('/emergency')
+            try {
+              await Linking.openURL(getCallUrl(emergencyNumber))
+            } catch (error) {
+              console.error('Error opening dialer:', error)
+              Alert.alert('Unable to place call', `Please dial ${emergencyNumber} manually.`)
+            }
           },
           style: 'destructive',
         },
@@ -678,199 +698,33 @@ export default function Index() {
     return Math.round((score / (scoreComponents * 25)) * 100);
   }
 
-  // Add notification scheduling helper function
-  const scheduleNotifications = async (reminder: UserData['upcoming'][0]) => {
-    try {
-      const reminderDate = reminder.date.toDate();
-      const [hours, minutes] = reminder.time.split(':').map(Number);
-      const eventTime = new Date(reminderDate);
-      eventTime.setHours(hours, minutes, 0, 0);
-
-      // Cancel any existing notifications for this reminder
-      await Notifications.cancelScheduledNotificationAsync(reminder.id);
-      
-      // Define notification times based on reminder type
-      const notificationTimes = [];
-      
-      switch (reminder.type) {
-        case 'appointment':
-          // For appointments: Day start (8 AM), 6 hours, 1 hour, and 15 minutes before
-          const dayStart = new Date(eventTime);
-          dayStart.setHours(8, 0, 0, 0);
-          if (dayStart < eventTime) {
-            notificationTimes.push({
-              time: dayStart,
-              title: `Today's Appointment`,
-              body: `You have an appointment "${reminder.title}" today at ${reminder.time}`
-            });
-          }
-
-          const sixHoursBefore = new Date(eventTime.getTime() - 6 * 60 * 60 * 1000);
-          if (sixHoursBefore > new Date()) {
-            notificationTimes.push({
-              time: sixHoursBefore,
-              title: `Appointment in 6 hours`,
-              body: `Your appointment "${reminder.title}" is in 6 hours`
-            });
-          }
-          break;
-
-        case 'medication':
-          // For medications: 1 hour and 15 minutes before
-          const oneHourBefore = new Date(eventTime.getTime() - 60 * 60 * 1000);
-          if (oneHourBefore > new Date()) {
-            notificationTimes.push({
-              time: oneHourBefore,
-              title: `Medication Reminder`,
-              body: `Time to take "${reminder.title}" in 1 hour`
-            });
-          }
-          break;
-
-        case 'exercise':
-          // For exercise: 2 hours, 1 hour, and 30 minutes before
-          const twoHoursBefore = new Date(eventTime.getTime() - 2 * 60 * 60 * 1000);
-          if (twoHoursBefore > new Date()) {
-            notificationTimes.push({
-              time: twoHoursBefore,
-              title: `Exercise Session Soon`,
-              body: `Prepare for your "${reminder.title}" session in 2 hours`
-            });
-          }
-
-          const exerciseOneHourBefore = new Date(eventTime.getTime() - 60 * 60 * 1000);
-          if (exerciseOneHourBefore > new Date()) {
-            notificationTimes.push({
-              time: exerciseOneHourBefore,
-              title: `Exercise Reminder`,
-              body: `Your "${reminder.title}" session is in 1 hour. Get ready!`
-            });
-          }
-          break;
-
-        case 'water':
-          // For water: Gentle reminders throughout the day
-          const waterReminders = [
-            { hours: 9, minutes: 0, title: "Morning Hydration" },
-            { hours: 12, minutes: 0, title: "Midday Hydration" },
-            { hours: 15, minutes: 0, title: "Afternoon Hydration" },
-            { hours: 18, minutes: 0, title: "Evening Hydration" }
-          ];
-
-          for (const time of waterReminders) {
-            const reminderTime = new Date(reminderDate);
-            reminderTime.setHours(time.hours, time.minutes, 0, 0);
-            
-            if (reminderTime > new Date()) {
-              notificationTimes.push({
-                time: reminderTime,
-                title: time.title,
-                body: `Time to drink water! ${reminder.title}`
-              });
-            }
-          }
-          break;
-
-        default:
-          // For all other types: 1 hour and 30 minutes before
-          const defaultOneHourBefore = new Date(eventTime.getTime() - 60 * 60 * 1000);
-          if (defaultOneHourBefore > new Date()) {
-            notificationTimes.push({
-              time: defaultOneHourBefore,
-              title: `Reminder`,
-              body: `"${reminder.title}" is scheduled in 1 hour`
-            });
-          }
-      }
+  // Next few occurrences across all reminders, recurring ones expanded
+  const getUpcomingItems = async (uid: string): Promise<UserData['upcoming']> => {
+    const querySnapshot = await getDocs(collection(db, 'users', uid, 'reminders'));
+    const reminders = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Reminder);
+    const now = new Date();
+    const occurrences = getUpcomingReminderOccurrences(
+      reminders,
+      now,
+      new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000)
+    ).slice(0, 5);
 
-      // Common notification for all types (except water) - 15 minutes before
-      if (reminder.type !== 'water') {
-        const fifteenMinsBefore = new Date(eventTime.getTime() - 15 * 60 * 1000);
-        if (fifteenMinsBefore > new Date()) {
-          notificationTimes.push({
-            time: fifteenMinsBefore,
-            title: `${reminder.type.charAt(0).toUpperCase() + reminder.type.slice(1)} in 15 minutes`,
-            body: getNotificationMessage(reminder.type, reminder.title)
-          });
-        }
-      }
-
-      // Schedule all notifications
-      for (const notification of notificationTimes) {
-        const identifier = `${reminder.id}-${notification.time.getTime()}`;
-        await Notifications.scheduleNotificationAsync({
-          content: {
-            title: notification.title,
-            body: notification.body,
-            sound: true,
-            priority: Notifications.AndroidNotificationPriority.HIGH,
-            data: { 
-              reminderId: reminder.id,
-              reminderType: reminder.type
-            }
-          },
-          trigger: {
-            date: notification.time,
-            channelId: 'reminders'
-          },
-        });
-      }
-    } catch (error) {
-      console.error('Error scheduling notifications:', error);
-    }
+    return occurrences.map(({ id, reminder, scheduledAt }) => ({
+      id: reminder.id,
+      occurrenceId: id,
+      type: reminder.type as 'medication' | 'appointment' | 'exercise' | 'water',
+      title: reminder.title,
+      time: reminder.time,
+      date: Timestamp.fromDate(scheduledAt),
+      icon: getReminderIcon(reminder.type),
+      color: getReminderColor(reminder.type),
+      isCompleted: !reminder.isRecurring && (reminder.isCompleted || false),
+    }));
   };
 
-  // Helper function to get notification messages
-  const getNotificationMessage = (type: string, title: string): string => {
-    switch (type) {
-      case 'medication':
-        return `Time to take "${title}" in 15 minutes`;
-      case 'appointment':
-        return `Your appointment "${title}" is in 15 minutes`;
-      case 'exercise':
-        return `Time for your "${title}" session in 15 minutes. Get ready!`;
-      case 'water':
-        return `Don't forget to drink water! ${title}`;
-      default:
-        return `"${title}" is scheduled in 15 minutes`;
-    }
-  };
-
-  // Update the fetchUpcomingReminders function to include notification scheduling
   const fetchUpcomingReminders = async (uid: string) => {
     try {
-      const remindersRef = collection(db, 'users', uid, 'reminders');
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      const q = query(
-        remindersRef,
-        where('date', '>=', Timestamp.fromDate(today)),
-        orderBy('date', 'asc'),
-        limit(5)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const upcomingReminders = querySnapshot.docs.map(doc => {
-        const data = doc.data();
-        const reminder = {
-          id: doc.id,
-          type: data.type as 'medication' | 'appointment' | 'exercise' | 'water',
-          title: data.title,
-          time: data.time,
-          date: data.date as Timestamp,
-          icon: getReminderIcon(data.type),
-          color: getReminderColor(data.type),
-          isCompleted: data.isCompleted || false
-        };
-
-        // Schedule notifications for non-completed reminders
-        if (!reminder.isCompleted) {
-          scheduleNotifications(reminder);
-        }
-
-        return reminder;
-      });
+      const upcomingReminders = await getUpcomingItems(uid);
       
       setUserData(prev => ({
         ...prev,
@@ -967,29 +821,7 @@ export default function Index() {
 
   const loadUpcomingReminders = async (uid: string) => {
     try {
-      const now = new Date();
-      const remindersRef = collection(db, 'users', uid, 'reminders');
-      const q = query(
-        remindersRef,
-        where('date', '>=', now),
-        orderBy('date', 'asc'),
-        limit(5)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const upcomingReminders = querySnapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-        id: doc.id,
-          type: data.type as 'medication' | 'appointment' | 'exercise' | 'water',
-          title: data.title,
-          time: data.time,
-          date: data.date as Timestamp,
-          icon: getReminderIcon(data.type),
-          color: getReminderColor(data.type),
-          isCompleted: data.isCompleted || false,
-        };
-      });
+      const upcomingReminders = await getUpcomingItems(uid);
       
       setUserData(currentData => ({
         ...currentData,
@@ -1202,7 +1034,7 @@ export default function Index() {
             {userData.upcoming.length > 0 ? (
               userData.upcoming.map((item) => (
               <TouchableOpacity 
-                key={item.id}
+                key={item.occurrenceId}
                   style={[
                     styles.upcomingCard,
                     item.isCompleted && styles.upcomingCardCompleted
@@ -35,9 +35,32 @@ import {
 import { router } from 'expo-router'
 import { handleFirebaseError } from '../services/firebase'
 import * as ImagePicker from 'expo-image-picker'
+import {
+  DEFAULT_LANGUAGE,
+  DEFAULT_READING_LEVEL,
+  getLanguage,
+  getReadingLevel,
+  READING_LEVELS,
+  ReadingLevel,
+  RESPONSE_LANGUAGES,
+  ResponseLanguage,
+  ResponsePreferences,
+} from '../services/responsePreferences'
+import {
+  DAILY_CAP_OPTIONS,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  ESCALATION_DELAYS,
+  getNotificationPreferences,
+  NotificationPreferences,
+  QUIET_HOURS_ENDS,
+  QUIET_HOURS_STARTS,
+} from '../services/notificationPreferences'
+import { LEAD_TIME_RULES, reconcileNotifications } from '../services/notificationScheduler'
+import { REMINDER_TYPES, ReminderType } from '../services/reminders'
+import { refreshMedicalId } from '../services/medicalId'
 
 // Types
-interface UserProfile {
+interface UserProfile extends ResponsePreferences {
   fullName: string;
   email: string;
   phoneNumber: string;
@@ -54,9 +77,12 @@ interface UserProfile {
     phoneNumber: string;
   };
   profilePicture?: string;
+  notificationPreferences?: NotificationPreferences;
   lastUpdated?: Timestamp;
 }
 
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+
 export default function ProfileScreen() {
   const [user, setUser] = useState<User | null>(null)
   const [profile, setProfile] = useState<UserProfile | null>(null)
@@ -79,6 +105,11 @@ export default function ProfileScreen() {
   const [emergencyName, setEmergencyName] = useState('')
   const [emergencyRelationship, setEmergencyRelationship] = useState('')
   const [emergencyPhone, setEmergencyPhone] = useState('')
+  const [preferredLanguage, setPreferredLanguage] = useState<ResponseLanguage>(DEFAULT_LANGUAGE)
+  const [readingLevel, setReadingLevel] = useState<ReadingLevel>(DEFAULT_READING_LEVEL)
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>(
+    DEFAULT_NOTIFICATION_PREFERENCES
+  )
   
   // Password change states
   const [currentPassword, setCurrentPassword] = useState('')
@@ -121,6 +152,9 @@ export default function ProfileScreen() {
         setBloodType(userData.bloodType || '')
         setAllergies(userData.allergies?.join(', ') || '')
         setConditions(userData.conditions?.join(', ') || '')
+        setPreferredLanguage(getLanguage(userData).key)
+        setReadingLevel(getReadingLevel(userData).key)
+        setNotificationPreferences(getNotificationPreferences(userData))
         
         if (userData.emergencyContact) {
           setEmergencyName(userData.emergencyContact.name || '')
@@ -147,6 +181,41 @@ export default function ProfileScreen() {
     }
   }
 
+  const updateNotificationPreferences = (changes: Partial<NotificationPreferences>) =>
+    setNotificationPreferences(prev => ({ ...prev, ...changes }))
+
+  const toggleLeadTime = (type: ReminderType, id: string) => {
+    const enabled = notificationPreferences.leadTimes[type] ?? LEAD_TIME_RULES[type].map(rule => rule.id)
+    updateNotificationPreferences({
+      leadTimes: {
+        ...notificationPreferences.leadTimes,
+        [type]: enabled.includes(id) ? enabled.filter(item => item !== id) : [...enabled, id],
+      },
+    })
+  }
+
+  const setDailyCap = (type: ReminderType, cap?: number) => {
+    const dailyCaps = { ...notificationPreferences.dailyCaps }
+    if (cap === undefined) {
+      delete dailyCaps[type]
+    } else {
+      dailyCaps[type] = cap
+    }
+    updateNotificationPreferences({ dailyCaps })
+  }
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.optionChip, selected && styles.optionChipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, selected && styles.optionTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  )
+
+  const { quietHours, escalation } = notificationPreferences
+
   const handleSaveProfile = async () => {
     if (!user) return
     
@@ -164,6 +233,9 @@ export default function ProfileScreen() {
       const updatedProfile: Record<string, any> = {
         fullName: fullName.trim(),
         phoneNumber: phoneNumber.trim(),
+        preferredLanguage,
+        readingLevel,
+        notificationPreferences,
         lastUpdated: serverTimestamp(),
       }
       
@@ -210,6 +282,10 @@ export default function ProfileScreen() {
         displayName: fullName.trim(),
       })
       
+      // Quiet hours, caps and lead times change what should be scheduled
+      reconcileNotifications(user.uid)
+      refreshMedicalId(user.uid).catch(error => console.error('Error refreshing medical ID:', error))
+      
       Alert.alert('Success', 'Profile updated successfully')
       setEditMode(false)
       await loadUserProfile(user.uid)
@@ -587,6 +663,178 @@ export default function ProfileScreen() {
           </View>
         </View>
         
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Assistant Answers</Text>
+          
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel}>Language</Text>
+            {editMode ? (
+              <View style={styles.optionRow}>
+                {RESPONSE_LANGUAGES.map(option => (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={[styles.optionChip, preferredLanguage === option.key && styles.optionChipSelected]}
+                    onPress={() => setPreferredLanguage(option.key)}
+                  >
+                    <Text style={[styles.optionText, preferredLanguage === option.key && styles.optionTextSelected]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : (
+              <Text style={styles.fieldValue}>{getLanguage(profile).label}</Text>
+            )}
+          </View>
+          
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel}>Reading Level</Text>
+            {editMode ? (
+              <>
+                <View style={styles.optionRow}>
+                  {READING_LEVELS.map(option => (
+                    <TouchableOpacity
+                      key={option.key}
+                      style={[styles.optionChip, readingLevel === option.key && styles.optionChipSelected]}
+                      onPress={() => setReadingLevel(option.key)}
+                    >
+                      <Text style={[styles.optionText, readingLevel === option.key && styles.optionTextSelected]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={styles.optionHint}>
+                  {READING_LEVELS.find(option => option.key === readingLevel)?.description}
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.fieldValue}>
+                {getReadingLevel(profile).label} · {getReadingLevel(profile).description}
+              </Text>
+            )}
+          </View>
+        </View>
+        
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Notifications</Text>
+          
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel}>Quiet Hours</Text>
+            {editMode ? (
+              <>
+                <View style={styles.optionRow}>
+                  {renderOption('off', 'Off', !quietHours.enabled, () =>
+                    updateNotificationPreferences({ quietHours: { ...quietHours, enabled: false } }))}
+                  {renderOption('on', 'On', quietHours.enabled, () =>
+                    updateNotificationPreferences({ quietHours: { ...quietHours, enabled: true } }))}
+                </View>
+                {quietHours.enabled && (
+                  <>
+                    <Text style={styles.optionHint}>From</Text>
+                    <View style={styles.optionRow}>
+                      {QUIET_HOURS_STARTS.map(time => renderOption(time, time, quietHours.start === time, () =>
+                        updateNotificationPreferences({ quietHours: { ...quietHours, start: time } })))}
+                    </View>
+                    <Text style={styles.optionHint}>Until</Text>
+                    <View style={styles.optionRow}>
+                      {QUIET_HOURS_ENDS.map(time => renderOption(time, time, quietHours.end === time, () =>
+                        updateNotificationPreferences({ quietHours: { ...quietHours, end: time } })))}
+                    </View>
+                  </>
+                )}
+                <Text style={styles.optionHint}>
+                  Only reminders set for these hours come through, silently.
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.fieldValue}>
+                {quietHours.enabled ? `${quietHours.start} – ${quietHours.end}` : 'Off'}
+              </Text>
+            )}
+          </View>
+          
+          <View style={styles.fieldContainer}>
+            <Text style={styles.fieldLabel}>Missed Doses</Text>
+            {editMode ? (
+              <>
+                <View style={styles.optionRow}>
+                  {renderOption('off', 'Off', !escalation.enabled, () =>
+                    updateNotificationPreferences({ escalation: { ...escalation, enabled: false } }))}
+                  {ESCALATION_DELAYS.map(minutes => renderOption(
+                    String(minutes),
+                    `${minutes} min`,
+                    escalation.enabled && escalation.afterMinutes === minutes,
+                    () => updateNotificationPreferences({ escalation: { ...escalation, enabled: true, afterMinutes: minutes } })
+                  ))}
+                </View>
+                <Text style={styles.optionHint}>
+                  Remind me again if a dose is not marked taken after this long. Critical medications always
+                  do this and then prompt to contact your emergency contact.
+                </Text>
+                {escalation.enabled && (
+                  <View style={styles.optionRow}>
+                    {renderOption(
+                      'contact',
+                      'Then offer to contact my emergency contact',
+                      escalation.notifyEmergencyContact,
+                      () => updateNotificationPreferences({
+                        escalation: { ...escalation, notifyEmergencyContact: !escalation.notifyEmergencyContact },
+                      })
+                    )}
+                  </View>
+                )}
+              </>
+            ) : (
+              <Text style={styles.fieldValue}>
+                {escalation.enabled
+                  ? `Remind again after ${escalation.afterMinutes} min${escalation.notifyEmergencyContact ? ', then emergency contact' : ''}`
+                  : 'Off'}
+              </Text>
+            )}
+          </View>
+          
+          {REMINDER_TYPES.map(type => {
+            const enabledLeadTimes = notificationPreferences.leadTimes[type] ?? LEAD_TIME_RULES[type].map(rule => rule.id)
+            const cap = notificationPreferences.dailyCaps[type]
+            return (
+              <View key={type} style={styles.fieldContainer}>
+                <Text style={styles.fieldLabel}>{capitalize(type)}</Text>
+                {editMode ? (
+                  <>
+                    <Text style={styles.optionHint}>Extra alerts</Text>
+                    <View style={styles.optionRow}>
+                      {LEAD_TIME_RULES[type].map(rule => renderOption(
+                        rule.id,
+                        rule.label,
+                        enabledLeadTimes.includes(rule.id),
+                        () => toggleLeadTime(type, rule.id)
+                      ))}
+                    </View>
+                    <Text style={styles.optionHint}>Most per day</Text>
+                    <View style={styles.optionRow}>
+                      {DAILY_CAP_OPTIONS.map(option => renderOption(
+                        String(option ?? 'none'),
+                        option === undefined ? 'No limit' : String(option),
+                        cap === option,
+                        () => setDailyCap(type, option)
+                      ))}
+                    </View>
+                  </>
+                ) : (
+                  <Text style={styles.fieldValue}>
+                    {LEAD_TIME_RULES[type]
+                      .filter(rule => enabledLeadTimes.includes(rule.id))
+                      .map(rule => rule.label)
+                      .join(', ') || 'At the reminder time only'}
+                    {cap !== undefined ? ` · at most ${cap} a day` : ''}
+                  </Text>
+                )}
+              </View>
+            )
+          })}
+        </View>
+        
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Emergency Contact</Text>
           
@@ -852,6 +1100,34 @@ const styles = StyleSheet.create({
     padding: 12,
     color: '#fff',
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#444',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionChipSelected: {
+    borderColor: '#00BFFF',
+    backgroundColor: 'rgba(0, 191, 255, 0.15)',
+  },
+  optionText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  optionTextSelected: {
+    color: '#00BFFF',
+  },
+  optionHint: {
+    color: '#888',
+    fontSize: 12,
+  },
   signOutButton: {
     backgroundColor: '#F44336',
     borderRadius: 8,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
 import {
   View,
   Text,
@@ -27,16 +27,41 @@ import {
   where,
   orderBy,
   getDocs,
+  getDoc,
   addDoc,
   updateDoc,
   deleteDoc,
+  deleteField,
   onSnapshot,
   Timestamp,
   serverTimestamp,
 } from 'firebase/firestore'
 import { onAuthStateChanged } from 'firebase/auth'
-import { router } from 'expo-router'
+import { router, useLocalSearchParams } from 'expo-router'
 import { handleFirebaseError } from '../services/firebase'
+import { checkNewMedication, HealthProfileContext } from '../services/drugKnowledge'
+import {
+  getUpcomingDoses,
+  Medication,
+  subscribeToMedications,
+} from '../services/medications'
+import {
+  AdherenceRecord,
+  AdherenceStatus,
+  clearDose,
+  recordDose,
+  SKIP_REASONS,
+  subscribeToAdherence,
+} from '../services/adherence'
+import { DoseTarget } from '../services/doseNotifications'
+import {
+  getCurrentReminderOccurrence,
+  getRecurrenceRule,
+  Reminder,
+  toReminderTarget,
+} from '../services/reminders'
+import { reconcileNotifications } from '../services/notificationScheduler'
+import { describeRecurrence, RecurrenceRule, RECURRENCE_UNITS, toDateKey } from '../services/recurrence'
 
 const { width } = Dimensions.get('window')
 
@@ -49,20 +74,7 @@ Notifications.setNotificationHandler({
   }),
 })
 
-// Types
-interface Reminder {
-  id: string;
-  title: string;
-  description?: string;
-  date: Timestamp;
-  time: string;
-  type: 'medication' | 'appointment' | 'exercise' | 'water' | 'other';
-  isCompleted: boolean;
-  isRecurring: boolean;
-  recurringPattern?: 'daily' | 'weekly' | 'monthly';
-  notificationEnabled: boolean;
-  createdAt: Timestamp;
-}
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
 
 export default function RemindersScreen() {
   const [reminders, setReminders] = useState<Reminder[]>([])
@@ -80,10 +92,25 @@ export default function RemindersScreen() {
   const [type, setType] = useState<Reminder['type']>('medication')
   const [isRecurring, setIsRecurring] = useState(false)
   const [recurringPattern, setRecurringPattern] = useState<'daily' | 'weekly' | 'monthly'>('daily')
+  const [recurrenceInterval, setRecurrenceInterval] = useState(1)
+  const [byWeekday, setByWeekday] = useState<number[]>([])
+  const [recurrenceEnd, setRecurrenceEnd] = useState<'never' | 'count' | 'until'>('never')
+  const [recurrenceCount, setRecurrenceCount] = useState('10')
+  const [untilDate, setUntilDate] = useState(new Date())
+  const [showUntilPicker, setShowUntilPicker] = useState(false)
   const [notificationEnabled, setNotificationEnabled] = useState(true)
+  const [critical, setCritical] = useState(false)
   const [showDatePicker, setShowDatePicker] = useState(false)
   const [showTimePicker, setShowTimePicker] = useState(false)
   const [filter, setFilter] = useState<'all' | 'active' | 'completed'>('active')
+  const [healthProfile, setHealthProfile] = useState<HealthProfileContext>({})
+  const [medications, setMedications] = useState<Medication[]>([])
+  const [adherence, setAdherence] = useState<Map<string, AdherenceRecord>>(new Map())
+  const [skipTarget, setSkipTarget] = useState<DoseTarget | null>(null)
+  // Set by notification taps and neuracare://reminders?reminderId=… links
+  const { reminderId: linkedReminderId } = useLocalSearchParams<{ reminderId?: string }>()
+  const scrollRef = useRef<ScrollView>(null)
+  const listY = useRef(0)
 
   // Check authentication and load reminders
   useEffect(() => {
@@ -94,11 +121,40 @@ export default function RemindersScreen() {
       }
       setUserId(user.uid)
       loadReminders(user.uid)
+      loadHealthProfile(user.uid)
     })
 
     return () => unsubscribeAuth()
   }, [])
 
+  // Doses come from the structured medications
+  useEffect(() => {
+    if (!userId) return
+    return subscribeToMedications(userId, setMedications)
+  }, [userId])
+
+  // Taken / skipped / snoozed records for today's doses and recurring reminders
+  useEffect(() => {
+    if (!userId) return
+    const since = new Date()
+    since.setHours(0, 0, 0, 0)
+    since.setDate(since.getDate() - 1)
+    return subscribeToAdherence(userId, since, setAdherence)
+  }, [userId])
+
+  // Show the linked reminder even when it is already done
+  useEffect(() => {
+    if (linkedReminderId && reminders.some(r => r.id === linkedReminderId)) {
+      setFilter('all')
+    }
+  }, [linkedReminderId, reminders])
+
+  // Any change to reminders, doses or what was taken re-syncs the pending notifications
+  useEffect(() => {
+    if (!userId) return
+    reconcileNotifications(userId)
+  }, [userId, reminders, medications, adherence])
+
   // Add notification permission request in useEffect
   useEffect(() => {
     const requestNotificationPermissions = async () => {
@@ -158,46 +214,18 @@ export default function RemindersScreen() {
     }
   }
 
-  const scheduleNotification = async (reminder: Reminder) => {
-    if (!reminder.notificationEnabled) return;
-
+  // Allergies and conditions used to check new medication reminders
+  const loadHealthProfile = async (uid: string) => {
     try {
-      const triggerDate = new Date(reminder.date.toDate());
-      const [hours, minutes] = reminder.time.split(':');
-      triggerDate.setHours(parseInt(hours), parseInt(minutes), 0);
-
-      // Cancel any existing notifications for this reminder
-      await Notifications.cancelScheduledNotificationAsync(reminder.id);
-
-      // Schedule new notification with correct trigger type
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title: reminder.title,
-          body: reminder.description || `Time for your ${reminder.type} reminder!`,
-          sound: true,
-          priority: Notifications.AndroidNotificationPriority.HIGH,
-        },
-        trigger: {
-          channelId: 'reminders',
-          date: triggerDate,
-        },
-      });
+      const userDoc = await getDoc(doc(db, 'users', uid))
+      if (userDoc.exists()) {
+        const { allergies, conditions } = userDoc.data()
+        setHealthProfile({ allergies, conditions })
+      }
     } catch (error) {
-      console.error('Error scheduling notification:', error);
-    }
-  };
-
-  // Add notification channel creation for Android
-  useEffect(() => {
-    if (Platform.OS === 'android') {
-      Notifications.setNotificationChannelAsync('reminders', {
-        name: 'Reminders',
-        importance: Notifications.AndroidImportance.HIGH,
-        vibrationPattern: [0, 250, 250, 250],
-        lightColor: '#4CAF50',
-      });
+      console.error('Error loading health profile:', error)
     }
-  }, []);
+  }
 
   const handleAddReminder = async () => {
     if (!userId || !title.trim()) {
@@ -205,6 +233,33 @@ export default function RemindersScreen() {
       return
     }
 
+    if (type === 'medication') {
+      const otherMedications = [
+        ...reminders
+          .filter(r => r.type === 'medication' && !r.isCompleted && r.id !== editingReminder?.id)
+          .map(r => r.title),
+        ...medications.map(m => m.name),
+      ]
+      const { warnings } = checkNewMedication(title, otherMedications, healthProfile)
+      if (warnings.length > 0) {
+        Alert.alert(
+          warnings.some(w => w.severity === 'major') ? 'Serious Medication Warning' : 'Medication Warning',
+          `${warnings.map(w => `• ${w.message}`).join('\n')}\n\nCheck with your doctor or pharmacist before taking these.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Save Anyway', onPress: saveReminder },
+          ]
+        )
+        return
+      }
+    }
+
+    await saveReminder()
+  }
+
+  const saveReminder = async () => {
+    if (!userId) return
+
     try {
       setLoading(true)
       
@@ -223,33 +278,32 @@ export default function RemindersScreen() {
         reminderData.description = description.trim();
       }
       
+      if (type === 'medication' && critical) {
+        reminderData.critical = true;
+      }
+      
       if (isRecurring && recurringPattern) {
         reminderData.recurringPattern = recurringPattern;
+        reminderData.recurrence = buildRecurrenceRule();
       }
       
-      let reminderId: string;
-      
+      // Notifications are rescheduled by the reminders listener once the change lands
       if (editingReminder) {
-        reminderId = editingReminder.id;
         await updateDoc(
-          doc(db, 'users', userId, 'reminders', reminderId),
-          reminderData
+          doc(db, 'users', userId, 'reminders', editingReminder.id),
+          {
+            description: deleteField(),
+            recurringPattern: deleteField(),
+            recurrence: deleteField(),
+            critical: deleteField(),
+            ...reminderData,
+          }
         );
       } else {
-        const docRef = await addDoc(
+        await addDoc(
           collection(db, 'users', userId, 'reminders'),
           reminderData
         );
-        reminderId = docRef.id;
-      }
-      
-      // Schedule notification
-      if (notificationEnabled) {
-        await scheduleNotification({
-          id: reminderId,
-          ...reminderData,
-          date: reminderData.date as Timestamp,
-        } as Reminder);
       }
       
       resetForm()
@@ -289,20 +343,89 @@ export default function RemindersScreen() {
     )
   }
 
+  const buildRecurrenceRule = (): RecurrenceRule => {
+    const rule: RecurrenceRule = { frequency: recurringPattern, interval: recurrenceInterval }
+    if (recurringPattern === 'weekly' && byWeekday.length > 0) rule.byWeekday = byWeekday
+    if (recurrenceEnd === 'count') rule.count = Math.max(1, parseInt(recurrenceCount) || 1)
+    if (recurrenceEnd === 'until') {
+      rule.until = Timestamp.fromDate(new Date(untilDate.getFullYear(), untilDate.getMonth(), untilDate.getDate()))
+    }
+    // Keep days already skipped when the rule is edited
+    const exceptions = editingReminder?.recurrence?.exceptions
+    if (exceptions?.length) rule.exceptions = exceptions
+    return rule
+  }
+
+  // Recurring reminders are done for their current occurrence only, and for good once
+  // the series ends. A Taken tap on the notification counts as done too.
+  const isReminderDone = (reminder: Reminder) => {
+    const occurrence = getCurrentReminderOccurrence(reminder)
+    if (!occurrence) return true
+    return adherence.get(occurrence.id)?.status === 'taken' || (!reminder.isRecurring && reminder.isCompleted)
+  }
+
+  // Leaves the current occurrence out of the series, like an RRULE exception date
+  const handleSkipOccurrence = async (reminder: Reminder) => {
+    const rule = getRecurrenceRule(reminder)
+    const occurrence = getCurrentReminderOccurrence(reminder)
+    if (!userId || !rule || !occurrence) return
+
+    try {
+      await updateDoc(doc(db, 'users', userId, 'reminders', reminder.id), {
+        recurrence: { ...rule, exceptions: [...(rule.exceptions ?? []), toDateKey(occurrence.scheduledAt)] },
+      })
+    } catch (error) {
+      console.error('Error skipping occurrence:', error)
+      Alert.alert('Error', handleFirebaseError(error))
+    }
+  }
+
   const handleToggleComplete = async (reminder: Reminder) => {
-    if (!userId) return
+    const occurrence = getCurrentReminderOccurrence(reminder)
+    if (!userId || !occurrence) return
     
     try {
-      await updateDoc(
-        doc(db, 'users', userId, 'reminders', reminder.id),
-        { isCompleted: !reminder.isCompleted }
-      )
+      const target = toReminderTarget(occurrence)
+      const done = isReminderDone(reminder)
+      if (done) {
+        await clearDose(userId, target)
+      } else if (reminder.isRecurring) {
+        await recordDose(userId, target, 'taken')
+      }
+      if (!reminder.isRecurring) {
+        await updateDoc(
+          doc(db, 'users', userId, 'reminders', reminder.id),
+          { isCompleted: !done }
+        )
+      }
     } catch (error) {
       console.error('Error updating reminder:', error)
       Alert.alert('Error', handleFirebaseError(error))
     }
   }
 
+  const handleRecordDose = async (target: DoseTarget, status: AdherenceStatus, reason?: string) => {
+    if (!userId) return
+
+    try {
+      await recordDose(userId, target, status, { reason })
+    } catch (error) {
+      console.error('Error recording dose:', error)
+      Alert.alert('Error', handleFirebaseError(error))
+    }
+  }
+
+  const handleUndoDose = async (target: DoseTarget) => {
+    if (!userId) return
+
+    try {
+      await clearDose(userId, target)
+    } catch (error) {
+      console.error('Error clearing dose:', error)
+      Alert.alert('Error', handleFirebaseError(error))
+    }
+  }
+
   const handleEditReminder = (reminder: Reminder) => {
     setEditingReminder(reminder)
     setTitle(reminder.title)
@@ -311,8 +434,15 @@ export default function RemindersScreen() {
     setTime(reminder.time)
     setType(reminder.type)
     setIsRecurring(reminder.isRecurring)
-    setRecurringPattern(reminder.recurringPattern || 'daily')
+    const rule = getRecurrenceRule(reminder)
+    setRecurringPattern(rule?.frequency || 'daily')
+    setRecurrenceInterval(rule?.interval || 1)
+    setByWeekday(rule?.byWeekday || [])
+    setRecurrenceEnd(rule?.count !== undefined ? 'count' : rule?.until ? 'until' : 'never')
+    setRecurrenceCount(rule?.count?.toString() || '10')
+    setUntilDate(rule?.until?.toDate() || new Date())
     setNotificationEnabled(reminder.notificationEnabled)
+    setCritical(!!reminder.critical)
     setModalVisible(true)
   }
 
@@ -324,7 +454,13 @@ export default function RemindersScreen() {
     setType('medication')
     setIsRecurring(false)
     setRecurringPattern('daily')
+    setRecurrenceInterval(1)
+    setByWeekday([])
+    setRecurrenceEnd('never')
+    setRecurrenceCount('10')
+    setUntilDate(new Date())
     setNotificationEnabled(true)
+    setCritical(false)
     setEditingReminder(null)
   }
 
@@ -366,12 +502,20 @@ export default function RemindersScreen() {
     }
   }
 
+  const now = new Date()
+  // Recent doses stay listed so late ones can still be marked
+  const upcomingDoses = getUpcomingDoses(
+    medications,
+    new Date(now.getTime() - 12 * 60 * 60 * 1000),
+    new Date(now.getTime() + 24 * 60 * 60 * 1000)
+  )
+
   const getFilteredReminders = () => {
     switch (filter) {
       case 'active':
-        return reminders.filter(r => !r.isCompleted)
+        return reminders.filter(r => !isReminderDone(r))
       case 'completed':
-        return reminders.filter(r => r.isCompleted)
+        return reminders.filter(r => isReminderDone(r))
       default:
         return reminders
     }
@@ -439,15 +583,24 @@ export default function RemindersScreen() {
               </LinearGradient>
               <Text style={styles.headerTitle}>Reminders</Text>
             </View>
-            <TouchableOpacity 
-              style={styles.refreshButton}
-              onPress={() => {
-                resetForm();
-                setModalVisible(true);
-              }}
-            >
-              <MaterialIcons name="add" size={24} color="#00BFFF" />
-            </TouchableOpacity>
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={[styles.refreshButton, styles.headerActionSpacing]}
+                onPress={() => router.push('/medications')}
+                accessibilityLabel="My medications"
+              >
+                <MaterialCommunityIcons name="pill" size={22} color="#00BFFF" />
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={styles.refreshButton}
+                onPress={() => {
+                  resetForm();
+                  setModalVisible(true);
+                }}
+              >
+                <MaterialIcons name="add" size={24} color="#00BFFF" />
+              </TouchableOpacity>
+            </View>
           </View>
           <Text style={styles.headerSubtitle}>
             Stay on track with your health goals
@@ -484,6 +637,7 @@ export default function RemindersScreen() {
       </View>
 
       <ScrollView
+        ref={scrollRef}
         style={styles.content}
         refreshControl={
           <RefreshControl
@@ -494,6 +648,64 @@ export default function RemindersScreen() {
           />
         }
       >
+        {filter !== 'completed' && upcomingDoses.length > 0 && (
+          <View style={styles.dosesSection}>
+            <View style={styles.dosesHeader}>
+              <Text style={styles.dosesTitle}>Today's doses</Text>
+              <TouchableOpacity onPress={() => router.push('/medications')}>
+                <Text style={styles.dosesLink}>Manage</Text>
+              </TouchableOpacity>
+            </View>
+            {upcomingDoses.map((dose) => {
+              const target: DoseTarget = {
+                occurrenceId: dose.id,
+                medicationId: dose.medicationId,
+                title: `Time for ${dose.name}`,
+                body: `Take ${dose.dose}`,
+                scheduledAt: dose.scheduledAt,
+              }
+              const record = adherence.get(dose.id)
+              return (
+                <View key={dose.id} style={styles.doseRow}>
+                  <MaterialCommunityIcons name="pill" size={18} color={getReminderColor('medication')} />
+                  <View style={styles.doseInfo}>
+                    <Text style={styles.doseName}>{dose.name}</Text>
+                    <Text style={styles.doseMeta}>
+                      {dose.dose} · {formatTime(dose.scheduledAt)}
+                    </Text>
+                  </View>
+                  {record && record.status !== 'snoozed' ? (
+                    <TouchableOpacity
+                      style={[styles.doseStatus, record.status === 'skipped' && styles.doseStatusSkipped]}
+                      onPress={() => handleUndoDose(target)}
+                      accessibilityLabel="Undo"
+                    >
+                      <Text style={styles.doseStatusText}>
+                        {record.status === 'taken' ? 'Taken' : 'Skipped'}
+                      </Text>
+                    </TouchableOpacity>
+                  ) : (
+                    <View style={styles.doseActions}>
+                      <TouchableOpacity style={styles.doseAction} onPress={() => handleRecordDose(target, 'taken')}>
+                        <MaterialIcons name="check" size={18} color="#4CAF50" />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.doseAction} onPress={() => setSkipTarget(target)}>
+                        <MaterialIcons name="close" size={18} color="#F44336" />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.doseAction, record?.status === 'snoozed' && styles.doseActionActive]}
+                        onPress={() => handleRecordDose(target, 'snoozed')}
+                      >
+                        <MaterialIcons name="snooze" size={18} color="#FFC107" />
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              )
+            })}
+          </View>
+        )}
+
         {getFilteredReminders().length === 0 ? (
           <View style={styles.emptyContainer}>
             <MaterialIcons name="notifications-none" size={64} color="#666" />
@@ -509,17 +721,28 @@ export default function RemindersScreen() {
             </Text>
           </View>
         ) : (
-          <View style={styles.remindersList}>
+          <View
+            style={styles.remindersList}
+            onLayout={(event) => { listY.current = event.nativeEvent.layout.y }}
+          >
             {getFilteredReminders().map((reminder) => (
-              <View key={reminder.id} style={styles.reminderCard}>
+              <View
+                key={reminder.id}
+                style={[styles.reminderCard, reminder.id === linkedReminderId && styles.reminderCardLinked]}
+                onLayout={(event) => {
+                  if (reminder.id === linkedReminderId) {
+                    scrollRef.current?.scrollTo({ y: listY.current + event.nativeEvent.layout.y, animated: true })
+                  }
+                }}
+              >
                 <TouchableOpacity
                   style={[
                     styles.reminderCheckbox,
-                    reminder.isCompleted && styles.reminderCheckboxChecked
+                    isReminderDone(reminder) && styles.reminderCheckboxChecked
                   ]}
                   onPress={() => handleToggleComplete(reminder)}
                 >
-                  {reminder.isCompleted && (
+                  {isReminderDone(reminder) && (
                     <MaterialIcons name="check" size={16} color="#fff" />
                   )}
                 </TouchableOpacity>
@@ -533,7 +756,7 @@ export default function RemindersScreen() {
                     />
                     <Text style={[
                       styles.reminderTitle,
-                      reminder.isCompleted && styles.reminderTitleCompleted
+                      isReminderDone(reminder) && styles.reminderTitleCompleted
                     ]}>
                       {reminder.title}
                     </Text>
@@ -549,7 +772,11 @@ export default function RemindersScreen() {
                     <View style={styles.reminderMetaItem}>
                       <MaterialIcons name="event" size={14} color="#888" />
                       <Text style={styles.reminderMetaText}>
-                        {formatDate(reminder.date)}
+                        {formatDate(
+                          reminder.isRecurring
+                            ? Timestamp.fromDate(getCurrentReminderOccurrence(reminder)?.scheduledAt ?? reminder.date.toDate())
+                            : reminder.date
+                        )}
                       </Text>
                     </View>
                     
@@ -560,11 +787,20 @@ export default function RemindersScreen() {
                       </Text>
                     </View>
                     
+                    {reminder.critical && (
+                      <View style={styles.reminderMetaItem}>
+                        <MaterialIcons name="priority-high" size={14} color="#FF5252" />
+                        <Text style={[styles.reminderMetaText, styles.criticalText]}>
+                          Critical
+                        </Text>
+                      </View>
+                    )}
+                    
                     {reminder.isRecurring && (
                       <View style={styles.reminderMetaItem}>
                         <MaterialIcons name="repeat" size={14} color="#888" />
                         <Text style={styles.reminderMetaText}>
-                          {reminder.recurringPattern}
+                          {describeRecurrence(getRecurrenceRule(reminder)!)}
                         </Text>
                       </View>
                     )}
@@ -572,6 +808,16 @@ export default function RemindersScreen() {
                 </View>
                 
                 <View style={styles.reminderActions}>
+                  {reminder.isRecurring && getCurrentReminderOccurrence(reminder) && (
+                    <TouchableOpacity
+                      style={styles.reminderAction}
+                      onPress={() => handleSkipOccurrence(reminder)}
+                      accessibilityLabel="Skip this occurrence"
+                    >
+                      <MaterialIcons name="event-busy" size={20} color="#FFC107" />
+                    </TouchableOpacity>
+                  )}
+
                   <TouchableOpacity
                     style={styles.reminderAction}
                     onPress={() => handleEditReminder(reminder)}
@@ -592,6 +838,37 @@ export default function RemindersScreen() {
         )}
       </ScrollView>
 
+      {/* Skip Reason Modal */}
+      <Modal
+        visible={skipTarget !== null}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setSkipTarget(null)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.skipContent}>
+            <Text style={styles.modalTitle}>Why are you skipping this dose?</Text>
+            <View style={styles.skipReasons}>
+              {SKIP_REASONS.map((reason) => (
+                <TouchableOpacity
+                  key={reason}
+                  style={styles.skipReason}
+                  onPress={() => {
+                    if (skipTarget) handleRecordDose(skipTarget, 'skipped', reason)
+                    setSkipTarget(null)
+                  }}
+                >
+                  <Text style={styles.skipReasonText}>{reason}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity onPress={() => setSkipTarget(null)}>
+              <Text style={styles.dosesLink}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
       {/* Add/Edit Reminder Modal */}
       <Modal
         visible={modalVisible}
@@ -793,6 +1070,107 @@ export default function RemindersScreen() {
                 </View>
               )}
 
+              {isRecurring && (
+                <View style={styles.recurrenceOptions}>
+                  <View style={styles.intervalRow}>
+                    <Text style={styles.inputLabel}>Every</Text>
+                    <TouchableOpacity
+                      style={styles.intervalButton}
+                      onPress={() => setRecurrenceInterval(Math.max(1, recurrenceInterval - 1))}
+                    >
+                      <MaterialIcons name="remove" size={18} color="#fff" />
+                    </TouchableOpacity>
+                    <Text style={styles.intervalValue}>{recurrenceInterval}</Text>
+                    <TouchableOpacity
+                      style={styles.intervalButton}
+                      onPress={() => setRecurrenceInterval(recurrenceInterval + 1)}
+                    >
+                      <MaterialIcons name="add" size={18} color="#fff" />
+                    </TouchableOpacity>
+                    <Text style={styles.inputLabel}>
+                      {recurrenceInterval === 1
+                        ? RECURRENCE_UNITS[recurringPattern].singular
+                        : RECURRENCE_UNITS[recurringPattern].plural}
+                    </Text>
+                  </View>
+
+                  {recurringPattern === 'weekly' && (
+                    <View style={styles.patternSelector}>
+                      {WEEKDAYS.map((label, day) => (
+                        <TouchableOpacity
+                          key={day}
+                          style={[styles.weekdayOption, byWeekday.includes(day) && styles.patternOptionSelected]}
+                          onPress={() =>
+                            setByWeekday(byWeekday.includes(day)
+                              ? byWeekday.filter(d => d !== day)
+                              : [...byWeekday, day].sort())
+                          }
+                        >
+                          <Text style={styles.patternOptionText}>{label}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+
+                  <Text style={styles.inputLabel}>Ends</Text>
+                  <View style={styles.patternSelector}>
+                    {([['never', 'Never'], ['count', 'After'], ['until', 'On date']] as const).map(([key, label]) => (
+                      <TouchableOpacity
+                        key={key}
+                        style={[styles.patternOption, recurrenceEnd === key && styles.patternOptionSelected]}
+                        onPress={() => setRecurrenceEnd(key)}
+                      >
+                        <Text style={[
+                          styles.patternOptionText,
+                          recurrenceEnd === key && styles.patternOptionTextSelected
+                        ]}>
+                          {label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  {recurrenceEnd === 'count' && (
+                    <View style={styles.intervalRow}>
+                      <TextInput
+                        style={[styles.input, styles.countInput]}
+                        value={recurrenceCount}
+                        onChangeText={setRecurrenceCount}
+                        keyboardType="number-pad"
+                      />
+                      <Text style={styles.inputLabel}>times</Text>
+                    </View>
+                  )}
+
+                  {recurrenceEnd === 'until' && (
+                    <TouchableOpacity
+                      style={styles.dateTimeButton}
+                      onPress={() => setShowUntilPicker(true)}
+                    >
+                      <MaterialIcons name="event" size={20} color="#4CAF50" />
+                      <Text style={styles.dateTimeButtonText}>
+                        {untilDate.toLocaleDateString()}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {showUntilPicker && (
+                    <DateTimePicker
+                      value={untilDate}
+                      mode="date"
+                      display="default"
+                      minimumDate={date}
+                      onChange={(event, selectedDate) => {
+                        setShowUntilPicker(false)
+                        if (selectedDate) {
+                          setUntilDate(selectedDate)
+                        }
+                      }}
+                    />
+                  )}
+                </View>
+              )}
+
               <View style={styles.switchContainer}>
                 <Text style={styles.switchLabel}>Enable Notifications</Text>
                 <Switch
@@ -803,6 +1181,25 @@ export default function RemindersScreen() {
                 />
               </View>
 
+              {type === 'medication' && (
+                <>
+                  <View style={styles.switchContainer}>
+                    <Text style={styles.switchLabel}>Critical Medication</Text>
+                    <Switch
+                      value={critical}
+                      onValueChange={setCritical}
+                      trackColor={{ false: '#333', true: '#FF5252' }}
+                      thumbColor={critical ? '#fff' : '#f4f3f4'}
+                    />
+                  </View>
+                  {critical && (
+                    <Text style={styles.criticalHint}>
+                      If a dose is not marked taken, you will be reminded again and then asked to message or call your emergency contact.
+                    </Text>
+                  )}
+                </>
+              )}
+
               <TouchableOpacity
                 style={styles.saveButton}
                 onPress={handleAddReminder}
@@ -861,6 +1258,107 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  dosesSection: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  dosesHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  dosesTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  dosesLink: {
+    color: '#00BFFF',
+    fontSize: 13,
+  },
+  doseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#2A2A2A',
+  },
+  doseInfo: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  doseName: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  doseMeta: {
+    color: '#888',
+    fontSize: 13,
+  },
+  doseActions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  doseAction: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#2A2A2A',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  doseActionActive: {
+    borderWidth: 1,
+    borderColor: '#FFC107',
+  },
+  doseStatus: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(76, 175, 80, 0.2)',
+  },
+  doseStatusSkipped: {
+    backgroundColor: 'rgba(244, 67, 54, 0.2)',
+  },
+  doseStatusText: {
+    color: '#fff',
+    fontSize: 12,
+  },
+  skipContent: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 16,
+    padding: 20,
+    margin: 24,
+    alignItems: 'center',
+  },
+  skipReasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginVertical: 16,
+  },
+  skipReason: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#00BFFF',
+  },
+  skipReasonText: {
+    color: '#00BFFF',
+    fontSize: 13,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerActionSpacing: {
+    marginRight: 8,
+  },
   refreshButton: {
     width: 40,
     height: 40,
@@ -922,6 +1420,10 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  reminderCardLinked: {
+    borderWidth: 1,
+    borderColor: '#00BFFF',
+  },
   reminderCheckbox: {
     width: 24,
     height: 24,
@@ -976,6 +1478,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginLeft: 4,
   },
+  criticalText: {
+    color: '#FF5252',
+  },
   reminderActions: {
     flexDirection: 'column',
     gap: 12,
@@ -1086,6 +1591,47 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontSize: 14,
   },
+  criticalHint: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  recurrenceOptions: {
+    marginBottom: 8,
+  },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  intervalButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#2A2A2A',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  intervalValue: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  weekdayOption: {
+    flex: 1,
+    backgroundColor: '#2A2A2A',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  countInput: {
+    width: 80,
+    marginBottom: 8,
+  },
   patternSelector: {
     flexDirection: 'row',
     gap: 8,
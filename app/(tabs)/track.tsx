@@ -23,17 +23,21 @@ import {
   setDoc,
   onSnapshot,
   Timestamp,
-  collection,
-  query,
-  orderBy,
-  limit,
-  getDocs,
   updateDoc,
   serverTimestamp,
 } from 'firebase/firestore'
 import { onAuthStateChanged } from 'firebase/auth'
-import { router } from 'expo-router'
+import { router, useLocalSearchParams } from 'expo-router'
 import { createDocument, getDocument, handleFirebaseError } from '../services/firebase'
+import {
+  addMetric,
+  AggregatePeriod,
+  getMetricAggregates,
+  HealthMetric,
+  MetricAggregate,
+  MetricCursor,
+  queryMetrics,
+} from '../services/metrics'
 
 const { width } = Dimensions.get('window')
 
@@ -62,15 +66,6 @@ interface VitalData {
   type: 'number' | 'string';
 }
 
-interface HealthMetric {
-  id: string;
-  type: string;
-  value: number | string;
-  unit: string;
-  timestamp: Timestamp;
-  notes?: string;
-}
-
 interface HealthData {
   vitals: {
     [key: string]: VitalData;
@@ -117,6 +112,26 @@ const defaultVitalConfigs: { [key: string]: VitalConfig } = {
   }
 };
 
+// History ranges; null days means everything
+const HISTORY_RANGES: { key: string; label: string; days: number | null }[] = [
+  { key: '7d', label: '7 days', days: 7 },
+  { key: '30d', label: '30 days', days: 30 },
+  { key: '90d', label: '90 days', days: 90 },
+  { key: 'all', label: 'All', days: null },
+]
+
+const HISTORY_MODES: { key: 'readings' | AggregatePeriod; label: string }[] = [
+  { key: 'readings', label: 'Readings' },
+  { key: 'day', label: 'Daily' },
+  { key: 'week', label: 'Weekly' },
+]
+
+const getRangeStart = (days: number | null) => {
+  if (days === null) return undefined
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() - days + 1)
+}
+
 const defaultVitalData: VitalData = {
   value: 0,
   unit: '',
@@ -152,11 +167,18 @@ export default function TrackScreen() {
   const [historyView, setHistoryView] = useState(false)
   const [metricHistory, setMetricHistory] = useState<HealthMetric[]>([])
   const [historyType, setHistoryType] = useState<string | null>(null)
+  const [historyRange, setHistoryRange] = useState(HISTORY_RANGES[1])
+  const [historyMode, setHistoryMode] = useState<'readings' | AggregatePeriod>('readings')
+  const [historyCursor, setHistoryCursor] = useState<MetricCursor | null>(null)
+  const [historyAggregates, setHistoryAggregates] = useState<MetricAggregate[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
   const [isAddingNewVital, setIsAddingNewVital] = useState(false)
   const [newVitalName, setNewVitalName] = useState('')
   const [newVitalUnit, setNewVitalUnit] = useState('')
   const [newVitalGoal, setNewVitalGoal] = useState('')
   const [newVitalType, setNewVitalType] = useState<'number' | 'string'>('number')
+  // Vital to log, from the Home vital cards, notification taps and neuracare://track?initialTab=… links
+  const { initialTab } = useLocalSearchParams<{ initialTab?: string }>()
 
   // Check authentication and load health data
   useEffect(() => {
@@ -172,6 +194,14 @@ export default function TrackScreen() {
     return () => unsubscribeAuth()
   }, [])
 
+  useEffect(() => {
+    if (!loading && initialTab && healthData.vitalConfigs[initialTab]) {
+      setSelectedVital(initialTab)
+      // Clear it so the same link opens the form again next time
+      router.setParams({ initialTab: undefined })
+    }
+  }, [initialTab, loading])
+
   const loadHealthData = async (uid: string) => {
     try {
       const healthDocRef = doc(db, 'health_data', uid);
@@ -294,20 +324,13 @@ export default function TrackScreen() {
       });
 
       // Add to metrics history
-      const metricRef = collection(db, 'health_data', userId, 'metrics');
-      const newMetric: HealthMetric = {
-        id: Date.now().toString(),
+      await addMetric(userId, {
         type,
         value,
         unit: vitalConfig.unit,
-        timestamp: newVital.timestamp
-      };
-      
-      if (notes && notes.trim() !== '') {
-        newMetric.notes = notes.trim();
-      }
-
-      await setDoc(doc(metricRef, newMetric.id), newMetric);
+        timestamp: newVital.timestamp,
+        notes: notes.trim()
+      });
       setSelectedVital(null);
       setNewValue('');
       setNotes('');
@@ -319,43 +342,46 @@ export default function TrackScreen() {
     }
   };
 
-  const loadMetricHistory = async (type: string) => {
+  // Readings page by page, or daily / weekly min, max and average for the range
+  const loadMetricHistory = async (
+    type: string,
+    range = historyRange,
+    mode = historyMode,
+    cursor: MetricCursor | null = null
+  ) => {
     if (!userId) return
 
     try {
-      setLoading(true)
+      setHistoryLoading(true)
       setHistoryType(type)
-      
-      const metricsRef = collection(db, 'health_data', userId, 'metrics')
-      const q = query(
-        metricsRef,
-        orderBy('timestamp', 'desc'),
-        limit(10)
-      )
-      
-      const querySnapshot = await getDocs(q)
-      const metrics: HealthMetric[] = []
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data() as HealthMetric
-        if (data.type === type) {
-          metrics.push({
-            ...data,
-            id: doc.id
-          })
-        }
-      })
-      
-      setMetricHistory(metrics)
+      setHistoryRange(range)
+      setHistoryMode(mode)
       setHistoryView(true)
+      
+      const from = getRangeStart(range.days)
+      if (mode === 'readings') {
+        if (!cursor) setMetricHistory([])
+        const page = await queryMetrics(userId, { type, from, cursor })
+        setMetricHistory(prev => (cursor ? [...prev, ...page.metrics] : page.metrics))
+        setHistoryCursor(page.cursor)
+      } else {
+        setHistoryAggregates(await getMetricAggregates(userId, type, mode, from))
+      }
     } catch (error) {
       console.error('Error loading metric history:', error)
       Alert.alert('Error', handleFirebaseError(error))
     } finally {
-      setLoading(false)
+      setHistoryLoading(false)
     }
   }
 
+  const formatAggregateStart = (aggregate: MetricAggregate) =>
+    historyMode === 'week'
+      ? `Week of ${aggregate.start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`
+      : aggregate.start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+
+  const formatReading = (value: number) => (Number.isInteger(value) ? value.toString() : value.toFixed(1))
+
   const getVitalStatus = (type: string, value: number | string): string => {
     const vitalConfig = healthData.vitalConfigs[type];
     if (!vitalConfig) return 'Unknown';
@@ -442,7 +468,38 @@ export default function TrackScreen() {
           </TouchableOpacity>
         </View>
         
-        {metricHistory.length === 0 ? (
+        <View style={styles.historyFilters}>
+          {HISTORY_RANGES.map((range) => (
+            <TouchableOpacity
+              key={range.key}
+              style={[styles.historyChip, historyRange.key === range.key && styles.historyChipSelected]}
+              onPress={() => loadMetricHistory(historyType, range)}
+            >
+              <Text style={[styles.historyChipText, historyRange.key === range.key && styles.historyChipTextSelected]}>
+                {range.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.historyFilters}>
+          {HISTORY_MODES.map((mode) => (
+            <TouchableOpacity
+              key={mode.key}
+              style={[styles.historyChip, historyMode === mode.key && styles.historyChipSelected]}
+              onPress={() => loadMetricHistory(historyType, historyRange, mode.key)}
+            >
+              <Text style={[styles.historyChipText, historyMode === mode.key && styles.historyChipTextSelected]}>
+                {mode.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        
+        {historyLoading && (historyMode !== 'readings' || metricHistory.length === 0) ? (
+          <ActivityIndicator style={styles.historySpinner} color="#00BFFF" />
+        ) : historyMode !== 'readings' ? (
+          renderAggregates()
+        ) : metricHistory.length === 0 ? (
           <View style={styles.emptyHistory}>
             <MaterialIcons name="history" size={48} color="#666" />
             <Text style={styles.emptyHistoryText}>No history available</Text>
@@ -472,12 +529,72 @@ export default function TrackScreen() {
                 )}
               </View>
             ))}
+            {historyCursor && (
+              <TouchableOpacity
+                style={styles.loadMoreButton}
+                onPress={() => loadMetricHistory(historyType, historyRange, 'readings', historyCursor)}
+                disabled={historyLoading}
+              >
+                {historyLoading ? (
+                  <ActivityIndicator color="#00BFFF" />
+                ) : (
+                  <Text style={styles.loadMoreText}>Load more</Text>
+                )}
+              </TouchableOpacity>
+            )}
           </ScrollView>
         )}
       </View>
     )
   }
 
+  // One row per day or week, with a bar from the period's min to max on a shared scale
+  const renderAggregates = () => {
+    if (historyAggregates.length === 0) {
+      return (
+        <View style={styles.emptyHistory}>
+          <MaterialIcons name="insert-chart-outlined" size={48} color="#666" />
+          <Text style={styles.emptyHistoryText}>No numeric readings in this range</Text>
+        </View>
+      )
+    }
+    
+    const unit = historyType ? healthData.vitalConfigs[historyType]?.unit ?? '' : ''
+    const low = Math.min(...historyAggregates.map((aggregate) => aggregate.min))
+    const high = Math.max(...historyAggregates.map((aggregate) => aggregate.max))
+    const span = high - low || 1
+    
+    return (
+      <ScrollView style={styles.historyList}>
+        {historyAggregates.map((aggregate) => (
+          <View key={aggregate.start.getTime()} style={styles.historyItem}>
+            <View style={styles.historyItemHeader}>
+              <Text style={styles.historyItemValueText}>
+                Avg {formatReading(aggregate.avg)} {unit}
+              </Text>
+              <Text style={styles.historyItemDate}>{formatAggregateStart(aggregate)}</Text>
+            </View>
+            <View style={styles.aggregateTrack}>
+              <View
+                style={[
+                  styles.aggregateBar,
+                  {
+                    left: `${((aggregate.min - low) / span) * 100}%`,
+                    width: `${Math.max(2, ((aggregate.max - aggregate.min) / span) * 100)}%`,
+                  },
+                ]}
+              />
+            </View>
+            <Text style={styles.aggregateDetail}>
+              Min {formatReading(aggregate.min)} · Max {formatReading(aggregate.max)} · {aggregate.count}{' '}
+              {aggregate.count === 1 ? 'reading' : 'readings'}
+            </Text>
+          </View>
+        ))}
+      </ScrollView>
+    )
+  }
+
   // Add new vital type
   const handleAddNewVital = async () => {
     if (!userId || !newVitalName || !newVitalUnit || !newVitalGoal) {
@@ -1172,6 +1289,60 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#00BFFF',
   },
+  historyFilters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  historyChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  historyChipSelected: {
+    borderColor: '#00BFFF',
+    backgroundColor: 'rgba(0, 191, 255, 0.15)',
+  },
+  historyChipText: {
+    color: '#888',
+    fontSize: 13,
+  },
+  historyChipTextSelected: {
+    color: '#00BFFF',
+  },
+  historySpinner: {
+    marginTop: 32,
+  },
+  loadMoreButton: {
+    padding: 12,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  loadMoreText: {
+    color: '#00BFFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  aggregateTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    marginBottom: 8,
+  },
+  aggregateBar: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    borderRadius: 4,
+    backgroundColor: '#00BFFF',
+  },
+  aggregateDetail: {
+    color: '#aaa',
+    fontSize: 12,
+  },
   emptyHistoryText: {
     color: '#00BFFF',
     fontSize: 16,
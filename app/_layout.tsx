@@ -1,4 +1,4 @@
-import { useEffect } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { Slot, Stack } from 'expo-router';
 import { useFonts } from 'expo-font'
 import { useRouter, useSegments } from 'expo-router';
@@ -8,6 +8,13 @@ import { View, Text } from 'react-native';
 import firebase from './config/firebase';
 import { useColorScheme } from '@/hooks/useColorScheme'
 import * as SplashScreen from 'expo-splash-screen';
+import * as Notifications from 'expo-notifications';
+import { registerNotificationCategories } from './services/doseNotifications';
+import { handleDoseNotificationResponse } from './services/adherence';
+import { reconcileNotifications } from './services/notificationScheduler';
+import { getNotificationHref } from './services/notificationLinks';
+import { handleEscalationResponse } from './services/escalations';
+import { refreshMedicalId } from './services/medicalId';
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync();
@@ -36,6 +43,43 @@ function useProtectedRoute(user: any, isLoading: boolean) {
   }, [user, segments, isLoading]);
 }
 
+// Taken / Snooze / Skip buttons update Firestore in place; plain taps open the linked screen
+function useNotificationResponses(user: any, isLoading: boolean) {
+  const router = useRouter();
+  // The listener and the last-response hook can both report the same response
+  const handled = useRef(new Set<string>());
+  const lastResponse = Notifications.useLastNotificationResponse();
+
+  const handleResponse = useCallback((response: Notifications.NotificationResponse) => {
+    const key = `${response.notification.request.identifier}:${response.notification.date}:${response.actionIdentifier}`;
+    if (handled.current.has(key)) return;
+    handled.current.add(key);
+
+    // Missed-dose follow-up: message or call the emergency contact
+    if (response.notification.request.content.data?.escalation === 'contact') {
+      handleEscalationResponse(response);
+      return;
+    }
+    if (response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+      handleDoseNotificationResponse(response);
+      return;
+    }
+    const href = getNotificationHref(response);
+    if (href) {
+      // Delay navigation to next tick to ensure layout is mounted
+      setTimeout(() => router.push(href), 0);
+    }
+  }, [router]);
+
+  // Wait for the signed-in user so responses that launched the app are not lost
+  useEffect(() => {
+    if (isLoading || !user) return;
+    if (lastResponse) handleResponse(lastResponse);
+    const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+    return () => subscription.remove();
+  }, [user, isLoading, lastResponse, handleResponse]);
+}
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
   const [user, setUser] = useState<any>(null);
@@ -48,12 +92,24 @@ export default function RootLayout() {
 
   useProtectedRoute(user, isLoading);
 
+  useEffect(() => {
+    registerNotificationCategories();
+  }, []);
+
+  useNotificationResponses(user, isLoading);
+
   useEffect(() => {
     if (!loaded) return;
 
     try {
       const unsubscribe = onAuthStateChanged(firebase.auth, (currentUser) => {
         setUser(currentUser);
+        // Drop notifications for reminders edited or deleted elsewhere and top up the window
+        if (currentUser) {
+          reconcileNotifications(currentUser.uid);
+          // Keep a current Medical ID on the device for the emergency screen offline
+          refreshMedicalId(currentUser.uid).catch(error => console.error('Error refreshing medical ID:', error));
+        }
         setIsLoading(false);
         SplashScreen.hideAsync();
       }, (error) => {
@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { MaterialIcons, MaterialCommunityIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { auth } from './config/firebase';
+import { searchMessages, SearchHit } from './services/chatSearch';
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const EXAMPLE_QUERIES = ['blood pressure last month', 'sleep', 'headache this week'];
+
+const formatHitDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const now = new Date();
+  if (date.getFullYear() === now.getFullYear()) {
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  }
+  return date.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+// Splits the snippet into plain and highlighted runs
+const renderSnippet = (hit: SearchHit) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  hit.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(hit.snippet.slice(cursor, start));
+    parts.push(
+      <Text key={index} style={styles.highlight}>
+        {hit.snippet.slice(start, end)}
+      </Text>
+    );
+    cursor = end;
+  });
+  if (cursor < hit.snippet.length) parts.push(hit.snippet.slice(cursor));
+  return <Text style={styles.snippet}>{parts}</Text>;
+};
+
+export default function ChatSearchScreen() {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    const uid = auth.currentUser?.uid;
+    if (!uid || !searchQuery.trim()) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+    setIsSearching(true);
+    const request = ++requestRef.current;
+    const timer = setTimeout(async () => {
+      try {
+        const hits = await searchMessages(uid, searchQuery);
+        // Ignore results for a query the user has already typed past
+        if (request === requestRef.current) setResults(hits);
+      } catch (error) {
+        console.error('Error searching chats:', error);
+      } finally {
+        if (request === requestRef.current) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const openHit = (hit: SearchHit) => {
+    router.navigate({
+      pathname: '/(tabs)/chat',
+      params: { sessionId: hit.message.sessionId, messageId: hit.message.messageId },
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton} accessibilityLabel="Back">
+          <MaterialIcons name="arrow-back" size={24} color="#00BFFF" />
+        </TouchableOpacity>
+        <View style={styles.searchBox}>
+          <MaterialIcons name="search" size={20} color="#888" />
+          <TextInput
+            style={styles.searchInput}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder="Search all chats..."
+            placeholderTextColor="#888"
+            autoFocus
+            returnKeyType="search"
+          />
+          {searchQuery !== '' && (
+            <TouchableOpacity onPress={() => setSearchQuery('')} accessibilityLabel="Clear search">
+              <MaterialIcons name="close" size={20} color="#888" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {isSearching && results.length === 0 ? (
+        <ActivityIndicator style={styles.spinner} color="#00BFFF" />
+      ) : (
+        <FlatList
+          data={results}
+          keyExtractor={hit => `${hit.message.sessionId}/${hit.message.messageId}`}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={styles.list}
+          renderItem={({ item: hit }) => (
+            <TouchableOpacity style={styles.hit} onPress={() => openHit(hit)}>
+              <View style={styles.hitHeader}>
+                <MaterialCommunityIcons
+                  name={hit.message.type === 'user' ? 'account' : 'robot'}
+                  size={16}
+                  color={hit.message.type === 'user' ? '#888' : '#00BFFF'}
+                />
+                <Text style={styles.sessionTitle} numberOfLines={1}>
+                  {hit.message.sessionTitle}
+                </Text>
+                <Text style={styles.hitDate}>{formatHitDate(hit.message.timestamp)}</Text>
+              </View>
+              {renderSnippet(hit)}
+            </TouchableOpacity>
+          )}
+          ListEmptyComponent={
+            searchQuery.trim() ? (
+              <Text style={styles.emptyText}>No messages match "{searchQuery.trim()}".</Text>
+            ) : (
+              <View style={styles.examples}>
+                <Text style={styles.emptyText}>Search everything you and Neuracare AI have discussed.</Text>
+                {EXAMPLE_QUERIES.map(example => (
+                  <TouchableOpacity key={example} style={styles.exampleChip} onPress={() => setSearchQuery(example)}>
+                    <Text style={styles.exampleText}>{example}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#121212' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    paddingTop: Platform.OS === 'ios' ? 50 : 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00BFFF',
+  },
+  backButton: { padding: 8, marginRight: 4 },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2A2A2A',
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#00BFFF',
+  },
+  searchInput: { flex: 1, color: '#fff', paddingVertical: 10, marginHorizontal: 8, fontSize: 16 },
+  spinner: { marginTop: 32 },
+  list: { padding: 16 },
+  hit: {
+    backgroundColor: 'rgba(30, 144, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  hitHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 6 },
+  sessionTitle: { color: '#00BFFF', fontSize: 13, fontWeight: 'bold', marginLeft: 6, flex: 1 },
+  hitDate: { color: '#888', fontSize: 12, marginLeft: 8 },
+  snippet: { color: '#ddd', fontSize: 14, lineHeight: 20 },
+  highlight: { color: '#fff', fontWeight: 'bold', backgroundColor: 'rgba(0, 191, 255, 0.35)' },
+  emptyText: { color: '#888', fontSize: 14, textAlign: 'center', marginTop: 24 },
+  examples: { alignItems: 'center' },
+  exampleChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#00BFFF',
+    marginTop: 12,
+  },
+  exampleText: { color: '#00BFFF', fontSize: 13 },
+});
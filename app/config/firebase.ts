@@ -1,5 +1,6 @@
 import { initializeApp, getApp, getApps, FirebaseApp } from 'firebase/app';
 import { getFirestore, Firestore } from 'firebase/firestore';
+import { getStorage, FirebaseStorage } from 'firebase/storage';
 import { initializeAuth, getReactNativePersistence, getAuth, Auth } from 'firebase/auth/react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import Constants from 'expo-constants';
@@ -18,6 +19,7 @@ const firebaseConfig = {
 let app: FirebaseApp;
 let auth: Auth;
 let db: Firestore;
+let storage: FirebaseStorage;
 
 try {
   // Initialize Firebase
@@ -34,12 +36,15 @@ try {
 
   // Initialize Firestore
   db = getFirestore(app);
+
+  // Initialize Storage (chat attachments)
+  storage = getStorage(app);
 } catch (error) {
   console.error("Firebase initialization error:", error);
   throw error;
 }
 
-const firebase = { app, auth, db };
+const firebase = { app, auth, db, storage };
 
-export { app, auth, db };
+export { app, auth, db, storage };
 export default firebase;
\ No newline at end of file
@@ -0,0 +1,41 @@
+import Constants from 'expo-constants';
+
+export type LLMProviderName = 'gemini' | 'openai' | 'mock';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  maxOutputTokens: number;
+  temperature: number;
+  contextTokenBudget: number;
+}
+
+const extra = Constants.expoConfig?.extra ?? {};
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: 'gemini-2.0-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'mock',
+};
+
+const resolveProvider = (value?: string): LLMProviderName => {
+  if (value === 'openai' || value === 'mock') return value;
+  return 'gemini';
+};
+
+const provider = resolveProvider(extra.LLM_PROVIDER);
+
+// Get LLM configuration from environment variables
+const llmConfig: LLMConfig = {
+  provider,
+  model: extra.LLM_MODEL || DEFAULT_MODELS[provider],
+  apiKey: provider === 'gemini' ? extra.GEMINI_API_KEY : extra.LLM_API_KEY,
+  baseUrl: extra.LLM_BASE_URL,
+  maxOutputTokens: 150, // Enforces concise responses
+  temperature: 0.5, // Ensures focused, accurate answers
+  contextTokenBudget: Number(extra.LLM_CONTEXT_TOKEN_BUDGET) || 800,
+};
+
+export default llmConfig;
@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Platform,
+  Switch,
+  Alert,
+  Linking,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { auth } from './config/firebase';
+import {
+  callEmergencyContact,
+  getCallUrl,
+  getCurrentLocationLink,
+  getEmergencyMessage,
+  messageEmergencyContact,
+} from './services/emergencyContact';
+import { getAge } from './services/healthContext';
+import {
+  getCachedMedicalId,
+  isMedicalIdOnLockScreen,
+  MedicalId,
+  refreshMedicalId,
+  setMedicalIdOnLockScreen,
+} from './services/medicalId';
+import { DEFAULT_EMERGENCY_NUMBER } from './services/triage';
+import { useEmergencyNumber } from '@/hooks/useEmergencyNumber';
+
+/**
+ * Emergency call, a message to the emergency contact and the Medical ID.
+ * Everything here works from the copy cached on the device, so it still
+ * opens without a connection.
+ */
+export default function EmergencyScreen() {
+  const [medicalId, setMedicalId] = useState<MedicalId | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isOffline, setIsOffline] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [onLockScreen, setOnLockScreen] = useState(false);
+
+  const uid = auth.currentUser?.uid;
+  const emergencyNumber = useEmergencyNumber();
+  const contact = medicalId?.emergencyContact;
+
+  useEffect(() => {
+    if (!uid) return;
+    const load = async () => {
+      const cached = await getCachedMedicalId(uid);
+      if (cached) setMedicalId(cached);
+      setOnLockScreen(await isMedicalIdOnLockScreen(uid));
+      setIsLoading(!cached);
+      try {
+        setMedicalId(await refreshMedicalId(uid));
+        setIsOffline(false);
+      } catch (error) {
+        console.error('Error refreshing medical ID:', error);
+        setIsOffline(true);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [uid]);
+
+  const callNumber = async (phoneNumber: string) => {
+    try {
+      await Linking.openURL(getCallUrl(phoneNumber));
+    } catch (error) {
+      console.error('Error opening dialer:', error);
+      Alert.alert('Unable to place call', `Please dial ${phoneNumber} manually.`);
+    }
+  };
+
+  const handleCallContact = async () => {
+    if (!contact) return;
+    try {
+      await callEmergencyContact(contact);
+    } catch (error) {
+      console.error('Error opening dialer:', error);
+      Alert.alert('Unable to place call', `Please dial ${contact.phoneNumber} manually.`);
+    }
+  };
+
+  const handleMessageContact = async () => {
+    if (!contact) return;
+    setIsLocating(true);
+    try {
+      const locationLink = await getCurrentLocationLink();
+      const firstName = medicalId?.name.split(' ')[0] ?? '';
+      await messageEmergencyContact(contact, getEmergencyMessage(contact, firstName, locationLink));
+    } catch (error) {
+      console.error('Error opening messages:', error);
+      Alert.alert('Unable to open messages', `Please contact ${contact.name} on ${contact.phoneNumber}.`);
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleLockScreenChange = async (enabled: boolean) => {
+    if (!uid) return;
+    setOnLockScreen(enabled);
+    try {
+      await setMedicalIdOnLockScreen(uid, medicalId, enabled);
+    } catch (error) {
+      console.error('Error updating lock screen medical ID:', error);
+      setOnLockScreen(!enabled);
+      Alert.alert('Error', 'Could not update the lock screen Medical ID. Check that notifications are allowed.');
+    }
+  };
+
+  const age = getAge(medicalId?.dateOfBirth);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton} accessibilityLabel="Back">
+          <MaterialIcons name="arrow-back" size={24} color="#F44336" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Emergency</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <TouchableOpacity
+          style={styles.callButton}
+          onPress={() => callNumber(emergencyNumber)}
+          accessibilityLabel={`Call emergency services on ${emergencyNumber}`}
+        >
+          <MaterialIcons name="call" size={28} color="#fff" />
+          <Text style={styles.callButtonText}>Call {emergencyNumber}</Text>
+        </TouchableOpacity>
+        {emergencyNumber !== DEFAULT_EMERGENCY_NUMBER && (
+          <TouchableOpacity
+            style={styles.fallbackCallButton}
+            onPress={() => callNumber(DEFAULT_EMERGENCY_NUMBER)}
+            accessibilityLabel={`Call emergency services on ${DEFAULT_EMERGENCY_NUMBER}`}
+          >
+            <Text style={styles.fallbackCallText}>or call {DEFAULT_EMERGENCY_NUMBER}</Text>
+          </TouchableOpacity>
+        )}
+
+        {contact ? (
+          <View style={styles.contactActions}>
+            <TouchableOpacity style={styles.contactButton} onPress={handleMessageContact} disabled={isLocating}>
+              {isLocating ? (
+                <ActivityIndicator color="#F44336" />
+              ) : (
+                <MaterialIcons name="sms" size={20} color="#F44336" />
+              )}
+              <Text style={styles.contactButtonText}>Message {contact.name}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.contactButton} onPress={handleCallContact}>
+              <MaterialIcons name="person" size={20} color="#F44336" />
+              <Text style={styles.contactButtonText}>Call {contact.name}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          !isLoading && (
+            <Text style={styles.hint}>Add an emergency contact in your profile to reach them from here.</Text>
+          )
+        )}
+        {contact && <Text style={styles.hint}>The message includes your location if you allow it.</Text>}
+
+        {isLoading ? (
+          <ActivityIndicator style={styles.spinner} color="#F44336" />
+        ) : medicalId ? (
+          <View style={styles.card} accessible accessibilityLabel="Medical ID">
+            <View style={styles.cardHeader}>
+              <MaterialIcons name="medical-services" size={22} color="#fff" />
+              <Text style={styles.cardHeaderText}>MEDICAL ID</Text>
+            </View>
+            <View style={styles.cardBody}>
+              <Text style={styles.name}>{medicalId.name || 'Name not set'}</Text>
+              {medicalId.dateOfBirth && (
+                <Text style={styles.value}>
+                  Born {medicalId.dateOfBirth}
+                  {age !== null ? ` (age ${age})` : ''}
+                </Text>
+              )}
+
+              <Text style={styles.label}>Blood type</Text>
+              <Text style={styles.bloodType}>{medicalId.bloodType || 'Unknown'}</Text>
+
+              <Text style={styles.label}>Allergies</Text>
+              <Text style={[styles.value, medicalId.allergies.length > 0 && styles.alert]}>
+                {medicalId.allergies.join(', ') || 'None known'}
+              </Text>
+
+              <Text style={styles.label}>Conditions</Text>
+              <Text style={styles.value}>{medicalId.conditions.join(', ') || 'None known'}</Text>
+
+              <Text style={styles.label}>Medications</Text>
+              {medicalId.medications.length > 0 ? (
+                medicalId.medications.map(medication => (
+                  <Text key={medication} style={styles.value}>
+                    • {medication}
+                  </Text>
+                ))
+              ) : (
+                <Text style={styles.value}>None</Text>
+              )}
+
+              {medicalId.emergencyContact && (
+                <>
+                  <Text style={styles.label}>Emergency contact</Text>
+                  <Text style={styles.value}>
+                    {medicalId.emergencyContact.name}
+                    {medicalId.emergencyContact.relationship ? ` (${medicalId.emergencyContact.relationship})` : ''}
+                  </Text>
+                  <Text style={styles.value}>{medicalId.emergencyContact.phoneNumber}</Text>
+                </>
+              )}
+            </View>
+            <Text style={styles.updated}>
+              Updated {new Date(medicalId.updatedAt).toLocaleDateString()}
+              {isOffline ? ' · offline copy' : ''}
+            </Text>
+          </View>
+        ) : (
+          <Text style={styles.hint}>
+            Your Medical ID could not be loaded. Connect to the internet once to save a copy on this phone.
+          </Text>
+        )}
+
+        {medicalId && (
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.switchLabel}>Show on lock screen</Text>
+              <Text style={styles.hint}>Keeps your Medical ID in your notifications so first responders can read it.</Text>
+            </View>
+            <Switch
+              value={onLockScreen}
+              onValueChange={handleLockScreenChange}
+              trackColor={{ false: '#444', true: '#F44336' }}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#121212' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    paddingTop: Platform.OS === 'ios' ? 50 : 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F44336',
+  },
+  backButton: { padding: 8, marginRight: 4 },
+  headerTitle: { color: '#fff', fontSize: 20, fontWeight: 'bold', flex: 1 },
+  content: { padding: 16 },
+  spinner: { marginTop: 32 },
+  callButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#D32F2F',
+    borderRadius: 16,
+    paddingVertical: 18,
+  },
+  callButtonText: { color: '#fff', fontSize: 22, fontWeight: 'bold', marginLeft: 10 },
+  fallbackCallButton: { alignItems: 'center', paddingVertical: 10 },
+  fallbackCallText: { color: '#F44336', fontSize: 16, fontWeight: 'bold' },
+  contactActions: { flexDirection: 'row', gap: 8, marginTop: 12 },
+  contactButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#F44336',
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  contactButtonText: { color: '#fff', fontSize: 14, fontWeight: 'bold', marginLeft: 6 },
+  hint: { color: '#888', fontSize: 12, marginTop: 8 },
+  // Black on white with large type so the card reads in sunlight and at a glance
+  card: { backgroundColor: '#fff', borderRadius: 12, overflow: 'hidden', marginTop: 24 },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#D32F2F', padding: 12 },
+  cardHeaderText: { color: '#fff', fontSize: 18, fontWeight: 'bold', letterSpacing: 1, marginLeft: 8 },
+  cardBody: { padding: 16 },
+  name: { color: '#000', fontSize: 24, fontWeight: 'bold' },
+  label: { color: '#555', fontSize: 13, fontWeight: 'bold', textTransform: 'uppercase', marginTop: 14 },
+  value: { color: '#000', fontSize: 18, marginTop: 2 },
+  bloodType: { color: '#D32F2F', fontSize: 28, fontWeight: 'bold' },
+  alert: { color: '#D32F2F', fontWeight: 'bold' },
+  updated: { color: '#555', fontSize: 12, paddingHorizontal: 16, paddingBottom: 12 },
+  switchRow: { flexDirection: 'row', alignItems: 'center', marginTop: 16 },
+  switchText: { flex: 1, marginRight: 12 },
+  switchLabel: { color: '#fff', fontSize: 16 },
+});
@@ -0,0 +1,731 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Platform,
+  Modal,
+  TextInput,
+  Switch,
+  Alert,
+} from 'react-native';
+import { MaterialIcons, MaterialCommunityIcons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { router } from 'expo-router';
+import { collection, doc, getDoc, getDocs, query, Timestamp, where } from 'firebase/firestore';
+import { auth, db } from './config/firebase';
+import {
+  checkNewMedication,
+  HealthProfileContext,
+  matchDrugs,
+  reviewMedications,
+  Severity,
+} from './services/drugKnowledge';
+import {
+  deleteMedication,
+  formatDose,
+  formatScheduleDays,
+  getDaysOfSupply,
+  getUpcomingDoses,
+  Medication,
+  MEDICATION_FORMS,
+  MedicationForm,
+  MedicationInput,
+  needsRefill,
+  saveMedication,
+  subscribeToMedications,
+  WEEKDAY_LABELS,
+} from './services/medications';
+import { reconcileNotifications } from './services/notificationScheduler';
+import { ADHERENCE_PERIODS, AdherenceRecord, getAdherenceStats, subscribeToAdherence } from './services/adherence';
+
+const SEVERITY_STYLES: Record<Severity, { label: string; color: string; icon: keyof typeof MaterialIcons.glyphMap }> = {
+  major: { label: 'Serious', color: '#F44336', icon: 'error' },
+  moderate: { label: 'Caution', color: '#FF9800', icon: 'warning' },
+  minor: { label: 'Minor', color: '#FFC107', icon: 'info' },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTimeString = (date: Date) =>
+  `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const parseCount = (value: string) => (value.trim() === '' ? undefined : Math.max(0, parseInt(value, 10) || 0));
+
+interface MedicationFormState {
+  name: string;
+  strength: string;
+  form: MedicationForm;
+  dose: string;
+  times: string[];
+  daysOfWeek: number[];
+  startDate: Date;
+  endDate: Date | null;
+  pillCount: string;
+  refillThreshold: string;
+  notes: string;
+  notificationEnabled: boolean;
+  critical: boolean;
+}
+
+const EMPTY_FORM: MedicationFormState = {
+  name: '',
+  strength: '',
+  form: 'tablet',
+  dose: '1',
+  times: ['08:00'],
+  daysOfWeek: [],
+  startDate: startOfDay(new Date()),
+  endDate: null,
+  pillCount: '',
+  refillThreshold: '',
+  notes: '',
+  notificationEnabled: true,
+  critical: false,
+};
+
+const toFormState = (medication: Medication): MedicationFormState => ({
+  name: medication.name,
+  strength: medication.strength || '',
+  form: medication.form,
+  dose: medication.dose.toString(),
+  times: medication.schedule.times,
+  daysOfWeek: medication.schedule.daysOfWeek,
+  startDate: medication.startDate.toDate(),
+  endDate: medication.endDate?.toDate() ?? null,
+  pillCount: medication.pillCount?.toString() ?? '',
+  refillThreshold: medication.refillThreshold?.toString() ?? '',
+  notes: medication.notes || '',
+  notificationEnabled: medication.notificationEnabled,
+  critical: !!medication.critical,
+});
+
+export default function MedicationsScreen() {
+  const [medications, setMedications] = useState<Medication[]>([]);
+  // Titles of older free-text medication reminders, still included in the interaction check
+  const [reminderTitles, setReminderTitles] = useState<string[]>([]);
+  const [profile, setProfile] = useState<HealthProfileContext>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formVisible, setFormVisible] = useState(false);
+  const [form, setForm] = useState<MedicationFormState>(EMPTY_FORM);
+  const [picker, setPicker] = useState<'time' | 'startDate' | 'endDate' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [adherence, setAdherence] = useState<Map<string, AdherenceRecord>>(new Map());
+  const [adherenceDays, setAdherenceDays] = useState(ADHERENCE_PERIODS[0]);
+
+  const uid = auth.currentUser?.uid;
+
+  useEffect(() => {
+    if (!uid) return;
+    const load = async () => {
+      try {
+        const [reminders, userDoc] = await Promise.all([
+          getDocs(query(collection(db, 'users', uid, 'reminders'), where('type', '==', 'medication'))),
+          getDoc(doc(db, 'users', uid)),
+        ]);
+        // One entry per medication, however many reminders it has
+        const titles = new Map<string, string>();
+        reminders.forEach(reminder => {
+          const { title, isCompleted } = reminder.data();
+          if (title && !isCompleted) titles.set(title.trim().toLowerCase(), title.trim());
+        });
+        setReminderTitles(Array.from(titles.values()));
+        if (userDoc.exists()) {
+          const { allergies, conditions } = userDoc.data();
+          setProfile({ allergies, conditions });
+        }
+      } catch (error) {
+        console.error('Error loading medication context:', error);
+      }
+    };
+    load();
+    return subscribeToMedications(uid, list => {
+      setMedications(list);
+      setIsLoading(false);
+      reconcileNotifications(uid);
+    });
+  }, [uid]);
+
+  // Enough history for the longest adherence period
+  useEffect(() => {
+    if (!uid) return;
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - ADHERENCE_PERIODS[ADHERENCE_PERIODS.length - 1]);
+    return subscribeToAdherence(uid, since, setAdherence);
+  }, [uid]);
+
+  const review = reviewMedications([...medications.map(med => med.name), ...reminderTitles], profile);
+  const now = new Date();
+  const nextDoses = getUpcomingDoses(medications, now, new Date(now.getTime() + 7 * DAY_MS));
+
+  const updateForm = (changes: Partial<MedicationFormState>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const openForm = (medication?: Medication) => {
+    setEditingId(medication?.id ?? null);
+    setForm(medication ? toFormState(medication) : { ...EMPTY_FORM, startDate: startOfDay(new Date()) });
+    setFormVisible(true);
+  };
+
+  const toggleDay = (day: number) =>
+    updateForm({
+      daysOfWeek: form.daysOfWeek.includes(day)
+        ? form.daysOfWeek.filter(item => item !== day)
+        : [...form.daysOfWeek, day],
+    });
+
+  const handlePickerChange = (event: any, value?: Date) => {
+    const target = picker;
+    setPicker(null);
+    if (event?.type === 'dismissed' || !value) return;
+    if (target === 'time') {
+      const time = toTimeString(value);
+      if (!form.times.includes(time)) updateForm({ times: [...form.times, time].sort() });
+    } else if (target === 'startDate') {
+      updateForm({ startDate: startOfDay(value) });
+    } else if (target === 'endDate') {
+      updateForm({ endDate: startOfDay(value) });
+    }
+  };
+
+  const persist = async (input: MedicationInput) => {
+    if (!uid) return;
+    try {
+      setIsSaving(true);
+      await saveMedication(uid, input, editingId ?? undefined);
+      setFormVisible(false);
+    } catch (error) {
+      console.error('Error saving medication:', error);
+      Alert.alert('Error', 'Failed to save the medication. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const dose = parseFloat(form.dose);
+    if (!form.name.trim()) {
+      Alert.alert('Error', 'Please enter the medication name');
+      return;
+    }
+    if (!(dose > 0)) {
+      Alert.alert('Error', 'Please enter a dose greater than zero');
+      return;
+    }
+    if (form.times.length === 0) {
+      Alert.alert('Error', 'Please add at least one time of day');
+      return;
+    }
+    if (form.endDate && form.endDate < form.startDate) {
+      Alert.alert('Error', 'The end date must be on or after the start date');
+      return;
+    }
+
+    const input: MedicationInput = {
+      name: form.name,
+      strength: form.strength,
+      form: form.form,
+      dose,
+      schedule: { times: form.times, daysOfWeek: form.daysOfWeek.length === 7 ? [] : form.daysOfWeek },
+      startDate: Timestamp.fromDate(form.startDate),
+      endDate: form.endDate ? Timestamp.fromDate(form.endDate) : undefined,
+      pillCount: parseCount(form.pillCount),
+      refillThreshold: parseCount(form.refillThreshold),
+      notes: form.notes,
+      notificationEnabled: form.notificationEnabled,
+      critical: form.critical,
+    };
+
+    const others = [...medications.filter(med => med.id !== editingId).map(med => med.name), ...reminderTitles];
+    const { warnings } = checkNewMedication(input.name, others, profile);
+    if (warnings.length > 0) {
+      Alert.alert(
+        warnings.some(w => w.severity === 'major') ? 'Serious Medication Warning' : 'Medication Warning',
+        `${warnings.map(w => `• ${w.message}`).join('\n')}\n\nCheck with your doctor or pharmacist before taking these.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Save Anyway', onPress: () => persist(input) },
+        ]
+      );
+      return;
+    }
+    persist(input);
+  };
+
+  const handleDelete = (medication: Medication) => {
+    if (!uid) return;
+    Alert.alert('Delete Medication', `Remove ${medication.name} and its dose reminders?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteMedication(uid, medication.id);
+          } catch (error) {
+            console.error('Error deleting medication:', error);
+            Alert.alert('Error', 'Failed to delete the medication.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const recognized = form.name.trim() ? matchDrugs(form.name) : [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton} accessibilityLabel="Back">
+          <MaterialIcons name="arrow-back" size={24} color="#00BFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>My Medications</Text>
+        <TouchableOpacity onPress={() => openForm()} style={styles.addButton} accessibilityLabel="Add medication">
+          <MaterialIcons name="add" size={24} color="#00BFFF" />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.spinner} color="#00BFFF" />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Medications</Text>
+            {medications.length > 0 && (
+              <View style={styles.periods}>
+                {ADHERENCE_PERIODS.map(days => (
+                  <TouchableOpacity
+                    key={days}
+                    style={[styles.period, adherenceDays === days && styles.periodSelected]}
+                    onPress={() => setAdherenceDays(days)}
+                  >
+                    <Text style={[styles.periodText, adherenceDays === days && styles.periodTextSelected]}>
+                      {days}d
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+          {medications.length === 0 && (
+            <Text style={styles.emptyText}>
+              Add a medication with its dose and schedule, and Neuracare will remind you of every dose.
+            </Text>
+          )}
+          {medications.map(medication => {
+            const daysOfSupply = getDaysOfSupply(medication);
+            const nextDose = nextDoses.find(dose => dose.medicationId === medication.id);
+            const stats = getAdherenceStats(medication, adherence, adherenceDays, now);
+            return (
+              <TouchableOpacity key={medication.id} style={styles.medication} onPress={() => openForm(medication)}>
+                <MaterialCommunityIcons name="pill" size={22} color="#FF5722" />
+                <View style={styles.medicationInfo}>
+                  <Text style={styles.medicationTitle}>
+                    {medication.name}
+                    {medication.critical ? <Text style={styles.criticalText}> · Critical</Text> : null}
+                  </Text>
+                  <Text style={styles.medicationDetail}>
+                    {formatDose(medication)} · {medication.schedule.times.map(formatTime).join(', ')}
+                  </Text>
+                  <Text style={styles.medicationDetail}>
+                    {formatScheduleDays(medication.schedule)}
+                    {medication.endDate ? ` until ${formatDate(medication.endDate.toDate())}` : ''}
+                  </Text>
+                  {nextDose && (
+                    <Text style={styles.medicationDetail}>
+                      Next: {nextDose.scheduledAt.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}
+                    </Text>
+                  )}
+                  {stats.percentage !== null && (
+                    <Text style={styles.medicationDetail}>
+                      Adherence: {stats.percentage}% ({stats.taken}/{stats.scheduled} taken
+                      {stats.skipped ? `, ${stats.skipped} skipped` : ''})
+                    </Text>
+                  )}
+                  {medication.pillCount !== undefined && (
+                    <Text style={[styles.medicationDetail, needsRefill(medication) && styles.refillText]}>
+                      {medication.pillCount} left
+                      {daysOfSupply !== null ? ` · about ${daysOfSupply} days` : ''}
+                      {needsRefill(medication) ? ' · Refill soon' : ''}
+                    </Text>
+                  )}
+                </View>
+                <TouchableOpacity
+                  style={styles.deleteButton}
+                  onPress={() => handleDelete(medication)}
+                  accessibilityLabel={`Delete ${medication.name}`}
+                >
+                  <MaterialIcons name="delete" size={20} color="#F44336" />
+                </TouchableOpacity>
+              </TouchableOpacity>
+            );
+          })}
+
+          {reminderTitles.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>From Reminders</Text>
+              {reminderTitles.map(title => (
+                <View key={title} style={styles.medication}>
+                  <MaterialCommunityIcons name="bell-outline" size={20} color="#888" />
+                  <View style={styles.medicationInfo}>
+                    <Text style={styles.medicationTitle}>{title}</Text>
+                  </View>
+                </View>
+              ))}
+            </>
+          )}
+
+          {review.medications.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Safety Check</Text>
+              {review.warnings.length === 0 ? (
+                <View style={styles.allClear}>
+                  <MaterialIcons name="check-circle" size={20} color="#4CAF50" />
+                  <Text style={styles.allClearText}>No known interactions or conflicts found.</Text>
+                </View>
+              ) : (
+                review.warnings.map((warning, index) => {
+                  const severity = SEVERITY_STYLES[warning.severity];
+                  return (
+                    <View key={index} style={[styles.warning, { borderLeftColor: severity.color }]}>
+                      <View style={styles.warningHeader}>
+                        <MaterialIcons name={severity.icon} size={16} color={severity.color} />
+                        <Text style={[styles.warningSeverity, { color: severity.color }]}>
+                          {severity.label} · {warning.kind === 'interaction' ? 'Interaction' : warning.kind === 'allergy' ? 'Allergy' : 'Condition'}
+                        </Text>
+                      </View>
+                      <Text style={styles.warningText}>{warning.message}</Text>
+                    </View>
+                  );
+                })
+              )}
+              {review.medications.some(med => med.drugs.length === 0) && (
+                <Text style={styles.hint}>
+                  Not recognized, so not checked:{' '}
+                  {review.medications.filter(med => med.drugs.length === 0).map(med => med.title).join(', ')}
+                </Text>
+              )}
+              <Text style={styles.profileText}>Allergies: {profile.allergies?.join(', ') || 'None listed'}</Text>
+              <Text style={styles.profileText}>Conditions: {profile.conditions?.join(', ') || 'None listed'}</Text>
+            </>
+          )}
+
+          <Text style={styles.disclaimer}>
+            This check uses a built-in list of common medicines and does not cover every interaction. Always
+            confirm with your doctor or pharmacist before starting, stopping or combining medicines.
+          </Text>
+        </ScrollView>
+      )}
+
+      <Modal visible={formVisible} animationType="slide" transparent onRequestClose={() => setFormVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editingId ? 'Edit Medication' : 'Add Medication'}</Text>
+              <TouchableOpacity onPress={() => setFormVisible(false)} accessibilityLabel="Close">
+                <MaterialIcons name="close" size={24} color="#888" />
+              </TouchableOpacity>
+            </View>
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                value={form.name}
+                onChangeText={name => updateForm({ name })}
+                placeholder="e.g. Atorvastatin"
+                placeholderTextColor="#666"
+              />
+              {recognized.length > 0 && (
+                <Text style={styles.hint}>Recognized as {recognized.map(drug => drug.name).join(', ')}</Text>
+              )}
+
+              <Text style={styles.label}>Strength</Text>
+              <TextInput
+                style={styles.input}
+                value={form.strength}
+                onChangeText={strength => updateForm({ strength })}
+                placeholder="e.g. 20 mg"
+                placeholderTextColor="#666"
+              />
+
+              <Text style={styles.label}>Form</Text>
+              <View style={styles.chipRow}>
+                {MEDICATION_FORMS.map(option => (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={[styles.chip, form.form === option.key && styles.chipSelected]}
+                    onPress={() => updateForm({ form: option.key })}
+                  >
+                    <Text style={[styles.chipText, form.form === option.key && styles.chipTextSelected]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.label}>
+                Dose ({MEDICATION_FORMS.find(option => option.key === form.form)?.unit} per intake)
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={form.dose}
+                onChangeText={dose => updateForm({ dose })}
+                keyboardType="decimal-pad"
+                placeholderTextColor="#666"
+              />
+
+              <Text style={styles.label}>Times</Text>
+              <View style={styles.chipRow}>
+                {form.times.map(time => (
+                  <TouchableOpacity
+                    key={time}
+                    style={[styles.chip, styles.chipSelected]}
+                    onPress={() => updateForm({ times: form.times.filter(item => item !== time) })}
+                    accessibilityLabel={`Remove ${formatTime(time)}`}
+                  >
+                    <Text style={[styles.chipText, styles.chipTextSelected]}>{formatTime(time)} ✕</Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity style={styles.chip} onPress={() => setPicker('time')}>
+                  <Text style={styles.chipText}>+ Add time</Text>
+                </TouchableOpacity>
+              </View>
+
+              <Text style={styles.label}>Days</Text>
+              <View style={styles.chipRow}>
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <TouchableOpacity
+                    key={label}
+                    style={[styles.dayChip, form.daysOfWeek.includes(day) && styles.chipSelected]}
+                    onPress={() => toggleDay(day)}
+                  >
+                    <Text style={[styles.chipText, form.daysOfWeek.includes(day) && styles.chipTextSelected]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.hint}>
+                {form.daysOfWeek.length === 0 ? 'Every day' : 'Only on the selected days'}
+              </Text>
+
+              <View style={styles.row}>
+                <View style={styles.rowItem}>
+                  <Text style={styles.label}>Start</Text>
+                  <TouchableOpacity style={styles.input} onPress={() => setPicker('startDate')}>
+                    <Text style={styles.inputText}>{formatDate(form.startDate)}</Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.rowItem}>
+                  <Text style={styles.label}>End (optional)</Text>
+                  <TouchableOpacity style={[styles.input, styles.dateInput]} onPress={() => setPicker('endDate')}>
+                    <Text style={styles.inputText}>{form.endDate ? formatDate(form.endDate) : 'Ongoing'}</Text>
+                    {form.endDate && (
+                      <TouchableOpacity onPress={() => updateForm({ endDate: null })} accessibilityLabel="Clear end date">
+                        <MaterialIcons name="close" size={16} color="#888" />
+                      </TouchableOpacity>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              <View style={styles.row}>
+                <View style={styles.rowItem}>
+                  <Text style={styles.label}>Pills left</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.pillCount}
+                    onChangeText={pillCount => updateForm({ pillCount })}
+                    keyboardType="number-pad"
+                    placeholder="Optional"
+                    placeholderTextColor="#666"
+                  />
+                </View>
+                <View style={styles.rowItem}>
+                  <Text style={styles.label}>Refill at</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.refillThreshold}
+                    onChangeText={refillThreshold => updateForm({ refillThreshold })}
+                    keyboardType="number-pad"
+                    placeholder="Optional"
+                    placeholderTextColor="#666"
+                  />
+                </View>
+              </View>
+
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={styles.input}
+                value={form.notes}
+                onChangeText={notes => updateForm({ notes })}
+                placeholder="e.g. Take with food"
+                placeholderTextColor="#666"
+              />
+
+              <View style={styles.switchRow}>
+                <Text style={styles.label}>Dose notifications</Text>
+                <Switch
+                  value={form.notificationEnabled}
+                  onValueChange={notificationEnabled => updateForm({ notificationEnabled })}
+                  trackColor={{ false: '#444', true: '#00BFFF' }}
+                />
+              </View>
+
+              <View style={styles.switchRow}>
+                <Text style={styles.label}>Critical medication</Text>
+                <Switch
+                  value={form.critical}
+                  onValueChange={critical => updateForm({ critical })}
+                  trackColor={{ false: '#444', true: '#FF5252' }}
+                />
+              </View>
+              {form.critical && (
+                <Text style={styles.hint}>
+                  Missed doses remind you again, then ask you to message or call your emergency contact.
+                </Text>
+              )}
+
+              <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+                {isSaving ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.saveButtonText}>{editingId ? 'Save Changes' : 'Add Medication'}</Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+
+            {picker && (
+              <DateTimePicker
+                value={
+                  picker === 'time'
+                    ? new Date()
+                    : picker === 'startDate'
+                      ? form.startDate
+                      : form.endDate ?? form.startDate
+                }
+                mode={picker === 'time' ? 'time' : 'date'}
+                onChange={handlePickerChange}
+              />
+            )}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#121212' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    paddingTop: Platform.OS === 'ios' ? 50 : 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#00BFFF',
+  },
+  backButton: { padding: 8, marginRight: 4 },
+  headerTitle: { color: '#fff', fontSize: 20, fontWeight: 'bold', flex: 1 },
+  addButton: { padding: 8 },
+  spinner: { marginTop: 32 },
+  content: { padding: 16 },
+  sectionTitle: { color: '#fff', fontSize: 16, fontWeight: 'bold', marginTop: 8, marginBottom: 12 },
+  sectionHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  periods: { flexDirection: 'row', gap: 6 },
+  period: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12, borderWidth: 1, borderColor: '#333' },
+  periodSelected: { borderColor: '#00BFFF', backgroundColor: 'rgba(0, 191, 255, 0.15)' },
+  periodText: { color: '#888', fontSize: 12 },
+  periodTextSelected: { color: '#00BFFF' },
+  allClear: { flexDirection: 'row', alignItems: 'center', marginBottom: 16 },
+  allClearText: { color: '#ddd', fontSize: 14, marginLeft: 8 },
+  warning: {
+    backgroundColor: '#1E1E1E',
+    borderLeftWidth: 4,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  warningHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 4 },
+  warningSeverity: { fontSize: 12, fontWeight: 'bold', marginLeft: 6 },
+  warningText: { color: '#ddd', fontSize: 14, lineHeight: 20 },
+  medication: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1E1E1E',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  medicationInfo: { marginLeft: 12, flex: 1 },
+  medicationTitle: { color: '#fff', fontSize: 15 },
+  medicationDetail: { color: '#888', fontSize: 13, marginTop: 2 },
+  refillText: { color: '#FF9800' },
+  criticalText: { color: '#FF5252', fontSize: 12 },
+  deleteButton: { padding: 8 },
+  hint: { color: '#888', fontSize: 12, marginBottom: 8 },
+  profileText: { color: '#ddd', fontSize: 14, marginBottom: 6 },
+  emptyText: { color: '#888', fontSize: 14, marginBottom: 16 },
+  disclaimer: { color: '#666', fontSize: 12, lineHeight: 18, marginTop: 24 },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0, 0, 0, 0.7)', justifyContent: 'flex-end' },
+  modalContent: {
+    backgroundColor: '#1E1E1E',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    maxHeight: '90%',
+  },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 },
+  modalTitle: { color: '#fff', fontSize: 18, fontWeight: 'bold' },
+  label: { color: '#888', fontSize: 14, marginTop: 12, marginBottom: 6 },
+  input: { backgroundColor: '#2A2A2A', borderRadius: 8, padding: 12, color: '#fff' },
+  inputText: { color: '#fff' },
+  dateInput: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap' },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#444',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  dayChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#444',
+    marginRight: 6,
+    marginBottom: 8,
+  },
+  chipSelected: { borderColor: '#00BFFF', backgroundColor: 'rgba(0, 191, 255, 0.15)' },
+  chipText: { color: '#888', fontSize: 13 },
+  chipTextSelected: { color: '#00BFFF' },
+  row: { flexDirection: 'row', marginHorizontal: -6 },
+  rowItem: { flex: 1, marginHorizontal: 6 },
+  switchRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 8 },
+  saveButton: {
+    backgroundColor: '#00BFFF',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    marginTop: 20,
+    marginBottom: 16,
+  },
+  saveButtonText: { color: '#fff', fontSize: 16, fontWeight: 'bold' },
+});
@@ -0,0 +1,199 @@
+import * as Notifications from 'expo-notifications';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  increment,
+  onSnapshot,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { auth, db } from '../config/firebase';
+import {
+  cancelEscalations,
+  DOSE_CATEGORY,
+  DoseTarget,
+  SNOOZE_MINUTES,
+  toDoseNotificationData,
+} from './doseNotifications';
+import { getOccurrences, Medication } from './medications';
+import { toDateKey } from './recurrence';
+
+export type AdherenceStatus = 'taken' | 'skipped' | 'snoozed';
+
+// Stored in users/{uid}/adherence, keyed by occurrence id so each dose has one current record
+export interface AdherenceRecord {
+  occurrenceId: string;
+  medicationId?: string;
+  reminderId?: string;
+  scheduledAt: Timestamp;
+  status: AdherenceStatus;
+  reason?: string; // Why a dose was skipped
+  snoozedUntil?: Timestamp;
+  recordedAt: Timestamp;
+}
+
+export const SKIP_REASONS = ['Felt unwell', 'Side effects', 'Ran out', 'Forgot to bring it', 'Doctor advised', 'Other'];
+
+export const ADHERENCE_PERIODS = [7, 30, 90];
+
+// Recurring reminders get one record per day instead of being completed once
+export const reminderOccurrenceId = (reminderId: string, day: Date) => `${reminderId}@${toDateKey(day)}`;
+
+const adherenceDoc = (uid: string, occurrenceId: string) => doc(db, 'users', uid, 'adherence', occurrenceId);
+
+const scheduleSnoozeNotification = async (target: DoseTarget, until: Date) => {
+  await Notifications.scheduleNotificationAsync({
+    identifier: `snooze:${target.occurrenceId}`,
+    content: {
+      title: target.title,
+      body: target.body || 'Snoozed reminder',
+      sound: true,
+      categoryIdentifier: DOSE_CATEGORY,
+      data: { ...toDoseNotificationData(target), reminderType: target.medicationId ? 'medication' : 'reminder' },
+    },
+    trigger: { channelId: 'reminders', date: until },
+  });
+};
+
+/**
+ * Records what happened to a dose, replacing any earlier record for it.
+ * Taking a dose counts down the medication's pill count, once per dose.
+ */
+export const recordDose = async (
+  uid: string,
+  target: DoseTarget,
+  status: AdherenceStatus,
+  options: { reason?: string; dose?: number } = {}
+) => {
+  const ref = adherenceDoc(uid, target.occurrenceId);
+  const previous = await getDoc(ref);
+  const wasTaken = previous.exists() && previous.data().status === 'taken';
+
+  const record: Record<string, any> = {
+    occurrenceId: target.occurrenceId,
+    scheduledAt: Timestamp.fromDate(target.scheduledAt),
+    status,
+    recordedAt: Timestamp.now(),
+  };
+  if (target.medicationId) record.medicationId = target.medicationId;
+  if (target.reminderId) record.reminderId = target.reminderId;
+  if (options.reason) record.reason = options.reason;
+
+  await Notifications.cancelScheduledNotificationAsync(`snooze:${target.occurrenceId}`).catch(() => {});
+  if (status !== 'snoozed') {
+    await cancelEscalations(target.occurrenceId);
+  } else {
+    const until = new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000);
+    record.snoozedUntil = Timestamp.fromDate(until);
+    await scheduleSnoozeNotification(target, until);
+  }
+  await setDoc(ref, record);
+
+  if (target.medicationId && (status === 'taken') !== wasTaken) {
+    const medicationRef = doc(db, 'users', uid, 'medications', target.medicationId);
+    const medication = await getDoc(medicationRef);
+    if (medication.exists() && medication.data().pillCount !== undefined) {
+      const amount = options.dose ?? medication.data().dose ?? 1;
+      await updateDoc(medicationRef, { pillCount: increment(status === 'taken' ? -amount : amount) });
+    }
+  }
+};
+
+// Removes the record, e.g. when a recurring reminder is unticked
+export const clearDose = async (uid: string, target: DoseTarget) => {
+  const ref = adherenceDoc(uid, target.occurrenceId);
+  const previous = await getDoc(ref);
+  if (!previous.exists()) return;
+  await deleteDoc(ref);
+  if (target.medicationId && previous.data().status === 'taken') {
+    const medicationRef = doc(db, 'users', uid, 'medications', target.medicationId);
+    const medication = await getDoc(medicationRef);
+    if (medication.exists() && medication.data().pillCount !== undefined) {
+      await updateDoc(medicationRef, { pillCount: increment(medication.data().dose ?? 1) });
+    }
+  }
+};
+
+// Records for doses scheduled on or after `since`, keyed by occurrence id
+export const subscribeToAdherence = (
+  uid: string,
+  since: Date,
+  onChange: (records: Map<string, AdherenceRecord>) => void
+) =>
+  onSnapshot(
+    query(collection(db, 'users', uid, 'adherence'), where('scheduledAt', '>=', Timestamp.fromDate(since))),
+    snapshot => {
+      const records = new Map<string, AdherenceRecord>();
+      snapshot.docs.forEach(item => records.set(item.id, item.data() as AdherenceRecord));
+      onChange(records);
+    },
+    error => console.error('Error loading adherence:', error)
+  );
+
+export interface AdherenceStats {
+  scheduled: number;
+  taken: number;
+  skipped: number;
+  missed: number; // No record, or still snoozed after the dose time passed
+  percentage: number | null; // null when no doses were due in the period
+}
+
+/**
+ * Share of a medication's doses due in the last `days` days that were taken.
+ * Doses later today that are not yet due are left out.
+ */
+export const getAdherenceStats = (
+  medication: Medication,
+  records: Map<string, AdherenceRecord>,
+  days: number,
+  now = new Date()
+): AdherenceStats => {
+  const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - days + 1);
+  const due = getOccurrences(medication, from, now);
+  const taken = due.filter(occurrence => records.get(occurrence.id)?.status === 'taken').length;
+  const skipped = due.filter(occurrence => records.get(occurrence.id)?.status === 'skipped').length;
+  return {
+    scheduled: due.length,
+    taken,
+    skipped,
+    missed: due.length - taken - skipped,
+    percentage: due.length ? Math.round((taken / due.length) * 100) : null,
+  };
+};
+
+const ACTION_STATUS: Record<string, AdherenceStatus> = { taken: 'taken', snooze: 'snoozed', skip: 'skipped' };
+
+/**
+ * Handles the Taken / Snooze / Skip buttons on dose notifications. Plain taps
+ * are ignored here and left to the screen that opens. Follow-ups are
+ * cancelled before the write, so they stop even if it fails.
+ */
+export const handleDoseNotificationResponse = async (response: Notifications.NotificationResponse) => {
+  const status = ACTION_STATUS[response.actionIdentifier];
+  const data = response.notification.request.content.data;
+  const uid = auth.currentUser?.uid;
+  if (!status || !uid || !data?.occurrenceId) return;
+  try {
+    if (status !== 'snoozed') await cancelEscalations(data.occurrenceId);
+    await recordDose(
+      uid,
+      {
+        occurrenceId: data.occurrenceId,
+        medicationId: data.medicationId,
+        reminderId: data.reminderId,
+        title: data.title || response.notification.request.content.title || 'Reminder',
+        body: data.body,
+        scheduledAt: new Date(data.scheduledAt ?? Date.now()),
+      },
+      status
+    );
+    await Notifications.dismissNotificationAsync(response.notification.request.identifier);
+  } catch (error) {
+    console.error('Error recording dose from notification:', error);
+  }
+};
@@ -0,0 +1,97 @@
+import * as ImagePicker from 'expo-image-picker';
+import * as ImageManipulator from 'expo-image-manipulator';
+import * as FileSystem from 'expo-file-system';
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { storage } from '../config/firebase';
+import { LLMImage } from './llm';
+
+// Stored on ChatMessage.attachments; the image itself lives in Firebase Storage
+export interface ChatAttachment {
+  id: string;
+  type: 'image';
+  storagePath: string;
+  downloadUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+// A compressed image waiting in the composer, before it is uploaded with the message
+export interface PendingImage {
+  uri: string;
+  base64: string;
+  width: number;
+  height: number;
+}
+
+export type ImageSource = 'camera' | 'library';
+
+// Long edge after compression; enough to read a label or lab report
+const MAX_IMAGE_DIMENSION = 1280;
+const JPEG_QUALITY = 0.7;
+
+/**
+ * Lets the user take or choose a photo and returns it resized and compressed,
+ * or null if they cancelled. Throws when the permission is denied.
+ */
+export const pickChatImage = async (source: ImageSource): Promise<PendingImage | null> => {
+  const permission =
+    source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error(source === 'camera' ? 'Camera permission denied' : 'Photo library permission denied');
+  }
+
+  const options: ImagePicker.ImagePickerOptions = {
+    mediaTypes: ImagePicker.MediaTypeOptions.Images,
+    quality: 1,
+  };
+  const result =
+    source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+  if (result.canceled || !result.assets?.length) return null;
+
+  const asset = result.assets[0];
+  const scale = MAX_IMAGE_DIMENSION / Math.max(asset.width, asset.height);
+  const actions: ImageManipulator.Action[] =
+    scale < 1 ? [{ resize: { width: Math.round(asset.width * scale), height: Math.round(asset.height * scale) } }] : [];
+  const compressed = await ImageManipulator.manipulateAsync(asset.uri, actions, {
+    compress: JPEG_QUALITY,
+    format: ImageManipulator.SaveFormat.JPEG,
+    base64: true,
+  });
+  if (!compressed.base64) throw new Error('Failed to compress image');
+  return { uri: compressed.uri, base64: compressed.base64, width: compressed.width, height: compressed.height };
+};
+
+// Uploads to users/{uid}/chatAttachments/{sessionId}/{id}.jpg
+export const uploadChatImage = async (uid: string, sessionId: string, image: PendingImage): Promise<ChatAttachment> => {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const storagePath = `users/${uid}/chatAttachments/${sessionId}/${id}.jpg`;
+  const storageRef = ref(storage, storagePath);
+  // The JS SDK cannot build blobs from base64 on React Native, so read the file back as a blob
+  const blob = await (await fetch(image.uri)).blob();
+  await uploadBytes(storageRef, blob, { contentType: 'image/jpeg' });
+  return {
+    id,
+    type: 'image',
+    storagePath,
+    downloadUrl: await getDownloadURL(storageRef),
+    mimeType: 'image/jpeg',
+    width: image.width,
+    height: image.height,
+  };
+};
+
+export const toLLMImage = (image: PendingImage): LLMImage => ({ mimeType: 'image/jpeg', data: image.base64 });
+
+// Fetches a stored attachment back as base64, e.g. to regenerate a reply about it
+export const loadAttachmentImage = async (attachment: ChatAttachment): Promise<LLMImage> => {
+  const localUri = `${FileSystem.cacheDirectory}chat-attachment-${attachment.id}.jpg`;
+  const info = await FileSystem.getInfoAsync(localUri);
+  if (!info.exists) await FileSystem.downloadAsync(attachment.downloadUrl, localUri);
+  const data = await FileSystem.readAsStringAsync(localUri, { encoding: FileSystem.EncodingType.Base64 });
+  return { mimeType: attachment.mimeType, data };
+};
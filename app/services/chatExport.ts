@@ -0,0 +1,282 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Timestamp } from 'firebase/firestore';
+import { Recommendation, UrgencyLevel } from './responseSchema';
+import { ChatToolCall, describeToolCall } from './chatTools';
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+// Structural subset of the chat screen's types; JSON exports keep every other field too
+export interface ExportMessage {
+  id: string;
+  type: 'user' | 'assistant';
+  message: string;
+  timestamp: Timestamp;
+  isRecommendation?: boolean;
+  isTruncated?: boolean;
+  recommendations?: Recommendation[];
+  urgency?: UrgencyLevel;
+  disclaimers?: string[];
+  toolCalls?: ChatToolCall[];
+  attachments?: { downloadUrl: string }[];
+}
+
+export interface ExportSession {
+  id: string;
+  title: string;
+  createdAt: Timestamp;
+  lastUpdated: Timestamp;
+  messages: ExportMessage[];
+}
+
+export const EXPORT_FORMATS: { key: ExportFormat; label: string; description: string }[] = [
+  { key: 'markdown', label: 'Markdown', description: 'Plain text, easy to read or paste' },
+  { key: 'html', label: 'HTML', description: 'Formatted for printing or saving as PDF' },
+  { key: 'json', label: 'JSON', description: 'Complete data for backup or import' },
+];
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string; uti: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown', uti: 'net.daringfireball.markdown' },
+  html: { extension: 'html', mimeType: 'text/html', uti: 'public.html' },
+  json: { extension: 'json', mimeType: 'application/json', uti: 'public.json' },
+};
+
+const EXPORT_FORMAT_ID = 'neuracare-chat-export';
+const EXPORT_FORMAT_VERSION = 1;
+
+const RECOMMENDATION_LABELS: Record<Recommendation['kind'], string> = {
+  lifestyle: 'Lifestyle',
+  medication: 'Medication',
+  'see-doctor': 'See a doctor',
+};
+
+const URGENCY_LABELS: Partial<Record<UrgencyLevel, string>> = {
+  routine: 'Routine follow-up',
+  soon: 'See a doctor soon',
+  emergency: 'Seek emergency care',
+};
+
+const formatDateTime = (timestamp?: Timestamp) =>
+  timestamp?.toDate ? timestamp.toDate().toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : '';
+
+const speaker = (msg: ExportMessage) => (msg.type === 'user' ? 'You' : 'Neuracare AI');
+
+const toolCallStatus = (call: ChatToolCall) =>
+  call.status === 'confirmed' ? call.result || 'Done' : call.status === 'pending' ? 'Not confirmed' : call.status;
+
+// Notes shown under a message in the readable formats, shared by Markdown and HTML
+const messageAnnotations = (msg: ExportMessage) => ({
+  recommendations: (msg.recommendations || []).map(
+    item => `${RECOMMENDATION_LABELS[item.kind] || item.kind}: ${item.text}`
+  ),
+  // Messages saved before structured replies only carry the flag
+  legacyRecommendation: !!msg.isRecommendation && !msg.recommendations,
+  urgency: msg.urgency ? URGENCY_LABELS[msg.urgency] : undefined,
+  actions: (msg.toolCalls || []).map(call => `${describeToolCall(call)} (${toolCallStatus(call)})`),
+  disclaimers: msg.disclaimers || [],
+  truncated: !!msg.isTruncated,
+  images: (msg.attachments || []).map(attachment => attachment.downloadUrl),
+});
+
+const renderMarkdown = (sessions: ExportSession[], exportedAt = new Date()): string => {
+  const lines = [
+    '# Neuracare AI conversations',
+    '',
+    `Exported ${exportedAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}.`,
+    'This is a record of conversations with an AI assistant, not medical advice.',
+  ];
+  sessions.forEach(session => {
+    lines.push('', '---', '', `## ${session.title}`, '', `Started ${formatDateTime(session.createdAt)}`);
+    session.messages.forEach(msg => {
+      const notes = messageAnnotations(msg);
+      // Message headings sit below the session heading
+      const body = msg.message.trim().replace(/^(#{1,6})\s/gm, (_, hashes: string) => `${'#'.repeat(Math.min(hashes.length + 2, 6))} `);
+      lines.push('', `**${speaker(msg)}** · ${formatDateTime(msg.timestamp)}`, '', body);
+      notes.images.forEach(url => lines.push('', `![Attached photo](${url})`));
+      if (notes.truncated) lines.push('', '_Reply stopped early._');
+      if (notes.recommendations.length) {
+        lines.push('', '**Recommendations**', ...notes.recommendations.map(item => `- ${item}`));
+      }
+      if (notes.legacyRecommendation) lines.push('', '_Health recommendation_');
+      if (notes.urgency) lines.push('', `**Urgency:** ${notes.urgency}`);
+      if (notes.actions.length) lines.push('', '**Actions**', ...notes.actions.map(item => `- ${item}`));
+      notes.disclaimers.forEach(disclaimer => lines.push('', `> ${disclaimer}`));
+    });
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineMarkdownToHtml = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>');
+
+// Covers the subset of markdown the assistant is asked to use: headers, bold, italics, lists, quotes
+const markdownToHtml = (markdown: string): string => {
+  const html: string[] = [];
+  let list: 'ul' | 'ol' | null = null;
+  const closeList = () => {
+    if (list) html.push(`</${list}>`);
+    list = null;
+  };
+  markdown.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    const bullet = /^[-*]\s+(.*)$/.exec(line);
+    const numbered = /^\d+\.\s+(.*)$/.exec(line);
+    if (bullet || numbered) {
+      const type = bullet ? 'ul' : 'ol';
+      if (list !== type) {
+        closeList();
+        html.push(`<${type}>`);
+        list = type;
+      }
+      html.push(`<li>${inlineMarkdownToHtml((bullet || numbered)![1])}</li>`);
+      return;
+    }
+    closeList();
+    if (!line) return;
+    if (heading) {
+      // Message headings sit below the session heading
+      const level = Math.min(heading[1].length + 2, 6);
+      html.push(`<h${level}>${inlineMarkdownToHtml(heading[2])}</h${level}>`);
+    } else if (line.startsWith('>')) {
+      html.push(`<blockquote>${inlineMarkdownToHtml(line.replace(/^>\s*/, ''))}</blockquote>`);
+    } else {
+      html.push(`<p>${inlineMarkdownToHtml(line)}</p>`);
+    }
+  });
+  closeList();
+  return html.join('\n');
+};
+
+const HTML_STYLES = `
+  @page { margin: 18mm; }
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #222; font-size: 12pt; line-height: 1.45; }
+  h1 { font-size: 20pt; margin-bottom: 4px; }
+  h2 { font-size: 15pt; border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-top: 28px; page-break-after: avoid; }
+  .meta, .time { color: #666; font-size: 10pt; }
+  .message { border-left: 3px solid #1E90FF; padding: 6px 12px; margin: 12px 0; page-break-inside: avoid; }
+  .message.user { border-left-color: #999; }
+  .speaker { font-weight: bold; }
+  .notes { background: #f4f8fb; border-radius: 4px; padding: 6px 10px; margin-top: 8px; font-size: 11pt; }
+  .urgency { color: #c62828; font-weight: bold; }
+  .disclaimer, .truncated { color: #666; font-style: italic; font-size: 10pt; }
+  .attachment { max-width: 60%; max-height: 240px; border-radius: 6px; margin: 6px 0; }
+  blockquote { margin: 6px 0; padding-left: 10px; border-left: 2px solid #ccc; color: #555; }
+`;
+
+const renderHtml = (sessions: ExportSession[], exportedAt = new Date()): string => {
+  const body = sessions
+    .map(session => {
+      const messages = session.messages
+        .map(msg => {
+          const notes = messageAnnotations(msg);
+          const extras: string[] = [];
+          if (notes.recommendations.length) {
+            extras.push(
+              `<div class="notes"><strong>Recommendations</strong><ul>${notes.recommendations
+                .map(item => `<li>${escapeHtml(item)}</li>`)
+                .join('')}</ul></div>`
+            );
+          }
+          if (notes.legacyRecommendation) extras.push('<div class="notes">Health recommendation</div>');
+          if (notes.urgency) extras.push(`<p class="urgency">${escapeHtml(notes.urgency)}</p>`);
+          if (notes.actions.length) {
+            extras.push(
+              `<div class="notes"><strong>Actions</strong><ul>${notes.actions
+                .map(item => `<li>${escapeHtml(item)}</li>`)
+                .join('')}</ul></div>`
+            );
+          }
+          notes.disclaimers.forEach(item => extras.push(`<p class="disclaimer">${escapeHtml(item)}</p>`));
+          if (notes.truncated) extras.push('<p class="truncated">Reply stopped early.</p>');
+          notes.images.forEach(url => extras.unshift(`<img class="attachment" src="${escapeHtml(url)}" alt="Attached photo">`));
+          return `<div class="message ${msg.type}">
+  <div><span class="speaker">${speaker(msg)}</span> <span class="time">${escapeHtml(formatDateTime(msg.timestamp))}</span></div>
+  ${msg.type === 'user' ? `<p>${escapeHtml(msg.message)}</p>` : markdownToHtml(msg.message)}
+  ${extras.join('\n  ')}
+</div>`;
+        })
+        .join('\n');
+      return `<h2>${escapeHtml(session.title)}</h2>
+<p class="meta">Started ${escapeHtml(formatDateTime(session.createdAt))}</p>
+${messages}`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Neuracare AI conversations</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>Neuracare AI conversations</h1>
+<p class="meta">Exported ${escapeHtml(exportedAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }))}. This is a record of conversations with an AI assistant, not medical advice.</p>
+${body}
+</body>
+</html>
+`;
+};
+
+// Firestore Timestamps become { __timestamp: { seconds, nanoseconds } } so they can be restored exactly
+const encodeValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) {
+    return { __timestamp: { seconds: value.seconds, nanoseconds: value.nanoseconds } };
+  }
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encodeValue(item)]));
+  }
+  return value;
+};
+
+const renderJson = (sessions: ExportSession[], exportedAt = new Date()): string =>
+  JSON.stringify(
+    {
+      format: EXPORT_FORMAT_ID,
+      version: EXPORT_FORMAT_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      sessions: encodeValue(sessions),
+    },
+    null,
+    2
+  );
+
+const RENDERERS: Record<ExportFormat, (sessions: ExportSession[], exportedAt?: Date) => string> = {
+  markdown: renderMarkdown,
+  html: renderHtml,
+  json: renderJson,
+};
+
+const buildFileName = (sessions: ExportSession[], format: ExportFormat, exportedAt: Date) => {
+  const date = exportedAt.toISOString().slice(0, 10);
+  const name =
+    sessions.length === 1
+      ? sessions[0].title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chat'
+      : 'all-chats';
+  return `neuracare-${name}-${date}.${FILE_TYPES[format].extension}`;
+};
+
+/**
+ * Writes the sessions to a file in the cache directory and opens the OS share
+ * sheet so the user can save it, print it or send it to their doctor.
+ */
+export const exportChatSessions = async (sessions: ExportSession[], format: ExportFormat) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const exportedAt = new Date();
+  const uri = `${FileSystem.cacheDirectory}${buildFileName(sessions, format, exportedAt)}`;
+  await FileSystem.writeAsStringAsync(uri, RENDERERS[format](sessions, exportedAt), {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+  const { mimeType, uti } = FILE_TYPES[format];
+  await Sharing.shareAsync(uri, { mimeType, UTI: uti, dialogTitle: 'Export chat' });
+};
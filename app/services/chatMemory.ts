@@ -0,0 +1,62 @@
+import { doc, updateDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { getLLMProvider } from './llm';
+import { ContextMessage, ContextProfile, redactIdentifiers } from './healthContext';
+
+// Refresh the rolling summary after this many new user/assistant turns
+export const SUMMARY_REFRESH_TURNS = 4;
+
+const SUMMARY_MAX_TOKENS = 200;
+
+// Summary fields stored on users/{uid}/chatSessions/{id}
+export interface SessionMemory {
+  summary?: string;
+  summaryMessageCount?: number;
+  summaryUpdatedAt?: Timestamp;
+}
+
+export const shouldRefreshSummary = (messageCount: number, memory: SessionMemory): boolean =>
+  messageCount - (memory.summaryMessageCount || 0) >= SUMMARY_REFRESH_TURNS * 2;
+
+const buildSummaryPrompt = (previousSummary: string | undefined, transcript: string) => `You maintain a running memory of a conversation between a user and Neuracare AI, a health assistant.
+Update the summary with the new messages. Keep symptoms (with onset and duration), medications, measurements, advice already given and open questions. Do not include names or contact details. Respond with at most 120 words of plain text.
+
+Current summary:
+${previousSummary || '(none)'}
+
+New messages:
+${transcript}
+
+Updated summary:`;
+
+/**
+ * Folds the messages added since the last summary into the session's rolling
+ * summary and stores it on the session document. Returns the new memory, or
+ * null when nothing new needed summarizing.
+ */
+export const refreshSessionSummary = async (
+  uid: string,
+  sessionId: string,
+  messages: ContextMessage[],
+  memory: SessionMemory,
+  profile?: ContextProfile | null
+): Promise<SessionMemory | null> => {
+  const newMessages = messages.slice(memory.summaryMessageCount || 0);
+  if (newMessages.length === 0) return null;
+
+  const transcript = newMessages
+    .map(msg => `${msg.type === 'user' ? 'User' : 'Assistant'}: ${redactIdentifiers(msg.message, profile)}`)
+    .join('\n');
+  const summary = await getLLMProvider().generate(buildSummaryPrompt(memory.summary, transcript), {
+    maxOutputTokens: SUMMARY_MAX_TOKENS,
+    temperature: 0.2,
+  });
+
+  const updated: SessionMemory = {
+    summary: redactIdentifiers(summary.trim(), profile),
+    summaryMessageCount: messages.length,
+    summaryUpdatedAt: Timestamp.now(),
+  };
+  await updateDoc(doc(db, 'users', uid, 'chatSessions', sessionId), { ...updated });
+  return updated;
+};
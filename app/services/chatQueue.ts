@@ -0,0 +1,107 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { ChatAttachment } from './chatAttachments';
+
+// Stored on user ChatMessages; messages saved before delivery tracking count as delivered
+export type DeliveryState = 'queued' | 'sending' | 'failed' | 'delivered';
+
+// A user message still waiting for an assistant reply, persisted across restarts
+export interface QueuedMessage {
+  messageId: string;
+  sessionId: string;
+  text: string;
+  createdAt: number; // epoch ms of the original user message
+  attachments?: ChatAttachment[];
+  attempts: number;
+  nextAttemptAt: number;
+  state: 'queued' | 'failed';
+}
+
+// Automatic retries before the message is marked failed and waits for a manual retry
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+const queueKey = (uid: string) => `chatQueue:${uid}`;
+
+// Exponential backoff with jitter so reconnecting devices don't retry in lockstep
+export const getRetryDelay = (attempts: number): number => {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+export const loadQueue = async (uid: string): Promise<QueuedMessage[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(queueKey(uid));
+    return raw ? (JSON.parse(raw) as QueuedMessage[]) : [];
+  } catch (error) {
+    console.error('Error loading chat queue:', error);
+    return [];
+  }
+};
+
+const saveQueue = async (uid: string, queue: QueuedMessage[]) => {
+  try {
+    await AsyncStorage.setItem(queueKey(uid), JSON.stringify(queue));
+  } catch (error) {
+    console.error('Error saving chat queue:', error);
+  }
+};
+
+export const enqueueMessage = async (
+  uid: string,
+  message: Omit<QueuedMessage, 'attempts' | 'nextAttemptAt' | 'state'>
+): Promise<QueuedMessage> => {
+  const queued: QueuedMessage = { ...message, attempts: 0, nextAttemptAt: Date.now(), state: 'queued' };
+  const queue = await loadQueue(uid);
+  await saveQueue(uid, [...queue.filter(item => item.messageId !== message.messageId), queued]);
+  return queued;
+};
+
+export const removeFromQueue = async (uid: string, messageId: string) => {
+  const queue = await loadQueue(uid);
+  await saveQueue(uid, queue.filter(item => item.messageId !== messageId));
+};
+
+/**
+ * Records a failed delivery attempt and schedules the next one, or marks the
+ * message failed once MAX_DELIVERY_ATTEMPTS is reached.
+ */
+export const recordFailedAttempt = async (uid: string, messageId: string): Promise<QueuedMessage | null> => {
+  const queue = await loadQueue(uid);
+  const item = queue.find(entry => entry.messageId === messageId);
+  if (!item) return null;
+  item.attempts++;
+  item.state = item.attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'queued';
+  item.nextAttemptAt = Date.now() + getRetryDelay(item.attempts);
+  await saveQueue(uid, queue);
+  return item;
+};
+
+// Puts a failed message back in line for an immediate attempt
+export const resetQueuedMessage = async (uid: string, messageId: string): Promise<QueuedMessage | null> => {
+  const queue = await loadQueue(uid);
+  const item = queue.find(entry => entry.messageId === messageId);
+  if (!item) return null;
+  item.attempts = 0;
+  item.state = 'queued';
+  item.nextAttemptAt = Date.now();
+  await saveQueue(uid, queue);
+  return item;
+};
+
+// Oldest message whose backoff has elapsed, delivered one at a time to keep replies in order
+export const getNextDueMessage = (queue: QueuedMessage[], now = Date.now()): QueuedMessage | null =>
+  queue
+    .filter(item => item.state === 'queued' && item.nextAttemptAt <= now)
+    .sort((a, b) => a.createdAt - b.createdAt)[0] ?? null;
+
+// isInternetReachable is null until NetInfo has checked, so only an explicit false counts as offline
+export const isOnline = (state: NetInfoState): boolean =>
+  state.isConnected !== false && state.isInternetReachable !== false;
+
+export const checkOnline = async (): Promise<boolean> => isOnline(await NetInfo.fetch());
+
+export const subscribeToConnectivity = (listener: (online: boolean) => void) =>
+  NetInfo.addEventListener(state => listener(isOnline(state)));
@@ -0,0 +1,280 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timestamp } from 'firebase/firestore';
+
+// Structural subset of the chat screen's sessions, as loaded by loadChatSessions
+export interface SearchSourceSession {
+  id: string;
+  title: string;
+  messages: { id: string; type: 'user' | 'assistant'; message: string; timestamp: Timestamp }[];
+}
+
+export interface IndexedMessage {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  type: 'user' | 'assistant';
+  text: string;
+  timestamp: number; // epoch ms, so the index survives JSON storage
+}
+
+export interface SearchHit {
+  message: IndexedMessage;
+  score: number;
+  snippet: string;
+  highlights: [number, number][]; // [start, end) ranges within snippet
+}
+
+interface StoredIndex {
+  version: number;
+  messages: IndexedMessage[];
+}
+
+interface SearchIndex {
+  messages: IndexedMessage[];
+  postings: Map<string, Map<number, number>>; // term -> message index -> term frequency
+  lengths: number[];
+  averageLength: number;
+}
+
+const INDEX_VERSION = 1;
+const SNIPPET_LENGTH = 140;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Includes the words people use to describe the chat itself ("what did the assistant say")
+const STOP_WORDS = new Set([
+  'a', 'about', 'ai', 'an', 'and', 'are', 'as', 'assistant', 'at', 'be', 'did', 'do', 'does',
+  'for', 'from', 'how', 'i', 'in', 'is', 'it', 'me', 'my', 'neuracare', 'of', 'on', 'or', 'said',
+  'say', 'tell', 'that', 'the', 'to', 'told', 'was', 'what', 'when', 'with', 'you',
+]);
+
+const WORD_PATTERN = /[a-z0-9\u00C0-\uFFFF]+/g;
+
+const indexKey = (uid: string) => `chatSearchIndex:${uid}`;
+
+const cache = new Map<string, SearchIndex>();
+
+// Crude suffix stripping so "readings" finds "reading" and "pressures" finds "pressure"
+const stem = (word: string): string => {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+// Index and query terms: lowercase words without stop words, stemmed
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(WORD_PATTERN) || []).filter(word => !STOP_WORDS.has(word)).map(stem);
+
+// Assistant replies are stored as markdown; search and snippets work on the plain text
+const stripMarkdown = (text: string) =>
+  text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#+|>|[-*]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const buildIndex = (messages: IndexedMessage[]): SearchIndex => {
+  const postings = new Map<string, Map<number, number>>();
+  const lengths = messages.map((message, index) => {
+    const terms = tokenize(message.text);
+    terms.forEach(term => {
+      const entry = postings.get(term) ?? new Map<number, number>();
+      entry.set(index, (entry.get(index) ?? 0) + 1);
+      postings.set(term, entry);
+    });
+    return terms.length;
+  });
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return { messages, postings, lengths, averageLength: messages.length ? total / messages.length : 0 };
+};
+
+/**
+ * Replaces the on-device search index for a user with the given sessions.
+ * Called whenever the chat screen's session snapshot changes.
+ */
+export const syncSearchIndex = async (uid: string, sessions: SearchSourceSession[]) => {
+  const messages: IndexedMessage[] = sessions.flatMap(session =>
+    session.messages
+      .filter(msg => msg.message?.trim())
+      .map(msg => ({
+        sessionId: session.id,
+        sessionTitle: session.title,
+        messageId: msg.id,
+        type: msg.type,
+        text: stripMarkdown(msg.message),
+        timestamp: msg.timestamp?.toMillis?.() ?? 0,
+      }))
+  );
+  cache.set(uid, buildIndex(messages));
+  try {
+    const stored: StoredIndex = { version: INDEX_VERSION, messages };
+    await AsyncStorage.setItem(indexKey(uid), JSON.stringify(stored));
+  } catch (error) {
+    console.error('Error saving search index:', error);
+  }
+};
+
+export const loadSearchIndex = async (uid: string): Promise<SearchIndex> => {
+  const cached = cache.get(uid);
+  if (cached) return cached;
+  let messages: IndexedMessage[] = [];
+  try {
+    const raw = await AsyncStorage.getItem(indexKey(uid));
+    const stored = raw ? (JSON.parse(raw) as StoredIndex) : null;
+    if (stored?.version === INDEX_VERSION) messages = stored.messages;
+  } catch (error) {
+    console.error('Error loading search index:', error);
+  }
+  const index = buildIndex(messages);
+  cache.set(uid, index);
+  return index;
+};
+
+const TIME_PHRASES: { pattern: RegExp; range: (now: Date) => [number, number] }[] = [
+  {
+    pattern: /\btoday\b/,
+    range: now => [new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime(), now.getTime()],
+  },
+  {
+    pattern: /\byesterday\b/,
+    range: now => {
+      const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1).getTime();
+      return [start, start + DAY_MS];
+    },
+  },
+  { pattern: /\b(this|past|last) week\b/, range: now => [now.getTime() - 7 * DAY_MS, now.getTime()] },
+  {
+    pattern: /\bthis month\b/,
+    range: now => [new Date(now.getFullYear(), now.getMonth(), 1).getTime(), now.getTime()],
+  },
+  {
+    pattern: /\blast month\b/,
+    range: now => [
+      new Date(now.getFullYear(), now.getMonth() - 1, 1).getTime(),
+      new Date(now.getFullYear(), now.getMonth(), 1).getTime(),
+    ],
+  },
+  { pattern: /\b(past|last) (30 days|few weeks)\b/, range: now => [now.getTime() - 30 * DAY_MS, now.getTime()] },
+  {
+    pattern: /\bthis year\b/,
+    range: now => [new Date(now.getFullYear(), 0, 1).getTime(), now.getTime()],
+  },
+];
+
+// Pulls a relative date phrase ("last month") out of the query and turns it into a range
+const extractTimeRange = (query: string, now: Date): { text: string; range?: [number, number] } => {
+  const lower = query.toLowerCase();
+  for (const phrase of TIME_PHRASES) {
+    if (phrase.pattern.test(lower)) {
+      return { text: lower.replace(phrase.pattern, ' '), range: phrase.range(now) };
+    }
+  }
+  return { text: lower };
+};
+
+const buildSnippet = (text: string, matchesTerm: (word: string) => boolean) => {
+  const words = Array.from(text.matchAll(new RegExp(WORD_PATTERN.source, 'gi')));
+  const first = words.find(word => matchesTerm(stem(word[0].toLowerCase())));
+  const firstIndex = first?.index ?? 0;
+
+  let start = Math.max(0, firstIndex - 40);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < firstIndex ? space + 1 : start;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+
+  const highlights: [number, number][] = words
+    .filter(word => word.index! >= start && word.index! + word[0].length <= end)
+    .filter(word => matchesTerm(stem(word[0].toLowerCase())))
+    .map(word => {
+      const offset = word.index! - start + prefix.length;
+      return [offset, offset + word[0].length];
+    });
+  return { snippet, highlights };
+};
+
+/**
+ * Searches every indexed chat message. Results are ranked with BM25, boosted when
+ * all terms or the exact phrase appear and slightly by recency. The last query term
+ * also matches as a prefix so results update while the user types.
+ */
+export const searchMessages = async (
+  uid: string,
+  query: string,
+  options: { limit?: number; now?: Date } = {}
+): Promise<SearchHit[]> => {
+  const { limit = 30, now = new Date() } = options;
+  const index = await loadSearchIndex(uid);
+  const { text, range } = extractTimeRange(query, now);
+  const queryTerms = Array.from(new Set(tokenize(text)));
+  if (queryTerms.length === 0 && !range) return [];
+
+  const inRange = (message: IndexedMessage) =>
+    !range || (message.timestamp >= range[0] && message.timestamp < range[1]);
+
+  // Each query term expands to the index terms it matches
+  const lastTerm = queryTerms[queryTerms.length - 1];
+  const expansions = queryTerms.map(term => {
+    const matches = index.postings.has(term) ? [term] : [];
+    if (term === lastTerm && term.length >= 2) {
+      index.postings.forEach((_, indexed) => {
+        if (indexed !== term && indexed.startsWith(term)) matches.push(indexed);
+      });
+    }
+    return matches;
+  });
+  const matchedTerms = new Set(expansions.flat());
+  const matchesTerm = (word: string) => matchedTerms.has(word);
+
+  const scores = new Map<number, { score: number; termsHit: number }>();
+  if (queryTerms.length === 0) {
+    index.messages.forEach((message, i) => {
+      if (inRange(message)) scores.set(i, { score: 1, termsHit: 0 });
+    });
+  }
+  const total = index.messages.length;
+  expansions.forEach(terms => {
+    const hitForTerm = new Set<number>();
+    terms.forEach(term => {
+      const postings = index.postings.get(term)!;
+      const idf = Math.log(1 + (total - postings.size + 0.5) / (postings.size + 0.5));
+      postings.forEach((tf, i) => {
+        if (!inRange(index.messages[i])) return;
+        const norm = tf + K1 * (1 - B + (B * index.lengths[i]) / (index.averageLength || 1));
+        const entry = scores.get(i) ?? { score: 0, termsHit: 0 };
+        entry.score += (idf * tf * (K1 + 1)) / norm;
+        if (!hitForTerm.has(i)) {
+          hitForTerm.add(i);
+          entry.termsHit++;
+        }
+        scores.set(i, entry);
+      });
+    });
+  });
+
+  const phrase = text.replace(/\s+/g, ' ').trim();
+  const hits: SearchHit[] = [];
+  scores.forEach(({ score, termsHit }, i) => {
+    const message = index.messages[i];
+    let ranked = score;
+    if (queryTerms.length > 1) {
+      ranked *= termsHit / queryTerms.length;
+      if (phrase && message.text.toLowerCase().includes(phrase)) ranked *= 1.5;
+    }
+    const ageDays = Math.max(0, (now.getTime() - message.timestamp) / DAY_MS);
+    ranked *= 1 + 0.1 * Math.exp(-ageDays / 30);
+    hits.push({ message, score: ranked, ...buildSnippet(message.text, matchesTerm) });
+  });
+
+  return hits
+    .sort((a, b) => b.score - a.score || b.message.timestamp - a.message.timestamp)
+    .slice(0, limit);
+};
@@ -0,0 +1,243 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { checkNewMedication, MedicationWarning } from './drugKnowledge';
+import { addMetric, queryMetrics } from './metrics';
+import { reconcileNotifications } from './notificationScheduler';
+import { Reminder, ReminderInput, ReminderType } from './reminders';
+
+export type ToolName = 'getVitalHistory' | 'logVital' | 'createReminder';
+export type ToolCallStatus = 'pending' | 'confirmed' | 'declined' | 'failed';
+
+export interface ToolCall {
+  name: ToolName;
+  args: Record<string, string | number>;
+}
+
+// Tool call as stored on an assistant ChatMessage, waiting for or past user confirmation
+export interface ChatToolCall extends ToolCall {
+  status: ToolCallStatus;
+  result?: string;
+  warnings?: MedicationWarning[]; // Shown on the confirmation card for medication reminders
+}
+
+interface ToolDefinition {
+  description: string;
+  // Writes are only executed after the user confirms them in the chat
+  requiresConfirmation: boolean;
+  validate: (args: Record<string, unknown>) => ToolCall['args'] | null;
+}
+
+const HISTORY_RANGES: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90 };
+const REMINDER_TYPES = ['medication', 'appointment', 'exercise', 'water', 'other'];
+const RECURRING_PATTERNS = ['daily', 'weekly', 'monthly'];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const TOOLS: Record<ToolName, ToolDefinition> = {
+  getVitalHistory: {
+    description: 'getVitalHistory(type, range) - read the user\'s logged readings for a vital; range is "7d", "30d" or "90d"',
+    requiresConfirmation: false,
+    validate: args => {
+      if (!isNonEmptyString(args.type)) return null;
+      const range = isNonEmptyString(args.range) && HISTORY_RANGES[args.range] ? args.range : '30d';
+      return { type: args.type, range };
+    },
+  },
+  logVital: {
+    description: 'logVital(type, value, notes?) - record a new reading, e.g. type "heartRate" value 72 or type "bloodPressure" value "120/80"',
+    requiresConfirmation: true,
+    validate: args => {
+      if (!isNonEmptyString(args.type)) return null;
+      if (typeof args.value !== 'number' && !isNonEmptyString(args.value)) return null;
+      const validated: ToolCall['args'] = { type: args.type, value: args.value };
+      if (isNonEmptyString(args.notes)) validated.notes = args.notes;
+      return validated;
+    },
+  },
+  createReminder: {
+    description: 'createReminder(title, type, time, date?, recurringPattern?, description?) - type is medication/appointment/exercise/water/other, time is "HH:mm" 24h, date is "YYYY-MM-DD" (default today), recurringPattern is daily/weekly/monthly',
+    requiresConfirmation: true,
+    validate: args => {
+      if (!isNonEmptyString(args.title) || !isNonEmptyString(args.time)) return null;
+      if (!/^([01]?\d|2[0-3]):[0-5]\d$/.test(args.time)) return null;
+      const validated: ToolCall['args'] = {
+        title: args.title.trim(),
+        time: args.time,
+        type: isNonEmptyString(args.type) && REMINDER_TYPES.includes(args.type) ? args.type : 'other',
+      };
+      if (isNonEmptyString(args.date) && /^\d{4}-\d{2}-\d{2}$/.test(args.date)) validated.date = args.date;
+      if (isNonEmptyString(args.recurringPattern) && RECURRING_PATTERNS.includes(args.recurringPattern)) {
+        validated.recurringPattern = args.recurringPattern;
+      }
+      if (isNonEmptyString(args.description)) validated.description = args.description.trim();
+      return validated;
+    },
+  },
+};
+
+export const TOOL_INSTRUCTIONS = `You can act on the user's health records by adding a "toolCalls" array to your JSON:
+"toolCalls": [{ "name": string, "args": object }]
+Available tools:
+${(Object.keys(TOOLS) as ToolName[]).map(name => `- ${TOOLS[name].description}`).join('\n')}
+Only call a tool when the user asks for it or needs their history to be answered. Writes are shown to the user for confirmation, so describe what you are about to do in the answer.`;
+
+export const requiresConfirmation = (call: ToolCall) => TOOLS[call.name].requiresConfirmation;
+
+export const validateToolCall = (value: unknown): ToolCall | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { name, args } = value as { name?: unknown; args?: unknown };
+  // Own keys only, so names like "toString" or "constructor" are rejected too
+  if (typeof name !== 'string' || !Object.prototype.hasOwnProperty.call(TOOLS, name)) return null;
+  const validated = TOOLS[name as ToolName].validate(
+    args && typeof args === 'object' ? (args as Record<string, unknown>) : {}
+  );
+  return validated ? { name: name as ToolName, args: validated } : null;
+};
+
+const parseDateTime = (date: string | undefined, time: string): Date => {
+  const result = date ? new Date(`${date}T00:00:00`) : new Date();
+  const [hours, minutes] = time.split(':').map(Number);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+// Matches the 12-hour display format reminders.tsx stores in `time`
+const formatReminderTime = (date: Date) =>
+  date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', hour12: true });
+
+// Short human-readable description shown on the confirmation card
+export const describeToolCall = (call: ToolCall): string => {
+  const { args } = call;
+  switch (call.name) {
+    case 'logVital':
+      return `Log ${args.type}: ${args.value}${args.notes ? ` (${args.notes})` : ''}`;
+    case 'createReminder': {
+      const when = parseDateTime(args.date as string | undefined, args.time as string);
+      const repeat = args.recurringPattern ? `, repeats ${args.recurringPattern}` : '';
+      return `Create ${args.type} reminder "${args.title}" on ${when.toLocaleDateString()} at ${formatReminderTime(when)}${repeat}`;
+    }
+    default:
+      return `Read ${args.type} history (${args.range})`;
+  }
+};
+
+const getStatusFromRanges = (value: number | string, ranges?: { low?: number; high?: number }) => {
+  const reading = typeof value === 'number' ? value : parseFloat(String(value).split('/')[0]);
+  if (isNaN(reading) || !ranges) return 'Unknown';
+  if (ranges.low && reading < ranges.low) return 'Low';
+  if (ranges.high && reading > ranges.high) return 'High';
+  return 'Normal';
+};
+
+const getVitalHistory = async (uid: string, args: ToolCall['args']): Promise<string> => {
+  const days = HISTORY_RANGES[args.range as string] || 30;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const { metrics } = await queryMetrics(uid, { type: args.type as string, from: since, pageSize: 20 });
+  if (metrics.length === 0) return `No ${args.type} readings in the last ${days} days.`;
+  const readings = metrics.map(metric =>
+    `${metric.timestamp.toDate().toLocaleDateString()}: ${metric.value} ${metric.unit || ''}`.trim()
+  );
+  return `${args.type} readings (newest first):\n${readings.join('\n')}`;
+};
+
+// Mirrors TrackScreen.updateVital: latest value on the health doc plus a metrics history entry
+const logVital = async (uid: string, args: ToolCall['args']): Promise<string> => {
+  const type = args.type as string;
+  const healthDocRef = doc(db, 'health_data', uid);
+  const healthDoc = await getDoc(healthDocRef);
+  const vitalConfig = healthDoc.exists() ? healthDoc.data().vitalConfigs?.[type] : undefined;
+  const value = vitalConfig?.type === 'number' ? Number(args.value) : args.value;
+  if (typeof value === 'number' && isNaN(value)) throw new Error(`Invalid value for ${type}`);
+
+  const timestamp = Timestamp.now();
+  const unit = vitalConfig?.unit || '';
+  const vital = {
+    value,
+    unit,
+    status: getStatusFromRanges(value, vitalConfig?.ranges),
+    timestamp,
+    goal: vitalConfig?.goal || 0,
+    type: vitalConfig?.type || (typeof value === 'number' ? 'number' : 'string'),
+  };
+  if (healthDoc.exists()) {
+    await updateDoc(healthDocRef, { [`vitals.${type}`]: vital, lastUpdated: timestamp });
+  } else {
+    await setDoc(healthDocRef, { vitals: { [type]: vital }, metrics: [], lastUpdated: timestamp });
+  }
+
+  await addMetric(uid, { type, value, unit, timestamp, notes: args.notes as string | undefined });
+  return `Logged ${type}: ${value} ${unit}`.trim();
+};
+
+// Same check as adding a medication reminder by hand: other medications, allergies and conditions
+const getMedicationWarnings = async (uid: string, title: string): Promise<MedicationWarning[]> => {
+  const [profile, reminders, medications] = await Promise.all([
+    getDoc(doc(db, 'users', uid)),
+    getDocs(query(collection(db, 'users', uid, 'reminders'), where('type', '==', 'medication'))),
+    getDocs(collection(db, 'users', uid, 'medications')),
+  ]);
+  const others = [
+    ...reminders.docs.filter(item => !item.data().isCompleted).map(item => item.data().title ?? ''),
+    ...medications.docs.map(item => item.data().name ?? ''),
+  ];
+  const { allergies, conditions } = profile.exists() ? profile.data() : ({} as Record<string, any>);
+  return checkNewMedication(title, others, { allergies, conditions }).warnings;
+};
+
+/**
+ * Turns a write the model proposed into one awaiting confirmation. Medication
+ * reminders carry any interaction or allergy warnings so they are on the card
+ * before the user confirms; a failed check leaves the card without them.
+ */
+export const prepareToolCall = async (uid: string, call: ToolCall): Promise<ChatToolCall> => {
+  const pending: ChatToolCall = { ...call, status: 'pending' };
+  if (call.name !== 'createReminder' || call.args.type !== 'medication') return pending;
+  try {
+    const warnings = await getMedicationWarnings(uid, call.args.title as string);
+    return warnings.length > 0 ? { ...pending, warnings } : pending;
+  } catch (error) {
+    console.error('Error checking medication:', error);
+    return pending;
+  }
+};
+
+const createReminder = async (uid: string, args: ToolCall['args']): Promise<string> => {
+  const when = parseDateTime(args.date as string | undefined, args.time as string);
+  const reminderData: ReminderInput = {
+    title: args.title as string,
+    date: Timestamp.fromDate(when),
+    time: formatReminderTime(when),
+    type: args.type as ReminderType,
+    isCompleted: false,
+    isRecurring: !!args.recurringPattern,
+    notificationEnabled: true,
+    createdAt: Timestamp.now(),
+  };
+  if (args.description) reminderData.description = args.description as string;
+  if (args.recurringPattern) reminderData.recurringPattern = args.recurringPattern as Reminder['recurringPattern'];
+
+  await addDoc(collection(db, 'users', uid, 'reminders'), reminderData);
+  await reconcileNotifications(uid);
+  return `Reminder "${args.title}" set for ${when.toLocaleDateString()} at ${reminderData.time}`;
+};
+
+const EXECUTORS: Record<ToolName, (uid: string, args: ToolCall['args']) => Promise<string>> = {
+  getVitalHistory,
+  logVital,
+  createReminder,
+};
+
+export const executeToolCall = (uid: string, call: ToolCall): Promise<string> =>
+  EXECUTORS[call.name](uid, call.args);
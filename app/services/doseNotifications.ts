@@ -0,0 +1,68 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+// What an adherence record is about: a medication dose or one day of a recurring reminder
+export interface DoseTarget {
+  occurrenceId: string;
+  medicationId?: string;
+  reminderId?: string;
+  title: string;
+  body?: string;
+  scheduledAt: Date;
+}
+
+// Notification category with Taken / Snooze / Skip buttons
+export const DOSE_CATEGORY = 'dose';
+
+export const SNOOZE_MINUTES = 10;
+
+// Follow-ups scheduled when a dose may be missed; cancelled as soon as it is taken or skipped
+export const escalationIdentifiers = (occurrenceId: string) => [
+  `escalation:${occurrenceId}`,
+  `escalation:${occurrenceId}:contact`,
+];
+
+// Cancels a dose's pending follow-ups and clears any that are already showing
+export const cancelEscalations = (occurrenceId: string) =>
+  Promise.all(
+    escalationIdentifiers(occurrenceId).flatMap(id => [
+      Notifications.cancelScheduledNotificationAsync(id).catch(() => {}),
+      Notifications.dismissNotificationAsync(id).catch(() => {}),
+    ])
+  );
+
+// Notification category with Message / Call buttons for reaching the emergency contact
+export const CAREGIVER_CATEGORY = 'caregiver';
+
+/**
+ * Dose buttons are recorded by the response listener without showing the
+ * app. iOS launches the app in the background to deliver them. Android only
+ * holds a background press in memory until JavaScript is running, so one made
+ * while the app is closed would be lost; there the buttons open the app.
+ */
+const DOSE_ACTION_OPTIONS = { opensAppToForeground: Platform.OS === 'android' };
+
+// Called once at startup; notifications scheduled with a category show its buttons
+export const registerNotificationCategories = () =>
+  Promise.all([
+    Notifications.setNotificationCategoryAsync(DOSE_CATEGORY, [
+      { identifier: 'taken', buttonTitle: 'Taken', options: DOSE_ACTION_OPTIONS },
+      { identifier: 'snooze', buttonTitle: `Snooze ${SNOOZE_MINUTES} min`, options: DOSE_ACTION_OPTIONS },
+      { identifier: 'skip', buttonTitle: 'Skip', options: DOSE_ACTION_OPTIONS },
+    ]),
+    // Messages and calls are opened from the app, so these bring it forward
+    Notifications.setNotificationCategoryAsync(CAREGIVER_CATEGORY, [
+      { identifier: 'message', buttonTitle: 'Message contact', options: { opensAppToForeground: true } },
+      { identifier: 'call', buttonTitle: 'Call contact', options: { opensAppToForeground: true } },
+    ]),
+  ]).catch(error => console.error('Error registering notification actions:', error));
+
+// Notification data that lets an action button record the right dose
+export const toDoseNotificationData = (target: DoseTarget) => ({
+  occurrenceId: target.occurrenceId,
+  scheduledAt: target.scheduledAt.getTime(),
+  title: target.title,
+  ...(target.body ? { body: target.body } : {}),
+  ...(target.medicationId ? { medicationId: target.medicationId } : {}),
+  ...(target.reminderId ? { reminderId: target.reminderId } : {}),
+});
@@ -0,0 +1,221 @@
+import { AllergyClass, ConditionRule, DrugEntry, InteractionRule } from './types';
+
+// Common generics with the brand names people are likely to type into a reminder title.
+// Classes link drugs to interaction, allergy and condition rules.
+export const DRUGS: DrugEntry[] = [
+  // Pain and inflammation
+  { id: 'paracetamol', name: 'Paracetamol', aliases: ['acetaminophen', 'tylenol', 'panadol', 'crocin', 'dolo', 'calpol'], classes: ['analgesic'] },
+  { id: 'ibuprofen', name: 'Ibuprofen', aliases: ['advil', 'motrin', 'brufen', 'nurofen'], classes: ['nsaid'] },
+  { id: 'naproxen', name: 'Naproxen', aliases: ['aleve', 'naprosyn'], classes: ['nsaid'] },
+  { id: 'diclofenac', name: 'Diclofenac', aliases: ['voltaren', 'voveran'], classes: ['nsaid'] },
+  { id: 'aspirin', name: 'Aspirin', aliases: ['acetylsalicylic acid', 'disprin', 'ecosprin', 'ecotrin', 'aspro'], classes: ['nsaid', 'antiplatelet'] },
+  { id: 'celecoxib', name: 'Celecoxib', aliases: ['celebrex'], classes: ['nsaid'] },
+  { id: 'tramadol', name: 'Tramadol', aliases: ['ultram'], classes: ['opioid', 'serotonergic'] },
+  { id: 'codeine', name: 'Codeine', aliases: [], classes: ['opioid'] },
+  { id: 'morphine', name: 'Morphine', aliases: [], classes: ['opioid'] },
+  { id: 'oxycodone', name: 'Oxycodone', aliases: ['oxycontin', 'percocet'], classes: ['opioid'] },
+
+  // Blood thinners
+  { id: 'warfarin', name: 'Warfarin', aliases: ['coumadin', 'jantoven'], classes: ['anticoagulant'] },
+  { id: 'apixaban', name: 'Apixaban', aliases: ['eliquis'], classes: ['anticoagulant'] },
+  { id: 'rivaroxaban', name: 'Rivaroxaban', aliases: ['xarelto'], classes: ['anticoagulant'] },
+  { id: 'clopidogrel', name: 'Clopidogrel', aliases: ['plavix'], classes: ['antiplatelet'] },
+
+  // Heart and blood pressure
+  { id: 'lisinopril', name: 'Lisinopril', aliases: ['zestril', 'prinivil'], classes: ['ace-inhibitor'] },
+  { id: 'enalapril', name: 'Enalapril', aliases: ['vasotec'], classes: ['ace-inhibitor'] },
+  { id: 'ramipril', name: 'Ramipril', aliases: ['altace'], classes: ['ace-inhibitor'] },
+  { id: 'losartan', name: 'Losartan', aliases: ['cozaar'], classes: ['arb'] },
+  { id: 'telmisartan', name: 'Telmisartan', aliases: ['micardis', 'telma'], classes: ['arb'] },
+  { id: 'amlodipine', name: 'Amlodipine', aliases: ['norvasc', 'amlong'], classes: ['calcium-channel-blocker'] },
+  { id: 'metoprolol', name: 'Metoprolol', aliases: ['lopressor', 'toprol'], classes: ['beta-blocker'] },
+  { id: 'atenolol', name: 'Atenolol', aliases: ['tenormin'], classes: ['beta-blocker'] },
+  { id: 'propranolol', name: 'Propranolol', aliases: ['inderal'], classes: ['beta-blocker', 'nonselective-beta-blocker'] },
+  { id: 'hydrochlorothiazide', name: 'Hydrochlorothiazide', aliases: ['hctz', 'microzide'], classes: ['thiazide'] },
+  { id: 'furosemide', name: 'Furosemide', aliases: ['lasix'], classes: ['loop-diuretic'] },
+  { id: 'spironolactone', name: 'Spironolactone', aliases: ['aldactone'], classes: ['potassium-sparing'] },
+  { id: 'digoxin', name: 'Digoxin', aliases: ['lanoxin'], classes: ['cardiac-glycoside'] },
+  { id: 'nitroglycerin', name: 'Nitroglycerin', aliases: ['glyceryl trinitrate', 'gtn', 'nitrostat'], classes: ['nitrate'] },
+  { id: 'isosorbide', name: 'Isosorbide', aliases: ['isosorbide mononitrate', 'isosorbide dinitrate', 'imdur'], classes: ['nitrate'] },
+  { id: 'atorvastatin', name: 'Atorvastatin', aliases: ['lipitor'], classes: ['statin'] },
+  { id: 'simvastatin', name: 'Simvastatin', aliases: ['zocor'], classes: ['statin'] },
+  { id: 'rosuvastatin', name: 'Rosuvastatin', aliases: ['crestor'], classes: ['statin'] },
+
+  // Diabetes and thyroid
+  { id: 'metformin', name: 'Metformin', aliases: ['glucophage', 'glycomet'], classes: ['biguanide'] },
+  { id: 'glimepiride', name: 'Glimepiride', aliases: ['amaryl'], classes: ['sulfonylurea'] },
+  { id: 'gliclazide', name: 'Gliclazide', aliases: ['diamicron'], classes: ['sulfonylurea'] },
+  { id: 'insulin', name: 'Insulin', aliases: ['lantus', 'humalog', 'novorapid', 'levemir'], classes: ['insulin'] },
+  { id: 'levothyroxine', name: 'Levothyroxine', aliases: ['synthroid', 'eltroxin', 'thyronorm'], classes: ['thyroid'] },
+
+  // Antibiotics
+  { id: 'amoxicillin', name: 'Amoxicillin', aliases: ['amoxil', 'augmentin', 'co-amoxiclav'], classes: ['penicillin'] },
+  { id: 'penicillin', name: 'Penicillin', aliases: ['penicillin v', 'phenoxymethylpenicillin'], classes: ['penicillin'] },
+  { id: 'cephalexin', name: 'Cephalexin', aliases: ['cefalexin', 'keflex'], classes: ['cephalosporin'] },
+  { id: 'azithromycin', name: 'Azithromycin', aliases: ['zithromax', 'z-pak', 'azithral'], classes: ['macrolide'] },
+  { id: 'clarithromycin', name: 'Clarithromycin', aliases: ['biaxin', 'klacid'], classes: ['macrolide', 'cyp3a4-inhibitor'] },
+  { id: 'ciprofloxacin', name: 'Ciprofloxacin', aliases: ['cipro', 'ciplox'], classes: ['fluoroquinolone'] },
+  { id: 'doxycycline', name: 'Doxycycline', aliases: ['vibramycin'], classes: ['tetracycline'] },
+  { id: 'cotrimoxazole', name: 'Co-trimoxazole', aliases: ['sulfamethoxazole', 'trimethoprim', 'bactrim', 'septra'], classes: ['sulfonamide'] },
+  { id: 'metronidazole', name: 'Metronidazole', aliases: ['flagyl'], classes: ['nitroimidazole'] },
+
+  // Mental health and sleep
+  { id: 'sertraline', name: 'Sertraline', aliases: ['zoloft'], classes: ['ssri', 'serotonergic'] },
+  { id: 'fluoxetine', name: 'Fluoxetine', aliases: ['prozac'], classes: ['ssri', 'serotonergic'] },
+  { id: 'escitalopram', name: 'Escitalopram', aliases: ['lexapro', 'cipralex'], classes: ['ssri', 'serotonergic'] },
+  { id: 'amitriptyline', name: 'Amitriptyline', aliases: ['elavil'], classes: ['tricyclic', 'serotonergic'] },
+  { id: 'phenelzine', name: 'Phenelzine', aliases: ['nardil'], classes: ['maoi'] },
+  { id: 'lithium', name: 'Lithium', aliases: ['lithobid'], classes: ['lithium'] },
+  { id: 'diazepam', name: 'Diazepam', aliases: ['valium'], classes: ['benzodiazepine'] },
+  { id: 'alprazolam', name: 'Alprazolam', aliases: ['xanax'], classes: ['benzodiazepine'] },
+  { id: 'st-johns-wort', name: "St John's wort", aliases: ['st johns wort', 'hypericum'], classes: ['serotonergic'] },
+
+  // Respiratory, allergy and stomach
+  { id: 'salbutamol', name: 'Salbutamol', aliases: ['albuterol', 'ventolin', 'asthalin'], classes: ['beta-agonist'] },
+  { id: 'montelukast', name: 'Montelukast', aliases: ['singulair'], classes: ['leukotriene-antagonist'] },
+  { id: 'prednisone', name: 'Prednisone', aliases: ['prednisolone', 'deltasone'], classes: ['corticosteroid'] },
+  { id: 'cetirizine', name: 'Cetirizine', aliases: ['zyrtec'], classes: ['antihistamine'] },
+  { id: 'loratadine', name: 'Loratadine', aliases: ['claritin'], classes: ['antihistamine'] },
+  { id: 'pseudoephedrine', name: 'Pseudoephedrine', aliases: ['sudafed'], classes: ['decongestant'] },
+  { id: 'omeprazole', name: 'Omeprazole', aliases: ['prilosec', 'omez'], classes: ['ppi'] },
+  { id: 'pantoprazole', name: 'Pantoprazole', aliases: ['protonix', 'pantocid'], classes: ['ppi'] },
+
+  // Other
+  { id: 'allopurinol', name: 'Allopurinol', aliases: ['zyloprim'], classes: ['xanthine-oxidase-inhibitor'] },
+  { id: 'potassium', name: 'Potassium chloride', aliases: ['potassium supplement', 'k-dur', 'klor-con'], classes: ['potassium'] },
+  { id: 'sildenafil', name: 'Sildenafil', aliases: ['viagra', 'revatio'], classes: ['pde5-inhibitor'] },
+];
+
+// Either side may name a drug id or a class as `class:<name>`
+export const INTERACTIONS: InteractionRule[] = [
+  { a: 'class:anticoagulant', b: 'class:nsaid', severity: 'major', description: 'Greatly raises the risk of serious bleeding.' },
+  { a: 'class:anticoagulant', b: 'class:antiplatelet', severity: 'major', description: 'Combining blood thinners raises the risk of serious bleeding.' },
+  { a: 'warfarin', b: 'metronidazole', severity: 'major', description: 'Metronidazole strongly increases the effect of warfarin and the risk of bleeding.' },
+  { a: 'warfarin', b: 'cotrimoxazole', severity: 'major', description: 'Co-trimoxazole strongly increases the effect of warfarin and the risk of bleeding.' },
+  { a: 'warfarin', b: 'ciprofloxacin', severity: 'moderate', description: 'Ciprofloxacin can increase the effect of warfarin; INR may need closer monitoring.' },
+  { a: 'class:nsaid', b: 'class:nsaid', severity: 'moderate', description: 'Two NSAIDs together raise the risk of stomach bleeding and kidney harm.' },
+  { a: 'class:ssri', b: 'class:nsaid', severity: 'moderate', description: 'Raises the risk of stomach bleeding.' },
+  { a: 'class:ssri', b: 'class:anticoagulant', severity: 'moderate', description: 'Raises the risk of bleeding.' },
+  { a: 'class:serotonergic', b: 'class:maoi', severity: 'major', description: 'Can cause serotonin syndrome, which may be life-threatening.' },
+  { a: 'class:ssri', b: 'tramadol', severity: 'major', description: 'Can cause serotonin syndrome and seizures.' },
+  { a: 'class:ssri', b: 'st-johns-wort', severity: 'major', description: 'Can cause serotonin syndrome.' },
+  { a: 'class:ssri', b: 'class:tricyclic', severity: 'moderate', description: 'Can raise tricyclic levels and the risk of serotonin syndrome.' },
+  { a: 'tramadol', b: 'class:tricyclic', severity: 'major', description: 'Raises the risk of seizures and serotonin syndrome.' },
+  { a: 'class:maoi', b: 'pseudoephedrine', severity: 'major', description: 'Can cause a dangerous rise in blood pressure.' },
+  { a: 'class:maoi', b: 'tramadol', severity: 'major', description: 'Can cause serotonin syndrome and seizures.' },
+  { a: 'class:opioid', b: 'class:benzodiazepine', severity: 'major', description: 'Together they can slow or stop breathing.' },
+  { a: 'class:ace-inhibitor', b: 'class:arb', severity: 'major', description: 'Dual blockade raises the risk of kidney problems and high potassium.' },
+  { a: 'class:ace-inhibitor', b: 'class:potassium-sparing', severity: 'moderate', description: 'Can raise potassium to dangerous levels.' },
+  { a: 'class:arb', b: 'class:potassium-sparing', severity: 'moderate', description: 'Can raise potassium to dangerous levels.' },
+  { a: 'class:ace-inhibitor', b: 'class:potassium', severity: 'moderate', description: 'Can raise potassium to dangerous levels.' },
+  { a: 'class:arb', b: 'class:potassium', severity: 'moderate', description: 'Can raise potassium to dangerous levels.' },
+  { a: 'class:ace-inhibitor', b: 'class:nsaid', severity: 'moderate', description: 'NSAIDs weaken blood pressure control and can harm the kidneys.' },
+  { a: 'class:arb', b: 'class:nsaid', severity: 'moderate', description: 'NSAIDs weaken blood pressure control and can harm the kidneys.' },
+  { a: 'class:loop-diuretic', b: 'class:nsaid', severity: 'moderate', description: 'NSAIDs weaken the diuretic and can harm the kidneys.' },
+  { a: 'class:lithium', b: 'class:nsaid', severity: 'major', description: 'NSAIDs can raise lithium to toxic levels.' },
+  { a: 'class:lithium', b: 'class:ace-inhibitor', severity: 'major', description: 'Can raise lithium to toxic levels.' },
+  { a: 'class:lithium', b: 'class:thiazide', severity: 'major', description: 'Thiazides can raise lithium to toxic levels.' },
+  { a: 'simvastatin', b: 'clarithromycin', severity: 'major', description: 'Raises simvastatin levels and the risk of severe muscle damage.' },
+  { a: 'atorvastatin', b: 'clarithromycin', severity: 'moderate', description: 'Raises atorvastatin levels and the risk of muscle pain or damage.' },
+  { a: 'simvastatin', b: 'amlodipine', severity: 'moderate', description: 'Raises simvastatin levels; the simvastatin dose is usually limited.' },
+  { a: 'clopidogrel', b: 'omeprazole', severity: 'moderate', description: 'Omeprazole can make clopidogrel less effective.' },
+  { a: 'class:pde5-inhibitor', b: 'class:nitrate', severity: 'major', description: 'Can cause a sudden, dangerous drop in blood pressure.' },
+  { a: 'digoxin', b: 'clarithromycin', severity: 'major', description: 'Can raise digoxin to toxic levels.' },
+  { a: 'digoxin', b: 'class:loop-diuretic', severity: 'moderate', description: 'Low potassium from the diuretic raises the risk of digoxin toxicity.' },
+  { a: 'class:nonselective-beta-blocker', b: 'class:beta-agonist', severity: 'moderate', description: 'Can block the inhaler and tighten the airways.' },
+  { a: 'class:beta-blocker', b: 'class:sulfonylurea', severity: 'minor', description: 'Can hide the warning signs of low blood sugar.' },
+  { a: 'class:beta-blocker', b: 'class:insulin', severity: 'minor', description: 'Can hide the warning signs of low blood sugar.' },
+  { a: 'class:fluoroquinolone', b: 'class:corticosteroid', severity: 'moderate', description: 'Raises the risk of tendon damage.' },
+  { a: 'allopurinol', b: 'amoxicillin', severity: 'minor', description: 'Raises the chance of a skin rash.' },
+  { a: 'levothyroxine', b: 'class:ppi', severity: 'minor', description: 'Can reduce levothyroxine absorption; take them apart.' },
+];
+
+export const ALLERGY_CLASSES: AllergyClass[] = [
+  {
+    id: 'penicillin',
+    name: 'Penicillin',
+    terms: ['penicillin', 'penicillins', 'amoxicillin', 'augmentin', 'ampicillin', 'beta lactam'],
+    conflicts: [
+      { drugClass: 'penicillin', severity: 'major' },
+      { drugClass: 'cephalosporin', severity: 'moderate', note: 'A small share of people allergic to penicillin also react to cephalosporins.' },
+    ],
+  },
+  {
+    id: 'cephalosporin',
+    name: 'Cephalosporin',
+    terms: ['cephalosporin', 'cephalosporins', 'cephalexin', 'cefalexin', 'keflex', 'cefuroxime', 'ceftriaxone'],
+    conflicts: [{ drugClass: 'cephalosporin', severity: 'major' }],
+  },
+  {
+    id: 'sulfa',
+    name: 'Sulfa',
+    terms: ['sulfa', 'sulpha', 'sulfonamide', 'sulfonamides', 'sulphonamide', 'sulfamethoxazole', 'bactrim', 'septra'],
+    conflicts: [{ drugClass: 'sulfonamide', severity: 'major' }],
+  },
+  {
+    id: 'nsaid',
+    name: 'NSAID',
+    terms: ['nsaid', 'nsaids', 'ibuprofen', 'aspirin', 'naproxen', 'diclofenac', 'anti inflammatory', 'anti inflammatories'],
+    conflicts: [{ drugClass: 'nsaid', severity: 'major' }],
+  },
+  {
+    id: 'opioid',
+    name: 'Opioid',
+    terms: ['opioid', 'opioids', 'opiate', 'opiates', 'codeine', 'morphine', 'tramadol', 'oxycodone'],
+    conflicts: [{ drugClass: 'opioid', severity: 'major' }],
+  },
+  {
+    id: 'macrolide',
+    name: 'Macrolide',
+    terms: ['macrolide', 'macrolides', 'erythromycin', 'azithromycin', 'clarithromycin'],
+    conflicts: [{ drugClass: 'macrolide', severity: 'major' }],
+  },
+  {
+    id: 'fluoroquinolone',
+    name: 'Fluoroquinolone',
+    terms: ['quinolone', 'quinolones', 'fluoroquinolone', 'fluoroquinolones', 'ciprofloxacin', 'levofloxacin'],
+    conflicts: [{ drugClass: 'fluoroquinolone', severity: 'major' }],
+  },
+  {
+    id: 'tetracycline',
+    name: 'Tetracycline',
+    terms: ['tetracycline', 'tetracyclines', 'doxycycline', 'minocycline'],
+    conflicts: [{ drugClass: 'tetracycline', severity: 'major' }],
+  },
+  {
+    id: 'ace-inhibitor',
+    name: 'ACE inhibitor',
+    terms: ['ace inhibitor', 'ace inhibitors', 'lisinopril', 'enalapril', 'ramipril'],
+    conflicts: [{ drugClass: 'ace-inhibitor', severity: 'major' }],
+  },
+  {
+    id: 'benzodiazepine',
+    name: 'Benzodiazepine',
+    terms: ['benzodiazepine', 'benzodiazepines', 'diazepam', 'alprazolam', 'lorazepam'],
+    conflicts: [{ drugClass: 'benzodiazepine', severity: 'major' }],
+  },
+];
+
+export const CONDITION_RULES: ConditionRule[] = [
+  { terms: ['asthma'], target: 'class:nonselective-beta-blocker', severity: 'major', description: 'Can trigger severe asthma attacks.' },
+  { terms: ['asthma'], target: 'class:nsaid', severity: 'moderate', description: 'Can trigger asthma attacks in some people.' },
+  { terms: ['kidney disease', 'chronic kidney disease', 'ckd', 'renal failure', 'kidney failure', 'renal disease'], target: 'class:nsaid', severity: 'major', description: 'Can further damage the kidneys.' },
+  { terms: ['kidney disease', 'chronic kidney disease', 'ckd', 'renal failure', 'kidney failure', 'renal disease'], target: 'metformin', severity: 'moderate', description: 'The dose may need to change with reduced kidney function.' },
+  { terms: ['ulcer', 'peptic ulcer', 'stomach ulcer', 'gastritis', 'gi bleed', 'stomach bleeding'], target: 'class:nsaid', severity: 'major', description: 'Can cause ulcers to bleed.' },
+  { terms: ['ulcer', 'peptic ulcer', 'stomach ulcer', 'gi bleed', 'stomach bleeding'], target: 'class:anticoagulant', severity: 'moderate', description: 'Raises the risk of stomach bleeding.' },
+  { terms: ['liver disease', 'cirrhosis', 'hepatitis', 'fatty liver'], target: 'paracetamol', severity: 'moderate', description: 'A lower maximum daily dose is usually needed.' },
+  { terms: ['liver disease', 'cirrhosis', 'hepatitis'], target: 'class:statin', severity: 'moderate', description: 'Liver function may need monitoring.' },
+  { terms: ['pregnant', 'pregnancy'], target: 'warfarin', severity: 'major', description: 'Can harm an unborn baby.' },
+  { terms: ['pregnant', 'pregnancy'], target: 'class:ace-inhibitor', severity: 'major', description: 'Can harm an unborn baby.' },
+  { terms: ['pregnant', 'pregnancy'], target: 'class:arb', severity: 'major', description: 'Can harm an unborn baby.' },
+  { terms: ['pregnant', 'pregnancy'], target: 'class:statin', severity: 'major', description: 'Usually stopped during pregnancy.' },
+  { terms: ['pregnant', 'pregnancy'], target: 'class:tetracycline', severity: 'major', description: "Can affect a baby's teeth and bones." },
+  { terms: ['pregnant', 'pregnancy'], target: 'class:nsaid', severity: 'moderate', description: 'Usually avoided, especially later in pregnancy.' },
+  { terms: ['hypertension', 'high blood pressure'], target: 'class:decongestant', severity: 'moderate', description: 'Can raise blood pressure.' },
+  { terms: ['hypertension', 'high blood pressure'], target: 'class:nsaid', severity: 'minor', description: 'Regular use can raise blood pressure.' },
+  { terms: ['heart failure'], target: 'class:nsaid', severity: 'major', description: 'Can cause fluid retention and worsen heart failure.' },
+  { terms: ['diabetes', 'diabetic'], target: 'class:corticosteroid', severity: 'moderate', description: 'Can raise blood sugar.' },
+  { terms: ['bleeding disorder', 'hemophilia', 'haemophilia'], target: 'class:anticoagulant', severity: 'major', description: 'Raises the risk of serious bleeding.' },
+  { terms: ['bleeding disorder', 'hemophilia', 'haemophilia'], target: 'class:nsaid', severity: 'major', description: 'Raises the risk of serious bleeding.' },
+  { terms: ['gout'], target: 'class:thiazide', severity: 'moderate', description: 'Can trigger gout flares.' },
+];
@@ -0,0 +1,119 @@
+import { ALLERGY_CLASSES, CONDITION_RULES, DRUGS, INTERACTIONS } from './data';
+import { DrugEntry, DrugRef, HealthProfileContext, MedicationReview, MedicationWarning, Severity } from './types';
+
+export * from './types';
+export { DRUGS };
+
+const SEVERITY_RANK: Record<Severity, number> = { major: 0, moderate: 1, minor: 2 };
+
+// Lowercase words separated by single spaces, so "Lipitor-20mg" matches "lipitor"
+const normalize = (text: string) =>
+  ` ${text.toLowerCase().replace(/['’]/g, '').replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const containsTerm = (text: string, term: string) => normalize(text).includes(normalize(term));
+
+const refersTo = (drug: DrugEntry, ref: DrugRef) =>
+  ref.startsWith('class:') ? drug.classes.includes(ref.slice('class:'.length)) : drug.id === ref;
+
+const bySeverity = (a: MedicationWarning, b: MedicationWarning) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity];
+
+/**
+ * Finds the known drugs named in free text such as a reminder title
+ * ("Take Lipitor 20mg after dinner"). Returns an empty list when nothing matches.
+ */
+export const matchDrugs = (text: string): DrugEntry[] =>
+  DRUGS.filter(drug => [drug.name, ...drug.aliases].some(name => containsTerm(text, name)));
+
+const interactionWarnings = (first: DrugEntry[], second: DrugEntry[]): MedicationWarning[] => {
+  const warnings = new Map<string, MedicationWarning>();
+  first.forEach(a =>
+    second.forEach(b => {
+      if (a.id === b.id) return;
+      INTERACTIONS.forEach(rule => {
+        if (!(refersTo(a, rule.a) && refersTo(b, rule.b)) && !(refersTo(a, rule.b) && refersTo(b, rule.a))) return;
+        // One warning per pair, from its most severe rule
+        const key = [a.id, b.id].sort().join('+');
+        const existing = warnings.get(key);
+        if (existing && SEVERITY_RANK[existing.severity] <= SEVERITY_RANK[rule.severity]) return;
+        warnings.set(key, {
+          kind: 'interaction',
+          severity: rule.severity,
+          drugs: [a.name, b.name],
+          subject: b.name,
+          message: `${a.name} with ${b.name}: ${rule.description}`,
+        });
+      });
+    })
+  );
+  return Array.from(warnings.values());
+};
+
+const allergyWarnings = (drug: DrugEntry, allergies: string[]): MedicationWarning[] =>
+  allergies.flatMap(allergy => {
+    // An allergy written as a drug name ("advil") also covers that drug directly
+    if (matchDrugs(allergy).some(match => match.id === drug.id)) {
+      return [{
+        kind: 'allergy' as const,
+        severity: 'major' as const,
+        drugs: [drug.name],
+        subject: allergy,
+        message: `${drug.name}: your profile lists an allergy to ${allergy}.`,
+      }];
+    }
+    const conflicts = ALLERGY_CLASSES.filter(allergyClass => allergyClass.terms.some(term => containsTerm(allergy, term)))
+      .flatMap(allergyClass => allergyClass.conflicts)
+      .filter(conflict => drug.classes.includes(conflict.drugClass))
+      .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+    if (conflicts.length === 0) return [];
+    const [worst] = conflicts;
+    return [{
+      kind: 'allergy' as const,
+      severity: worst.severity,
+      drugs: [drug.name],
+      subject: allergy,
+      message: `${drug.name} may trigger your ${allergy} allergy.${worst.note ? ` ${worst.note}` : ''}`,
+    }];
+  });
+
+const conditionWarnings = (drug: DrugEntry, conditions: string[]): MedicationWarning[] =>
+  CONDITION_RULES.filter(rule => refersTo(drug, rule.target)).flatMap(rule => {
+    const condition = conditions.find(text => rule.terms.some(term => containsTerm(text, term)));
+    if (!condition) return [];
+    return [{
+      kind: 'condition' as const,
+      severity: rule.severity,
+      drugs: [drug.name],
+      subject: condition,
+      message: `${drug.name} (${condition}): ${rule.description}`,
+    }];
+  });
+
+const profileWarnings = (drugs: DrugEntry[], profile: HealthProfileContext) =>
+  drugs.flatMap(drug => [
+    ...allergyWarnings(drug, profile.allergies || []),
+    ...conditionWarnings(drug, profile.conditions || []),
+  ]);
+
+/**
+ * Checks a medication about to be added against the user's other medications,
+ * allergies and conditions. Only warnings involving the new medication are returned.
+ */
+export const checkNewMedication = (
+  title: string,
+  existingTitles: string[],
+  profile: HealthProfileContext
+): { drugs: DrugEntry[]; warnings: MedicationWarning[] } => {
+  const drugs = matchDrugs(title);
+  if (drugs.length === 0) return { drugs, warnings: [] };
+  const existing = existingTitles.flatMap(matchDrugs);
+  const warnings = [...interactionWarnings(drugs, existing), ...profileWarnings(drugs, profile)];
+  return { drugs, warnings: warnings.sort(bySeverity) };
+};
+
+// Every interaction and profile conflict across a medication list, most severe first
+export const reviewMedications = (titles: string[], profile: HealthProfileContext): MedicationReview => {
+  const medications = titles.map(title => ({ title, drugs: matchDrugs(title) }));
+  const drugs = Array.from(new Map(medications.flatMap(med => med.drugs).map(drug => [drug.id, drug])).values());
+  const interactions = drugs.flatMap((drug, i) => interactionWarnings([drug], drugs.slice(i + 1)));
+  return { medications, warnings: [...interactions, ...profileWarnings(drugs, profile)].sort(bySeverity) };
+};
@@ -0,0 +1,51 @@
+export type Severity = 'major' | 'moderate' | 'minor';
+
+export interface DrugEntry {
+  id: string;
+  name: string;
+  aliases: string[]; // Brand names and alternative spellings, lowercase
+  classes: string[];
+}
+
+// `drug-id` or `class:<class>`
+export type DrugRef = string;
+
+export interface InteractionRule {
+  a: DrugRef;
+  b: DrugRef;
+  severity: Severity;
+  description: string;
+}
+
+export interface AllergyClass {
+  id: string;
+  name: string;
+  terms: string[]; // What people write in the profile's allergy list
+  conflicts: { drugClass: string; severity: Severity; note?: string }[];
+}
+
+export interface ConditionRule {
+  terms: string[]; // What people write in the profile's condition list
+  target: DrugRef;
+  severity: Severity;
+  description: string;
+}
+
+export interface MedicationWarning {
+  kind: 'interaction' | 'allergy' | 'condition';
+  severity: Severity;
+  drugs: string[]; // Names of the medications involved
+  subject: string; // The other drug, the allergy or the condition, as written
+  message: string;
+}
+
+// The allergy and condition lists from the user's profile, as free text
+export interface HealthProfileContext {
+  allergies?: string[];
+  conditions?: string[];
+}
+
+export interface MedicationReview {
+  medications: { title: string; drugs: DrugEntry[] }[];
+  warnings: MedicationWarning[];
+}
@@ -0,0 +1,80 @@
+import * as Location from 'expo-location';
+import { Linking, Platform } from 'react-native';
+
+// Stored on the user's profile document
+export interface EmergencyContact {
+  name: string;
+  relationship: string;
+  phoneNumber: string;
+}
+
+const dialable = (phoneNumber: string) => phoneNumber.replace(/[^\d+]/g, '');
+
+// iOS separates the body with '&', Android with '?'
+export const getSmsUrl = (phoneNumber: string, body: string) =>
+  `sms:${dialable(phoneNumber)}${Platform.OS === 'ios' ? '&' : '?'}body=${encodeURIComponent(body)}`;
+
+export const getCallUrl = (phoneNumber: string) => `tel:${dialable(phoneNumber)}`;
+
+// Opens the messaging app with the text filled in; the user still sends it
+export const messageEmergencyContact = (contact: EmergencyContact, body: string) =>
+  Linking.openURL(getSmsUrl(contact.phoneNumber, body));
+
+// Opens the dialer with the number filled in; the user still places the call
+export const callEmergencyContact = (contact: EmergencyContact) => Linking.openURL(getCallUrl(contact.phoneNumber));
+
+const LOCATION_TIMEOUT_MS = 10 * 1000;
+
+// A recent fix when there is one, so an emergency is not held up; null without permission or a fix
+const getPosition = async (askPermission: boolean) => {
+  const { status } = askPermission
+    ? await Location.requestForegroundPermissionsAsync()
+    : await Location.getForegroundPermissionsAsync();
+  if (status !== 'granted') return null;
+  return (
+    (await Location.getLastKnownPositionAsync({ maxAge: 5 * 60 * 1000 })) ??
+    (await Promise.race([
+      Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }),
+      new Promise<null>(resolve => setTimeout(() => resolve(null), LOCATION_TIMEOUT_MS)),
+    ]))
+  );
+};
+
+// A map link for where the phone is, or null without permission or a fix
+export const getCurrentLocationLink = async (): Promise<string | null> => {
+  try {
+    const position = await getPosition(true);
+    if (!position) return null;
+    const { latitude, longitude } = position.coords;
+    return `https://maps.google.com/?q=${latitude.toFixed(5)},${longitude.toFixed(5)}`;
+  } catch (error) {
+    console.error('Error getting location:', error);
+    return null;
+  }
+};
+
+/**
+ * ISO country code for where the phone is, e.g. 'GB', or null when location
+ * is not allowed or the place can't be looked up (Android needs a connection
+ * for that). Never asks for permission, so it can't hold up an emergency call.
+ */
+export const getCurrentCountryCode = async (): Promise<string | null> => {
+  try {
+    const position = await getPosition(false);
+    if (!position) return null;
+    const [place] = await Location.reverseGeocodeAsync(position.coords);
+    return place?.isoCountryCode?.toUpperCase() || null;
+  } catch (error) {
+    console.error('Error looking up country:', error);
+    return null;
+  }
+};
+
+export const getEmergencyMessage = (contact: EmergencyContact, userName: string, locationLink: string | null) =>
+  [
+    `${contact.name}, this is an emergency. ${userName || 'I'} need${userName ? 's' : ''} help.`,
+    locationLink ? `Location: ${locationLink}` : null,
+    '(Sent from Neuracare)',
+  ]
+    .filter(Boolean)
+    .join('\n');
@@ -0,0 +1,116 @@
+import * as Notifications from 'expo-notifications';
+import { addDoc, collection, doc, getDoc, serverTimestamp, setDoc, Timestamp } from 'firebase/firestore';
+import { Alert } from 'react-native';
+import { auth, db } from '../config/firebase';
+import { callEmergencyContact, EmergencyContact, messageEmergencyContact } from './emergencyContact';
+
+// Follow-ups that went off ('renotified', then 'escalated' for the contact prompt), then what the user did with them
+export type EscalationStep = 'renotified' | 'escalated' | 'prompted' | 'messaged' | 'called' | 'dismissed';
+
+// Appended to users/{uid}/escalations, one entry per step, so families can see what was done and when
+export interface EscalationEntry {
+  occurrenceId: string;
+  medicationId?: string;
+  reminderId?: string;
+  title: string;
+  scheduledAt: Timestamp;
+  critical: boolean;
+  step: EscalationStep;
+  contactName: string;
+  firedAt?: Timestamp; // When the follow-up went off, for 'renotified' and 'escalated'
+  createdAt: Timestamp;
+}
+
+// A follow-up whose time has passed without the dose being recorded
+export interface FiredEscalation {
+  step: 'renotified' | 'escalated';
+  firedAt: Date;
+  data: Record<string, any>; // The follow-up's notification data
+}
+
+const toEntry = (data: Record<string, any>, step: EscalationStep) => {
+  const entry: Record<string, any> = {
+    occurrenceId: data.occurrenceId,
+    title: data.title || 'Medication',
+    scheduledAt: Timestamp.fromMillis(data.scheduledAt ?? Date.now()),
+    critical: !!data.critical,
+    step,
+    contactName: data.contactName || '',
+    createdAt: serverTimestamp(),
+  };
+  if (data.medicationId) entry.medicationId = data.medicationId;
+  if (data.reminderId) entry.reminderId = data.reminderId;
+  return entry;
+};
+
+const logEscalation = (uid: string, data: Record<string, any>, step: EscalationStep) =>
+  addDoc(collection(db, 'users', uid, 'escalations'), toEntry(data, step));
+
+/**
+ * Logs follow-ups that went off, whether or not the user saw them, so a
+ * missed dose is on record even when every notification was ignored. Each
+ * step is stored under a fixed id and written once.
+ */
+export const logFiredEscalations = async (uid: string, fired: FiredEscalation[]) => {
+  for (const { step, firedAt, data } of fired) {
+    const ref = doc(db, 'users', uid, 'escalations', `${data.occurrenceId}:${step}`);
+    if ((await getDoc(ref)).exists()) continue;
+    await setDoc(ref, { ...toEntry(data, step), firedAt: Timestamp.fromDate(firedAt) });
+  }
+};
+
+const contactStep = async (uid: string, data: Record<string, any>, step: 'messaged' | 'called') => {
+  const contact: EmergencyContact = { name: data.contactName, relationship: '', phoneNumber: data.contactPhone };
+  if (step === 'called') {
+    await callEmergencyContact(contact);
+  } else {
+    await messageEmergencyContact(contact, data.contactMessage);
+  }
+  await logEscalation(uid, data, step);
+};
+
+const ACTION_STEP: Record<string, 'messaged' | 'called'> = { message: 'messaged', call: 'called' };
+
+/**
+ * Handles the prompt sent when a dose is still not taken after the
+ * re-notify. The Message / Call buttons open a prefilled text or the dialer;
+ * a plain tap asks which one first. Every step is logged.
+ */
+export const handleEscalationResponse = async (response: Notifications.NotificationResponse) => {
+  const data = response.notification.request.content.data;
+  const uid = auth.currentUser?.uid;
+  if (!uid || !data?.contactPhone) return;
+
+  const run = (step: 'messaged' | 'called') =>
+    contactStep(uid, data, step).catch(error => {
+      console.error('Error contacting emergency contact:', error);
+      Alert.alert('Error', `Could not open ${step === 'called' ? 'the phone app' : 'messages'}. Please contact ${data.contactName} directly.`);
+    });
+
+  try {
+    await Notifications.dismissNotificationAsync(response.notification.request.identifier);
+    const step = ACTION_STEP[response.actionIdentifier];
+    if (step) {
+      await run(step);
+      return;
+    }
+    await logEscalation(uid, data, 'prompted');
+    Alert.alert(
+      `${data.title || 'Your medication'} not taken`,
+      `Let ${data.contactName} know you missed your ${new Date(data.scheduledAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })} dose?`,
+      [
+        {
+          text: 'Not now',
+          style: 'cancel',
+          onPress: () => {
+            logEscalation(uid, data, 'dismissed').catch(error => console.error('Error logging escalation:', error));
+          },
+        },
+        { text: 'Call', onPress: () => run('called') },
+        { text: 'Message', onPress: () => run('messaged') },
+      ]
+    );
+  } catch (error) {
+    console.error('Error handling escalation:', error);
+  }
+};
@@ -0,0 +1,241 @@
+import { Timestamp } from 'firebase/firestore';
+import { estimateTokens } from './llm';
+
+// Structural subsets of the Firestore documents the chat screen already loads
+export interface ContextProfile {
+  fullName?: string;
+  email?: string;
+  phoneNumber?: string;
+  dateOfBirth?: string;
+  gender?: string;
+  height?: number;
+  weight?: number;
+  bloodType?: string;
+  allergies?: string[];
+  conditions?: string[];
+  emergencyContact?: { name: string; relationship: string; phoneNumber: string };
+}
+
+export interface ContextVital {
+  value: number | string;
+  unit?: string;
+  status?: string;
+  goal?: number;
+}
+
+export interface ContextMetric {
+  type: string;
+  value: number | string;
+  unit: string;
+  timestamp: Timestamp;
+  notes?: string;
+}
+
+export interface ContextHealthData {
+  vitals?: Record<string, ContextVital | undefined>;
+  metrics?: ContextMetric[];
+}
+
+export interface ContextMessage {
+  type: 'user' | 'assistant';
+  message: string;
+}
+
+export interface HealthContextInput {
+  question: string;
+  profile?: ContextProfile | null;
+  healthData?: ContextHealthData | null;
+  history?: ContextMessage[];
+  summary?: string;
+  tokenBudget: number;
+  maxHistoryMessages?: number;
+}
+
+export interface HealthContext {
+  healthInfo: string;
+  summary: string;
+  conversation: string;
+  tokenCount: number;
+}
+
+const REDACTED = '[redacted]';
+
+// Question keywords that make a vital or metric type relevant
+const TOPIC_KEYWORDS: Record<string, string[]> = {
+  heartRate: ['heart', 'pulse', 'bpm', 'palpitation', 'cardio', 'chest'],
+  bloodPressure: ['blood pressure', 'bp', 'hypertension', 'hypotension', 'dizz', 'headache'],
+  temperature: ['fever', 'temperature', 'chill', 'flu', 'infection'],
+  oxygenLevel: ['oxygen', 'spo2', 'breath', 'asthma', 'lung', 'cough'],
+  weight: ['weight', 'diet', 'bmi', 'calorie', 'obes', 'meal', 'exercise'],
+  water: ['water', 'hydrat', 'thirst', 'dehydrat'],
+  sleep: ['sleep', 'insomnia', 'tired', 'fatigue', 'rest'],
+};
+
+const ABNORMAL_STATUSES = ['high', 'low', 'need more', 'not enough', 'too much'];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const humanize = (key: string) => {
+  const spaced = key.replace(/([A-Z])/g, ' $1').trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+};
+
+const getRelevantTopics = (question: string): Set<string> => {
+  const text = question.toLowerCase();
+  const topics = new Set<string>();
+  Object.entries(TOPIC_KEYWORDS).forEach(([topic, keywords]) => {
+    if (keywords.some(keyword => new RegExp(`\\b${escapeRegExp(keyword)}`).test(text))) {
+      topics.add(topic);
+    }
+  });
+  return topics;
+};
+
+// Whole years since a 'YYYY-MM-DD' date of birth, or null if it is missing or can't be read
+export const getAge = (dateOfBirth?: string): number | null => {
+  if (!dateOfBirth) return null;
+  const birth = new Date(dateOfBirth);
+  if (isNaN(birth.getTime())) return null;
+  const now = new Date();
+  let age = now.getFullYear() - birth.getFullYear();
+  const beforeBirthday =
+    now.getMonth() < birth.getMonth() ||
+    (now.getMonth() === birth.getMonth() && now.getDate() < birth.getDate());
+  if (beforeBirthday) age--;
+  return age >= 0 && age < 130 ? age : null;
+};
+
+/**
+ * Replaces identifying details (names, email, phone numbers, emergency contact)
+ * with a placeholder so they never reach the model provider.
+ */
+export const redactIdentifiers = (text: string, profile?: ContextProfile | null): string => {
+  let redacted = text;
+  const identifiers: string[] = [];
+  if (profile) {
+    if (profile.email) identifiers.push(profile.email);
+    if (profile.fullName) identifiers.push(profile.fullName, ...profile.fullName.split(/\s+/));
+    if (profile.emergencyContact?.name) {
+      identifiers.push(profile.emergencyContact.name, ...profile.emergencyContact.name.split(/\s+/));
+    }
+  }
+  identifiers
+    .filter(value => value && value.length >= 3)
+    .sort((a, b) => b.length - a.length)
+    .forEach(value => {
+      redacted = redacted.replace(new RegExp(`\\b${escapeRegExp(value)}\\b`, 'gi'), REDACTED);
+    });
+
+  return redacted
+    .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, REDACTED)
+    .replace(/\+?\(?\d[\d\s().-]{7,}\d/g, match =>
+      // Dates and readings have fewer digits than a phone number
+      match.replace(/\D/g, '').length >= 9 ? REDACTED : match
+    );
+};
+
+const buildProfileLines = (profile: ContextProfile, topics: Set<string>, question: string): string[] => {
+  const lines: string[] = [];
+  const age = getAge(profile.dateOfBirth);
+  if (age !== null) lines.push(`Age: ${age}`);
+  if (profile.gender) lines.push(`Gender: ${profile.gender}`);
+  if (profile.allergies?.length) lines.push(`Allergies: ${profile.allergies.join(', ')}`);
+  if (profile.conditions?.length) lines.push(`Medical Conditions: ${profile.conditions.join(', ')}`);
+  if (topics.has('weight')) {
+    if (profile.height) lines.push(`Height: ${profile.height} cm`);
+    if (profile.weight) lines.push(`Weight: ${profile.weight} kg`);
+  }
+  if (profile.bloodType && /\b(blood type|transfusion|donat)/i.test(question)) {
+    lines.push(`Blood Type: ${profile.bloodType}`);
+  }
+  return lines;
+};
+
+const formatVital = (key: string, vital: ContextVital): string => {
+  let line = `${humanize(key)}: ${vital.value} ${vital.unit || ''}`.trim();
+  if (vital.status) line += ` (${vital.status})`;
+  if (vital.goal) line += ` - Goal: ${vital.goal} ${vital.unit || ''}`.trimEnd();
+  return line;
+};
+
+const isAbnormal = (vital: ContextVital) =>
+  !!vital.status && ABNORMAL_STATUSES.includes(vital.status.toLowerCase());
+
+/**
+ * Assembles the health context and recent conversation for a chat prompt.
+ * Items are added in priority order (profile safety fields, the session summary,
+ * vitals relevant to the question or out of range, recent turns, then everything else) until the token
+ * budget is spent, and every piece of free text is passed through redactIdentifiers.
+ */
+export const buildHealthContext = ({
+  question,
+  profile,
+  healthData,
+  history = [],
+  summary,
+  tokenBudget,
+  maxHistoryMessages = 10,
+}: HealthContextInput): HealthContext => {
+  const topics = getRelevantTopics(question);
+  let remaining = tokenBudget;
+
+  const take = (line: string): boolean => {
+    const cost = estimateTokens(line) + 1;
+    if (cost > remaining) return false;
+    remaining -= cost;
+    return true;
+  };
+
+  const profileLines = profile ? buildProfileLines(profile, topics, question).filter(take) : [];
+  const summaryText = summary ? redactIdentifiers(summary, profile) : '';
+  const includedSummary = summaryText && take(summaryText) ? summaryText : '';
+
+  const vitals = Object.entries(healthData?.vitals || {}).filter(
+    (entry): entry is [string, ContextVital] => entry[1]?.value !== undefined
+  );
+  const primaryVitals = vitals.filter(([key, vital]) => topics.has(key) || isAbnormal(vital));
+  const vitalLines = primaryVitals.map(([key, vital]) => formatVital(key, vital)).filter(take);
+
+  const latestMetrics = new Map<string, ContextMetric>();
+  (healthData?.metrics || []).forEach(metric => {
+    const current = latestMetrics.get(metric.type);
+    if (!current || metric.timestamp.seconds > current.timestamp.seconds) {
+      latestMetrics.set(metric.type, metric);
+    }
+  });
+  const metricLines = Array.from(latestMetrics.values())
+    .filter(metric => topics.has(metric.type))
+    .map(metric => {
+      const notes = metric.notes ? ` (Note: ${redactIdentifiers(metric.notes, profile)})` : '';
+      return `${humanize(metric.type)}: ${metric.value} ${metric.unit}${notes}`;
+    })
+    .filter(take);
+
+  // Newest turns first so the budget keeps the most recent exchange
+  const historyLines: string[] = [];
+  for (const msg of history.slice(-maxHistoryMessages).reverse()) {
+    const line = `${msg.type === 'user' ? 'User' : 'Assistant'}: ${redactIdentifiers(msg.message, profile)}`;
+    if (!take(line)) break;
+    historyLines.unshift(line);
+  }
+
+  vitals
+    .filter(entry => !primaryVitals.includes(entry))
+    .map(([key, vital]) => formatVital(key, vital))
+    .filter(take)
+    .forEach(line => vitalLines.push(line));
+
+  const sections: string[] = [];
+  if (profileLines.length) sections.push(`Profile:\n${profileLines.join('\n')}`);
+  if (vitalLines.length) sections.push(`Recent Vital Signs:\n${vitalLines.join('\n')}`);
+  if (metricLines.length) sections.push(`Additional Health Metrics:\n${metricLines.join('\n')}`);
+
+  return {
+    healthInfo: sections.length
+      ? `User health information:\n${sections.join('\n\n')}`
+      : 'User health information:\nNo health data available.',
+    summary: includedSummary,
+    conversation: historyLines.join('\n'),
+    tokenCount: tokenBudget - remaining,
+  };
+};
@@ -0,0 +1,73 @@
+import { GoogleGenerativeAI, GenerativeModel, Part } from '@google/generative-ai';
+import { Platform } from 'react-native';
+import { LLMProvider, LLMRequestOptions, revealInChunks } from './types';
+
+/**
+ * The SDK streams with `response.body.pipeThrough(new TextDecoderStream())`.
+ * React Native's fetch has no readable body and Hermes has no TextDecoderStream,
+ * so on phones the whole reply is fetched and revealed in chunks instead.
+ */
+const canStream = () => Platform.OS === 'web' && typeof TextDecoderStream !== 'undefined';
+
+interface GeminiProviderConfig {
+  apiKey: string;
+  model: string;
+  maxOutputTokens: number;
+  temperature: number;
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private genAI: GoogleGenerativeAI;
+  private config: GeminiProviderConfig;
+
+  constructor(config: GeminiProviderConfig) {
+    if (!config.apiKey) {
+      console.error('Gemini API key is missing. Check your environment variables.');
+    }
+    this.config = config;
+    this.genAI = new GoogleGenerativeAI(config.apiKey);
+  }
+
+  private getModel(options?: LLMRequestOptions): GenerativeModel {
+    return this.genAI.getGenerativeModel({
+      model: this.config.model,
+      generationConfig: {
+        maxOutputTokens: options?.maxOutputTokens ?? this.config.maxOutputTokens,
+        temperature: options?.temperature ?? this.config.temperature,
+        ...(options?.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {}),
+      },
+    });
+  }
+
+  private buildRequest(prompt: string, options?: LLMRequestOptions): string | Part[] {
+    if (!options?.images?.length) return prompt;
+    return [{ text: prompt }, ...options.images.map(image => ({ inlineData: image }))];
+  }
+
+  async generate(prompt: string, options?: LLMRequestOptions): Promise<string> {
+    const result = await this.getModel(options).generateContent(this.buildRequest(prompt, options), {
+      signal: options?.signal,
+    });
+    if (!result?.response) throw new Error('Failed to get response from Gemini AI');
+    return result.response.text();
+  }
+
+  async *stream(prompt: string, options?: LLMRequestOptions): AsyncGenerator<string> {
+    if (!canStream()) {
+      yield* revealInChunks(await this.generate(prompt, options), options?.signal);
+      return;
+    }
+    const result = await this.getModel(options).generateContentStream(this.buildRequest(prompt, options), {
+      signal: options?.signal,
+    });
+    for await (const chunk of result.stream) {
+      yield chunk.text();
+    }
+  }
+
+  async countTokens(text: string): Promise<number> {
+    const { totalTokens } = await this.getModel().countTokens(text);
+    return totalTokens;
+  }
+}
@@ -0,0 +1,46 @@
+import llmConfig, { LLMConfig } from '../../config/llm';
+import { GeminiProvider } from './gemini';
+import { MockProvider } from './mock';
+import { OpenAICompatibleProvider } from './openai';
+import { LLMProvider } from './types';
+
+export * from './types';
+export { GeminiProvider, MockProvider, OpenAICompatibleProvider };
+
+export const createLLMProvider = (config: LLMConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'openai':
+      if (!config.baseUrl) {
+        throw new Error('LLM_BASE_URL is required for the OpenAI-compatible provider.');
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        model: config.model,
+        maxOutputTokens: config.maxOutputTokens,
+        temperature: config.temperature,
+      });
+    case 'mock':
+      return new MockProvider();
+    default:
+      return new GeminiProvider({
+        apiKey: config.apiKey || '',
+        model: config.model,
+        maxOutputTokens: config.maxOutputTokens,
+        temperature: config.temperature,
+      });
+  }
+};
+
+let provider: LLMProvider | null = null;
+
+// Lazily builds the provider selected in app config
+export const getLLMProvider = (): LLMProvider => {
+  if (!provider) provider = createLLMProvider(llmConfig);
+  return provider;
+};
+
+// Swap the active provider, e.g. to a MockProvider in tests
+export const setLLMProvider = (next: LLMProvider | null) => {
+  provider = next;
+};
@@ -0,0 +1,45 @@
+import { LLMProvider, LLMRequestOptions, abortError, estimateTokens } from './types';
+
+const DEFAULT_REPLY = `## Summary:
+- Stay hydrated and get 7-9 hours of sleep.
+- Keep tracking your vitals in the Track tab.
+
+> **Disclaimer:** This is a demo response. Please consult a healthcare professional for medical advice.`;
+
+// Deterministic offline provider for tests and demos; never touches the network
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  private reply: (prompt: string) => string;
+  private chunkDelayMs: number;
+
+  constructor(reply: string | ((prompt: string) => string) = DEFAULT_REPLY, chunkDelayMs = 30) {
+    this.reply = typeof reply === 'string' ? () => reply : reply;
+    this.chunkDelayMs = chunkDelayMs;
+  }
+
+  private replyFor(prompt: string, options?: LLMRequestOptions): string {
+    const reply = this.reply(prompt);
+    if (options?.responseFormat !== 'json' || reply.trimStart().startsWith('{')) return reply;
+    return JSON.stringify({ answer: reply, recommendations: [], urgency: 'none', disclaimers: [] });
+  }
+
+  async generate(prompt: string, options?: LLMRequestOptions): Promise<string> {
+    if (options?.signal?.aborted) throw abortError();
+    return this.replyFor(prompt, options);
+  }
+
+  async *stream(prompt: string, options?: LLMRequestOptions): AsyncGenerator<string> {
+    const words = this.replyFor(prompt, options).match(/\s*\S+\s*/g) ?? [];
+    for (const word of words) {
+      if (options?.signal?.aborted) throw abortError();
+      if (this.chunkDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs));
+      }
+      yield word;
+    }
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+}
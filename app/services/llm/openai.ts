@@ -0,0 +1,131 @@
+import { LLMProvider, LLMRequestOptions, estimateTokens, revealInChunks } from './types';
+
+interface OpenAIProviderConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  maxOutputTokens: number;
+  temperature: number;
+}
+
+// Works with any server exposing the OpenAI /chat/completions API (vLLM, Ollama, LM Studio, ...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  private config: OpenAIProviderConfig;
+
+  constructor(config: OpenAIProviderConfig) {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+  }
+
+  private async request(prompt: string, stream: boolean, options?: LLMRequestOptions): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) headers.Authorization = `Bearer ${this.config.apiKey}`;
+
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: options?.signal,
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: [{ role: 'user', content: buildContent(prompt, options) }],
+        max_tokens: options?.maxOutputTokens ?? this.config.maxOutputTokens,
+        temperature: options?.temperature ?? this.config.temperature,
+        ...(options?.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+        stream,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`LLM request failed with status ${response.status}`);
+    }
+    return response;
+  }
+
+  async generate(prompt: string, options?: LLMRequestOptions): Promise<string> {
+    const response = await this.request(prompt, false, options);
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error('LLM response did not contain any text');
+    return content;
+  }
+
+  async *stream(prompt: string, options?: LLMRequestOptions): AsyncGenerator<string> {
+    const response = await this.request(prompt, true, options);
+
+    // React Native's fetch has no readable body stream, so parse the whole SSE payload and
+    // reveal it in chunks, the same as the Gemini provider does on phones
+    const reader = response.body?.getReader?.();
+    if (!reader) {
+      let text = '';
+      for await (const delta of parseServerSentEvents([await response.text()])) text += delta;
+      yield* revealInChunks(text, options?.signal);
+      return;
+    }
+    yield* parseServerSentEvents(readText(reader));
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+}
+
+// Vision-capable servers take images as data URLs in a multi-part message
+const buildContent = (prompt: string, options?: LLMRequestOptions) => {
+  if (!options?.images?.length) return prompt;
+  return [
+    { type: 'text', text: prompt },
+    ...options.images.map(image => ({
+      type: 'image_url',
+      image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+    })),
+  ];
+};
+
+// Marks `data: [DONE]`, the end of an OpenAI stream
+const DONE = Symbol('done');
+
+// Decoded body text as it arrives; stops reading when the consumer returns early
+async function* readText(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Content deltas from an SSE body split into arbitrary pieces. Lines cut at a
+ * piece boundary are joined first, and the stream ends at `data: [DONE]`.
+ */
+export async function* parseServerSentEvents(pieces: AsyncIterable<string> | Iterable<string>): AsyncGenerator<string> {
+  let buffer = '';
+  const parseLine = (line: string): string | null | typeof DONE => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return null;
+    const data = trimmed.slice(5).trim();
+    if (data === '[DONE]') return DONE;
+    try {
+      return JSON.parse(data)?.choices?.[0]?.delta?.content || null;
+    } catch (error) {
+      console.error('Error parsing LLM stream chunk:', error);
+      return null;
+    }
+  };
+
+  for await (const piece of pieces) {
+    buffer += piece;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const delta = parseLine(line);
+      if (delta === DONE) return;
+      if (delta) yield delta;
+    }
+  }
+  const delta = parseLine(buffer);
+  if (delta && delta !== DONE) yield delta;
+}
@@ -0,0 +1,54 @@
+// Inline image sent alongside the prompt to models that accept images
+export interface LLMImage {
+  mimeType: string;
+  data: string; // base64, without a data: prefix
+}
+
+export interface LLMRequestOptions {
+  signal?: AbortSignal;
+  maxOutputTokens?: number;
+  temperature?: number;
+  // 'json' asks the backend for a JSON-only reply where it supports that
+  responseFormat?: 'text' | 'json';
+  images?: LLMImage[];
+}
+
+// Common surface every chat model backend implements
+export interface LLMProvider {
+  readonly name: string;
+  generate(prompt: string, options?: LLMRequestOptions): Promise<string>;
+  // Yields text deltas as they arrive; stops early once options.signal aborts
+  stream(prompt: string, options?: LLMRequestOptions): AsyncGenerator<string>;
+  countTokens(text: string): Promise<number>;
+}
+
+// Rough heuristic (~4 characters per token) for backends without a tokenizer endpoint
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const abortError = () => {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+};
+
+const REVEAL_WORDS_PER_CHUNK = 3;
+const REVEAL_DELAY_MS = 20;
+
+/**
+ * Replays a complete reply as a few words at a time, for platforms where a
+ * backend cannot stream, so the chat still fills in gradually and can be stopped.
+ */
+export async function* revealInChunks(
+  text: string,
+  signal?: AbortSignal,
+  delayMs = REVEAL_DELAY_MS
+): AsyncGenerator<string> {
+  const words = text.match(/\s*\S+\s*/g) ?? [];
+  for (let i = 0; i < words.length; i += REVEAL_WORDS_PER_CHUNK) {
+    if (signal?.aborted) throw abortError();
+    yield words.slice(i, i + REVEAL_WORDS_PER_CHUNK).join('');
+    if (delayMs > 0 && i + REVEAL_WORDS_PER_CHUNK < words.length) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
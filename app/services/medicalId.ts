@@ -0,0 +1,143 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { Platform } from 'react-native';
+import { db } from '../config/firebase';
+import { EmergencyContact } from './emergencyContact';
+import { formatDose, Medication } from './medications';
+
+// What first responders need at a glance, built from the profile and medication list
+export interface MedicalId {
+  name: string;
+  dateOfBirth?: string;
+  bloodType?: string;
+  allergies: string[];
+  conditions: string[];
+  medications: string[]; // e.g. "Metformin · 1 tablet · 500 mg"
+  emergencyContact?: EmergencyContact;
+  updatedAt: number; // epoch ms of the data it was built from
+}
+
+// Shown as an ongoing notification so it can be read without unlocking
+const NOTIFICATION_ID = 'medical-id';
+const CHANNEL_ID = 'medical-id';
+
+const cacheKey = (uid: string) => `medicalId:${uid}`;
+const lockScreenKey = (uid: string) => `medicalIdLockScreen:${uid}`;
+
+const isCurrent = (medication: Medication, now: Date) => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return medication.startDate.toDate() <= now && (!medication.endDate || medication.endDate.toDate() >= today);
+};
+
+/**
+ * Medications come from the structured list plus older free-text medication
+ * reminders, one entry per name.
+ */
+export const buildMedicalId = (
+  profile: Record<string, any>,
+  medications: Medication[],
+  reminderTitles: string[] = [],
+  now = new Date()
+): MedicalId => {
+  const current = new Map<string, string>();
+  medications
+    .filter(medication => isCurrent(medication, now))
+    .forEach(medication => current.set(medication.name.trim().toLowerCase(), `${medication.name} · ${formatDose(medication)}`));
+  reminderTitles.forEach(title => {
+    const key = title.trim().toLowerCase();
+    if (key && !current.has(key)) current.set(key, title.trim());
+  });
+  const medicalId: MedicalId = {
+    name: profile.fullName || '',
+    allergies: profile.allergies ?? [],
+    conditions: profile.conditions ?? [],
+    medications: Array.from(current.values()),
+    updatedAt: now.getTime(),
+  };
+  if (profile.dateOfBirth) medicalId.dateOfBirth = profile.dateOfBirth;
+  if (profile.bloodType) medicalId.bloodType = profile.bloodType;
+  if (profile.emergencyContact?.phoneNumber) medicalId.emergencyContact = profile.emergencyContact;
+  return medicalId;
+};
+
+// Plain-text version for the lock screen notification
+export const formatMedicalId = (medicalId: MedicalId): string =>
+  [
+    medicalId.bloodType && `Blood type: ${medicalId.bloodType}`,
+    `Allergies: ${medicalId.allergies.join(', ') || 'None known'}`,
+    `Conditions: ${medicalId.conditions.join(', ') || 'None known'}`,
+    `Medications: ${medicalId.medications.join('; ') || 'None'}`,
+    medicalId.emergencyContact &&
+      `Emergency contact: ${medicalId.emergencyContact.name} ${medicalId.emergencyContact.phoneNumber}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+// The last Medical ID built on this device; available offline
+export const getCachedMedicalId = async (uid: string): Promise<MedicalId | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(cacheKey(uid));
+    return raw ? (JSON.parse(raw) as MedicalId) : null;
+  } catch (error) {
+    console.error('Error loading medical ID:', error);
+    return null;
+  }
+};
+
+export const isMedicalIdOnLockScreen = async (uid: string) => (await AsyncStorage.getItem(lockScreenKey(uid))) === 'true';
+
+const presentMedicalId = async (medicalId: MedicalId) => {
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Medical ID',
+      importance: Notifications.AndroidImportance.LOW,
+      lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+    });
+  }
+  await Notifications.scheduleNotificationAsync({
+    identifier: NOTIFICATION_ID,
+    content: {
+      title: `Medical ID${medicalId.name ? ` · ${medicalId.name}` : ''}`,
+      body: formatMedicalId(medicalId),
+      sound: false,
+      sticky: true,
+      priority: Notifications.AndroidNotificationPriority.LOW,
+    },
+    trigger: Platform.OS === 'android' ? { channelId: CHANNEL_ID } : null,
+  });
+};
+
+/**
+ * Shows or removes the Medical ID notification. iOS shows it on the lock
+ * screen only when notification previews are allowed there.
+ */
+export const setMedicalIdOnLockScreen = async (uid: string, medicalId: MedicalId | null, enabled: boolean) => {
+  await AsyncStorage.setItem(lockScreenKey(uid), String(enabled));
+  if (enabled && medicalId) {
+    await presentMedicalId(medicalId);
+  } else {
+    await Notifications.dismissNotificationAsync(NOTIFICATION_ID);
+  }
+};
+
+/**
+ * Rebuilds the Medical ID from Firestore and caches it, refreshing the lock
+ * screen copy when it is shown. Throws when offline; callers fall back to
+ * the cached one.
+ */
+export const refreshMedicalId = async (uid: string): Promise<MedicalId> => {
+  const [profile, medications, reminders] = await Promise.all([
+    getDoc(doc(db, 'users', uid)),
+    getDocs(collection(db, 'users', uid, 'medications')),
+    getDocs(query(collection(db, 'users', uid, 'reminders'), where('type', '==', 'medication'))),
+  ]);
+  const medicalId = buildMedicalId(
+    profile.exists() ? profile.data() : {},
+    medications.docs.map(item => ({ id: item.id, ...item.data() }) as Medication),
+    reminders.docs.filter(item => !item.data().isCompleted).map(item => item.data().title ?? '')
+  );
+  await AsyncStorage.setItem(cacheKey(uid), JSON.stringify(medicalId));
+  if (await isMedicalIdOnLockScreen(uid)) await presentMedicalId(medicalId);
+  return medicalId;
+};
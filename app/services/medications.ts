@@ -0,0 +1,179 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  Timestamp,
+  updateDoc,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { toDateKey } from './recurrence';
+
+export type MedicationForm = 'tablet' | 'capsule' | 'liquid' | 'injection' | 'inhaler' | 'drops' | 'cream' | 'other';
+
+export interface MedicationSchedule {
+  times: string[]; // 'HH:mm', 24-hour, sorted
+  daysOfWeek: number[]; // 0 = Sunday; empty means every day
+}
+
+// Stored in users/{uid}/medications
+export interface Medication {
+  id: string;
+  name: string;
+  strength?: string; // e.g. "20 mg"
+  form: MedicationForm;
+  dose: number; // Units of `form` per intake, e.g. 1 tablet or 5 ml
+  schedule: MedicationSchedule;
+  startDate: Timestamp; // Local midnight of the first day
+  endDate?: Timestamp; // Local midnight of the last day, inclusive
+  pillCount?: number;
+  refillThreshold?: number;
+  notes?: string;
+  notificationEnabled: boolean;
+  critical?: boolean; // Missed doses escalate to the emergency contact
+  createdAt: Timestamp;
+}
+
+export type MedicationInput = Omit<Medication, 'id' | 'createdAt'>;
+
+// One scheduled dose; the id is stable so later records can refer to it
+export interface MedicationOccurrence {
+  id: string; // `${medicationId}@${yyyy-mm-dd}T${HH:mm}`
+  medicationId: string;
+  name: string;
+  dose: string;
+  scheduledAt: Date;
+  critical?: boolean;
+}
+
+export const MEDICATION_FORMS: { key: MedicationForm; label: string; unit: string }[] = [
+  { key: 'tablet', label: 'Tablet', unit: 'tablet' },
+  { key: 'capsule', label: 'Capsule', unit: 'capsule' },
+  { key: 'liquid', label: 'Liquid', unit: 'ml' },
+  { key: 'injection', label: 'Injection', unit: 'injection' },
+  { key: 'inhaler', label: 'Inhaler', unit: 'puff' },
+  { key: 'drops', label: 'Drops', unit: 'drop' },
+  { key: 'cream', label: 'Cream', unit: 'application' },
+  { key: 'other', label: 'Other', unit: 'dose' },
+];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const formatDose = (medication: Pick<Medication, 'dose' | 'form' | 'strength'>): string => {
+  const unit = MEDICATION_FORMS.find(item => item.key === medication.form)?.unit ?? 'dose';
+  const plural = medication.dose === 1 || unit === 'ml' ? unit : `${unit}s`;
+  return [`${medication.dose} ${plural}`, medication.strength].filter(Boolean).join(' · ');
+};
+
+export const formatScheduleDays = (schedule: MedicationSchedule): string =>
+  schedule.daysOfWeek.length === 0 || schedule.daysOfWeek.length === 7
+    ? 'Every day'
+    : [...schedule.daysOfWeek].sort().map(day => WEEKDAY_LABELS[day]).join(', ');
+
+/**
+ * Expands a medication's schedule into the doses due in [from, to), honouring
+ * its weekdays and start/end dates.
+ */
+export const getOccurrences = (medication: Medication, from: Date, to: Date): MedicationOccurrence[] => {
+  const occurrences: MedicationOccurrence[] = [];
+  const firstDay = startOfDay(medication.startDate.toDate());
+  const lastDay = medication.endDate ? startOfDay(medication.endDate.toDate()) : null;
+  const dose = formatDose(medication);
+
+  for (let day = startOfDay(from); day < to; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    if (day < firstDay || (lastDay && day > lastDay)) continue;
+    const { daysOfWeek, times } = medication.schedule;
+    if (daysOfWeek.length > 0 && !daysOfWeek.includes(day.getDay())) continue;
+    times.forEach(time => {
+      const [hours, minutes] = time.split(':').map(Number);
+      const scheduledAt = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+      if (scheduledAt < from || scheduledAt >= to) return;
+      occurrences.push({
+        id: `${medication.id}@${toDateKey(day)}T${time}`,
+        medicationId: medication.id,
+        name: medication.name,
+        dose,
+        scheduledAt,
+        ...(medication.critical ? { critical: true } : {}),
+      });
+    });
+  }
+  return occurrences;
+};
+
+// Doses across all medications in [from, to), soonest first
+export const getUpcomingDoses = (medications: Medication[], from: Date, to: Date) =>
+  medications
+    .flatMap(medication => getOccurrences(medication, from, to))
+    .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+
+const dosesPerWeek = (medication: Medication) =>
+  medication.schedule.times.length * (medication.schedule.daysOfWeek.length || 7);
+
+// Whole days the remaining supply lasts, or null when no pill count is tracked
+export const getDaysOfSupply = (medication: Medication): number | null => {
+  if (medication.pillCount === undefined || dosesPerWeek(medication) === 0) return null;
+  const perDay = (dosesPerWeek(medication) * medication.dose) / 7;
+  return Math.floor(medication.pillCount / perDay);
+};
+
+export const needsRefill = (medication: Medication): boolean =>
+  medication.pillCount !== undefined &&
+  medication.refillThreshold !== undefined &&
+  medication.pillCount <= medication.refillThreshold;
+
+// Firestore rejects undefined, so optional fields are only written when set
+const toFirestore = (input: MedicationInput): Record<string, any> => {
+  const data: Record<string, any> = {
+    name: input.name.trim(),
+    form: input.form,
+    dose: input.dose,
+    schedule: { times: [...input.schedule.times].sort(), daysOfWeek: [...input.schedule.daysOfWeek].sort() },
+    startDate: input.startDate,
+    notificationEnabled: input.notificationEnabled,
+  };
+  if (input.strength?.trim()) data.strength = input.strength.trim();
+  if (input.endDate) data.endDate = input.endDate;
+  if (input.pillCount !== undefined) data.pillCount = input.pillCount;
+  if (input.refillThreshold !== undefined) data.refillThreshold = input.refillThreshold;
+  if (input.notes?.trim()) data.notes = input.notes.trim();
+  if (input.critical) data.critical = true;
+  return data;
+};
+
+export const subscribeToMedications = (uid: string, onChange: (medications: Medication[]) => void) =>
+  onSnapshot(
+    query(collection(db, 'users', uid, 'medications'), orderBy('name', 'asc')),
+    snapshot => onChange(snapshot.docs.map(item => ({ id: item.id, ...item.data() }) as Medication)),
+    error => console.error('Error loading medications:', error)
+  );
+
+// Returns the medication id; a new one is created when `id` is omitted
+export const saveMedication = async (uid: string, input: MedicationInput, id?: string): Promise<string> => {
+  const data = toFirestore(input);
+  if (id) {
+    // Clear optional fields first so ones removed in the form are deleted
+    await updateDoc(doc(db, 'users', uid, 'medications', id), {
+      strength: deleteField(),
+      endDate: deleteField(),
+      pillCount: deleteField(),
+      refillThreshold: deleteField(),
+      notes: deleteField(),
+      critical: deleteField(),
+      ...data,
+    });
+    return id;
+  }
+  const docRef = await addDoc(collection(db, 'users', uid, 'medications'), { ...data, createdAt: Timestamp.now() });
+  return docRef.id;
+};
+
+export const deleteMedication = async (uid: string, id: string) => {
+  await deleteDoc(doc(db, 'users', uid, 'medications', id));
+};
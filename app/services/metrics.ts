@@ -0,0 +1,151 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  setDoc,
+  startAfter,
+  Timestamp,
+  where,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// One reading, stored in health_data/{uid}/metrics; the latest per type is also kept on the health doc
+export interface HealthMetric {
+  id: string;
+  type: string;
+  value: number | string; // Blood pressure is stored as "120/80"
+  unit: string;
+  timestamp: Timestamp;
+  notes?: string;
+}
+
+export interface MetricQuery {
+  type: string;
+  from?: Date; // Inclusive
+  to?: Date; // Exclusive
+  pageSize?: number;
+  cursor?: MetricCursor | null; // From the previous page
+}
+
+export type MetricCursor = QueryDocumentSnapshot;
+
+export interface MetricPage {
+  metrics: HealthMetric[]; // Newest first
+  cursor: MetricCursor | null; // Pass back for the next page; null on the last one
+}
+
+export type AggregatePeriod = 'day' | 'week';
+
+export interface MetricAggregate {
+  start: Date; // Local midnight; Sunday for weeks
+  count: number;
+  min: number;
+  max: number;
+  avg: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+// Readings fetched per request while aggregating a range
+const AGGREGATE_BATCH_SIZE = 500;
+
+const metricsCollection = (uid: string) => collection(db, 'health_data', uid, 'metrics');
+
+// Needs the (type, timestamp desc) composite index defined in firestore.indexes.json
+const rangeConstraints = ({ type, from, to }: MetricQuery): QueryConstraint[] => [
+  where('type', '==', type),
+  ...(from ? [where('timestamp', '>=', Timestamp.fromDate(from))] : []),
+  ...(to ? [where('timestamp', '<', Timestamp.fromDate(to))] : []),
+  orderBy('timestamp', 'desc'),
+];
+
+const toMetric = (snapshot: QueryDocumentSnapshot) => ({ ...snapshot.data(), id: snapshot.id }) as HealthMetric;
+
+/**
+ * One page of readings for a vital, newest first. Filtering happens in
+ * Firestore, so a page is never short because of other vitals.
+ */
+export const queryMetrics = async (uid: string, options: MetricQuery): Promise<MetricPage> => {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  // One extra reading tells whether there is another page
+  const snapshot = await getDocs(
+    query(
+      metricsCollection(uid),
+      ...rangeConstraints(options),
+      ...(options.cursor ? [startAfter(options.cursor)] : []),
+      limit(pageSize + 1)
+    )
+  );
+  const docs = snapshot.docs.slice(0, pageSize);
+  return {
+    metrics: docs.map(toMetric),
+    cursor: snapshot.docs.length > pageSize ? docs[docs.length - 1] : null,
+  };
+};
+
+// Returns the stored metric; ids are creation times so they sort with the readings
+export const addMetric = async (uid: string, input: Omit<HealthMetric, 'id'>): Promise<HealthMetric> => {
+  const metric: HealthMetric = { id: Date.now().toString(), ...input };
+  // Firestore rejects undefined
+  if (!metric.notes?.trim()) delete metric.notes;
+  await setDoc(doc(metricsCollection(uid), metric.id), metric);
+  return metric;
+};
+
+// Numeric reading for aggregates; "120/80" counts as its first (systolic) number
+export const getNumericValue = (value: number | string): number | null => {
+  const reading = typeof value === 'number' ? value : parseFloat(String(value).split('/')[0]);
+  return isNaN(reading) ? null : reading;
+};
+
+export const getPeriodStart = (date: Date, period: AggregatePeriod) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() - (period === 'week' ? date.getDay() : 0));
+
+// Min / max / average per day or week, newest first; periods without readings are left out
+export const aggregateMetrics = (metrics: HealthMetric[], period: AggregatePeriod): MetricAggregate[] => {
+  const buckets = new Map<number, MetricAggregate & { sum: number }>();
+  metrics.forEach(metric => {
+    const reading = getNumericValue(metric.value);
+    if (reading === null) return;
+    const start = getPeriodStart(metric.timestamp.toDate(), period);
+    const bucket = buckets.get(start.getTime());
+    if (!bucket) {
+      buckets.set(start.getTime(), { start, count: 1, min: reading, max: reading, avg: reading, sum: reading });
+      return;
+    }
+    bucket.count += 1;
+    bucket.sum += reading;
+    bucket.min = Math.min(bucket.min, reading);
+    bucket.max = Math.max(bucket.max, reading);
+  });
+  return Array.from(buckets.values())
+    .sort((a, b) => b.start.getTime() - a.start.getTime())
+    .map(({ sum, ...bucket }) => ({ ...bucket, avg: sum / bucket.count }));
+};
+
+/**
+ * Per-day or per-week aggregates for a vital over [from, to), or its whole
+ * history without `from`. Reads every reading in range from Firestore, a
+ * batch at a time, and buckets them in local time.
+ */
+export const getMetricAggregates = async (
+  uid: string,
+  type: string,
+  period: AggregatePeriod,
+  from?: Date,
+  to?: Date
+): Promise<MetricAggregate[]> => {
+  const metrics: HealthMetric[] = [];
+  let cursor: MetricCursor | null = null;
+  do {
+    const page: MetricPage = await queryMetrics(uid, { type, from, to, pageSize: AGGREGATE_BATCH_SIZE, cursor });
+    metrics.push(...page.metrics);
+    cursor = page.cursor;
+  } while (cursor);
+  return aggregateMetrics(metrics, period);
+};
@@ -0,0 +1,31 @@
+import Constants from 'expo-constants';
+import * as Notifications from 'expo-notifications';
+import { Href } from 'expo-router';
+
+// `scheme` in app.config.js; links also open from outside the app, e.g. neuracare://track?initialTab=water
+const SCHEME = (Constants.expoConfig?.scheme as string | undefined) ?? 'neuracare';
+
+const toLink = (path: string, params: Record<string, string> = {}) => {
+  const search = new URLSearchParams(params).toString();
+  return `${SCHEME}://${path}${search ? `?${search}` : ''}`;
+};
+
+export const reminderLink = (reminderId: string) => toLink('reminders', { reminderId });
+
+export const dosesLink = () => toLink('reminders');
+
+// Opens the entry form for one vital on the Track tab
+export const vitalEntryLink = (vital: string) => toLink('track', { initialTab: vital });
+
+/**
+ * Where tapping a notification should go. Uses the link stored with the
+ * notification, falling back to its ids for ones scheduled before links existed.
+ */
+export const getNotificationHref = (response: Notifications.NotificationResponse): Href | null => {
+  const data = response.notification.request.content.data ?? {};
+  const url: string | undefined =
+    data.url ?? (data.reminderId ? reminderLink(data.reminderId) : data.medicationId ? dosesLink() : undefined);
+  if (!url) return null;
+  // expo-router resolves the path part, so neuracare://reminders?x=1 becomes /reminders?x=1
+  return url.replace(/^[a-z][\w+.-]*:\/\//i, '/') as Href;
+};
@@ -0,0 +1,61 @@
+import type { ReminderType } from './reminders';
+
+// When and how often reminders may notify; stored on the user's profile document as `notificationPreferences`
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // 'HH:mm'
+  end: string; // 'HH:mm'; earlier than start means the quiet period runs past midnight
+}
+
+export interface EscalationPolicy {
+  enabled: boolean; // Re-notify when a dose is not marked taken in time
+  afterMinutes: number;
+  notifyEmergencyContact: boolean; // After the re-notify, offer to message the emergency contact
+}
+
+export interface NotificationPreferences {
+  quietHours: QuietHours;
+  dailyCaps: Partial<Record<ReminderType, number>>; // Most notifications per day for a type; missing means no limit
+  leadTimes: Partial<Record<ReminderType, string[]>>; // Lead-time notice ids to send; missing means all of them
+  escalation: EscalationPolicy;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  dailyCaps: {},
+  leadTimes: {},
+  escalation: { enabled: true, afterMinutes: 30, notifyEmergencyContact: false },
+};
+
+export const QUIET_HOURS_STARTS = ['20:00', '21:00', '22:00', '23:00'];
+export const QUIET_HOURS_ENDS = ['06:00', '07:00', '08:00', '09:00'];
+
+// undefined = no limit
+export const DAILY_CAP_OPTIONS: (number | undefined)[] = [undefined, 2, 4, 8];
+
+export const ESCALATION_DELAYS = [15, 30, 60];
+
+export const getNotificationPreferences = (
+  profile?: { notificationPreferences?: Partial<NotificationPreferences> } | null
+): NotificationPreferences => {
+  const saved = profile?.notificationPreferences ?? {};
+  return {
+    quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...saved.quietHours },
+    dailyCaps: { ...saved.dailyCaps },
+    leadTimes: { ...saved.leadTimes },
+    escalation: { ...DEFAULT_NOTIFICATION_PREFERENCES.escalation, ...saved.escalation },
+  };
+};
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isInQuietHours = (date: Date, quietHours: QuietHours): boolean => {
+  if (!quietHours.enabled) return false;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
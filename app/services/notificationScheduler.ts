@@ -0,0 +1,516 @@
+import * as Notifications from 'expo-notifications';
+import { collection, doc, getDoc, getDocs, query, Timestamp, where } from 'firebase/firestore';
+import { Platform } from 'react-native';
+import { db } from '../config/firebase';
+import { CAREGIVER_CATEGORY, DOSE_CATEGORY, escalationIdentifiers, toDoseNotificationData } from './doseNotifications';
+import { EmergencyContact } from './emergencyContact';
+import { FiredEscalation, logFiredEscalations } from './escalations';
+import { getUpcomingDoses, Medication, MedicationOccurrence } from './medications';
+import { dosesLink, reminderLink, vitalEntryLink } from './notificationLinks';
+import { getNotificationPreferences, isInQuietHours, NotificationPreferences } from './notificationPreferences';
+import {
+  getUpcomingReminderOccurrences,
+  Reminder,
+  ReminderOccurrence,
+  ReminderType,
+  toReminderTarget,
+} from './reminders';
+
+/**
+ * Every scheduled notification for reminders and medication doses goes
+ * through here. Identifiers are derived from occurrence ids, so the set that
+ * should exist can be worked out from Firestore at any time and compared with
+ * what the OS has pending:
+ *
+ *   reminder:{occurrenceId}            at the reminder time
+ *   reminder:{occurrenceId}:{leadId}   lead-time notices before it
+ *   medication:{occurrenceId}          at the dose time
+ *   escalation:{occurrenceId}[:contact] follow-ups for doses not marked taken
+ *
+ * Snoozes (`snooze:{occurrenceId}`) are scheduled by the adherence service and left alone.
+ * The user's notification preferences decide which lead-time notices and
+ * follow-ups are sent, what is held back in quiet hours and how many per day.
+ * Medications marked critical always get both follow-ups, whatever the preferences,
+ * and each one that goes off without the dose recorded is logged to users/{uid}/escalations.
+ */
+
+interface LeadTimeRule {
+  id: string;
+  label: string;
+  fireAt: (event: Date) => Date | null;
+  title: (reminder: Reminder) => string;
+  body: (reminder: Reminder) => string;
+}
+
+interface PlannedNotification {
+  identifier: string;
+  kind: 'due' | 'lead' | 'escalation';
+  type: ReminderType; // Doses count as 'medication'
+  date: Date;
+  silent?: boolean; // Due during quiet hours
+  critical?: boolean; // Follow-up for a critical medication; never held back or capped
+  content: Notifications.NotificationContentInput;
+}
+
+// Who to offer to message when a dose is still not taken after the re-notify
+interface EscalationContext {
+  userName: string;
+  contact?: EmergencyContact;
+}
+
+// iOS keeps at most 64 pending notifications per app; a few are left for snoozes
+const MAX_SCHEDULED = 60;
+const WINDOW_DAYS = 7;
+
+// Android channel for everything scheduled here; snoozes from the adherence service use it too
+const REMINDERS_CHANNEL = 'reminders';
+
+const REMINDER_PREFIX = 'reminder:';
+const MEDICATION_PREFIX = 'medication:';
+const SNOOZE_PREFIX = 'snooze:';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const minutesBefore = (minutes: number) => (event: Date) => new Date(event.getTime() - minutes * 60 * 1000);
+
+const atTimeOfDay = (hours: number, minutes = 0) => (event: Date) =>
+  new Date(event.getFullYear(), event.getMonth(), event.getDate(), hours, minutes);
+
+const FIFTEEN_MINUTES_MESSAGES: Record<ReminderType, (title: string) => string> = {
+  medication: title => `Time to take "${title}" in 15 minutes`,
+  appointment: title => `Your appointment "${title}" is in 15 minutes`,
+  exercise: title => `Time for your "${title}" session in 15 minutes. Get ready!`,
+  water: title => `Don't forget to drink water! ${title}`,
+  other: title => `"${title}" is scheduled in 15 minutes`,
+};
+
+const fifteenMinutes: LeadTimeRule = {
+  id: '15m',
+  label: '15 min before',
+  fireAt: minutesBefore(15),
+  title: reminder => `${reminder.type.charAt(0).toUpperCase() + reminder.type.slice(1)} in 15 minutes`,
+  body: reminder => FIFTEEN_MINUTES_MESSAGES[reminder.type](reminder.title),
+};
+
+const hydration = (id: string, hours: number, title: string): LeadTimeRule => ({
+  id,
+  label: `${hours > 12 ? hours - 12 : hours} ${hours >= 12 ? 'PM' : 'AM'}`,
+  fireAt: atTimeOfDay(hours),
+  title: () => title,
+  body: reminder => `Time to drink water! ${reminder.title}`,
+});
+
+// Extra notices per reminder type, on top of the one at the reminder time
+export const LEAD_TIME_RULES: Record<ReminderType, LeadTimeRule[]> = {
+  appointment: [
+    {
+      id: 'day',
+      label: '8 AM that day',
+      fireAt: event => {
+        const dayStart = atTimeOfDay(8)(event);
+        return dayStart < event ? dayStart : null;
+      },
+      title: () => `Today's Appointment`,
+      body: reminder => `You have an appointment "${reminder.title}" today at ${reminder.time}`,
+    },
+    {
+      id: '6h',
+      label: '6 hours before',
+      fireAt: minutesBefore(6 * 60),
+      title: () => `Appointment in 6 hours`,
+      body: reminder => `Your appointment "${reminder.title}" is in 6 hours`,
+    },
+    fifteenMinutes,
+  ],
+  medication: [
+    {
+      id: '1h',
+      label: '1 hour before',
+      fireAt: minutesBefore(60),
+      title: () => `Medication Reminder`,
+      body: reminder => `Time to take "${reminder.title}" in 1 hour`,
+    },
+    fifteenMinutes,
+  ],
+  exercise: [
+    {
+      id: '2h',
+      label: '2 hours before',
+      fireAt: minutesBefore(2 * 60),
+      title: () => `Exercise Session Soon`,
+      body: reminder => `Prepare for your "${reminder.title}" session in 2 hours`,
+    },
+    {
+      id: '1h',
+      label: '1 hour before',
+      fireAt: minutesBefore(60),
+      title: () => `Exercise Reminder`,
+      body: reminder => `Your "${reminder.title}" session is in 1 hour. Get ready!`,
+    },
+    fifteenMinutes,
+  ],
+  water: [
+    hydration('morning', 9, 'Morning Hydration'),
+    hydration('midday', 12, 'Midday Hydration'),
+    hydration('afternoon', 15, 'Afternoon Hydration'),
+    hydration('evening', 18, 'Evening Hydration'),
+  ],
+  other: [
+    {
+      id: '1h',
+      label: '1 hour before',
+      fireAt: minutesBefore(60),
+      title: () => `Reminder`,
+      body: reminder => `"${reminder.title}" is scheduled in 1 hour`,
+    },
+    fifteenMinutes,
+  ],
+};
+
+const formatClock = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// A re-notify, then optionally a prompt to reach the emergency contact
+const planEscalations = (
+  occurrenceId: string,
+  name: string,
+  scheduledAt: Date,
+  data: Record<string, any>,
+  preferences: NotificationPreferences,
+  context: EscalationContext,
+  critical = false
+): PlannedNotification[] => {
+  const { escalation } = preferences;
+  if (!escalation.enabled && !critical) return [];
+  const [renotifyId, contactId] = escalationIdentifiers(occurrenceId);
+  const delay = escalation.afterMinutes * 60 * 1000;
+  const planned: PlannedNotification[] = [
+    {
+      identifier: renotifyId,
+      kind: 'escalation',
+      type: 'medication',
+      date: new Date(scheduledAt.getTime() + delay),
+      critical,
+      content: {
+        title: `Did you take ${name}?`,
+        body: `Your ${formatClock(scheduledAt)} dose is not marked as taken yet.`,
+        categoryIdentifier: DOSE_CATEGORY,
+        data,
+      },
+    },
+  ];
+  const { contact } = context;
+  if ((escalation.notifyEmergencyContact || critical) && contact?.phoneNumber) {
+    planned.push({
+      identifier: contactId,
+      kind: 'escalation',
+      type: 'medication',
+      date: new Date(scheduledAt.getTime() + 2 * delay),
+      critical,
+      content: {
+        title: `${name} still not taken`,
+        body: `Let ${contact.name} know by message or call.`,
+        categoryIdentifier: CAREGIVER_CATEGORY,
+        data: {
+          ...data,
+          ...(critical ? { critical: true } : {}),
+          escalation: 'contact',
+          contactName: contact.name,
+          contactPhone: contact.phoneNumber,
+          contactMessage: `Hi ${contact.name}, ${context.userName || 'I'} missed a ${name} dose due at ${formatClock(scheduledAt)}${critical ? ', which is an important one' : ''}. Could you check in? (Sent from Neuracare)`,
+        },
+      },
+    });
+  }
+  return planned;
+};
+
+const planReminder = (
+  occurrence: ReminderOccurrence,
+  preferences: NotificationPreferences,
+  context: EscalationContext
+): PlannedNotification[] => {
+  const { reminder, scheduledAt } = occurrence;
+  const body = reminder.description || `Time for your ${reminder.type} reminder!`;
+  const data = {
+    ...toDoseNotificationData({ ...toReminderTarget(occurrence), body }),
+    reminderType: reminder.type,
+    // Water reminders open straight to logging intake
+    url: reminder.type === 'water' ? vitalEntryLink('water') : reminderLink(reminder.id),
+  };
+  const planned: PlannedNotification[] = [
+    {
+      identifier: `${REMINDER_PREFIX}${occurrence.id}`,
+      kind: 'due',
+      type: reminder.type,
+      date: scheduledAt,
+      content: {
+        title: reminder.title,
+        body,
+        // Medication reminders get Taken / Snooze / Skip buttons
+        ...(reminder.type === 'medication' && { categoryIdentifier: DOSE_CATEGORY }),
+        data,
+      },
+    },
+  ];
+  const enabledLeadTimes = preferences.leadTimes[reminder.type];
+  (LEAD_TIME_RULES[reminder.type] ?? LEAD_TIME_RULES.other).forEach(rule => {
+    if (enabledLeadTimes && !enabledLeadTimes.includes(rule.id)) return;
+    const date = rule.fireAt(scheduledAt);
+    if (!date) return;
+    planned.push({
+      identifier: `${REMINDER_PREFIX}${occurrence.id}:${rule.id}`,
+      kind: 'lead',
+      type: reminder.type,
+      date,
+      content: { title: rule.title(reminder), body: rule.body(reminder), data },
+    });
+  });
+  if (reminder.type === 'medication') {
+    planned.push(
+      ...planEscalations(occurrence.id, reminder.title, scheduledAt, data, preferences, context, reminder.critical)
+    );
+  }
+  return planned;
+};
+
+const planDose = (
+  dose: MedicationOccurrence,
+  preferences: NotificationPreferences,
+  context: EscalationContext
+): PlannedNotification[] => {
+  const title = `Time for ${dose.name}`;
+  const body = `Take ${dose.dose}`;
+  const data = {
+    ...toDoseNotificationData({
+      occurrenceId: dose.id,
+      medicationId: dose.medicationId,
+      title,
+      body,
+      scheduledAt: dose.scheduledAt,
+    }),
+    reminderType: 'medication',
+    url: dosesLink(),
+  };
+  return [
+    {
+      identifier: `${MEDICATION_PREFIX}${dose.id}`,
+      kind: 'due',
+      type: 'medication',
+      date: dose.scheduledAt,
+      content: { title, body, categoryIdentifier: DOSE_CATEGORY, data },
+    },
+    ...planEscalations(dose.id, dose.name, dose.scheduledAt, data, preferences, context, dose.critical),
+  ];
+};
+
+const KIND_PRIORITY: Record<PlannedNotification['kind'], number> = { due: 0, escalation: 1, lead: 2 };
+
+/**
+ * Quiet hours hold back lead-time notices and follow-ups and make due ones
+ * silent, since the user chose that time. Daily caps keep due notifications
+ * first, then follow-ups, then lead-time notices. Critical follow-ups skip both.
+ */
+const applyPreferences = (notifications: PlannedNotification[], preferences: NotificationPreferences) => {
+  const sentPerDay = new Map<string, number>();
+  return notifications
+    .filter(
+      notification =>
+        notification.kind === 'due' ||
+        notification.critical ||
+        !isInQuietHours(notification.date, preferences.quietHours)
+    )
+    .map(notification => ({
+      ...notification,
+      silent: notification.kind === 'due' && isInQuietHours(notification.date, preferences.quietHours),
+    }))
+    .sort((a, b) => KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind] || a.date.getTime() - b.date.getTime())
+    .filter(notification => {
+      const cap = preferences.dailyCaps[notification.type];
+      if (cap === undefined || notification.critical) return true;
+      const key = `${notification.type}@${notification.date.toDateString()}`;
+      const sent = sentPerDay.get(key) ?? 0;
+      if (sent >= cap) return false;
+      sentPerDay.set(key, sent + 1);
+      return true;
+    });
+};
+
+// Changes whenever anything visible about a notification does, so edits are rescheduled
+const signatureOf = (notification: PlannedNotification) =>
+  [
+    notification.date.getTime(),
+    notification.content.title,
+    notification.content.body,
+    notification.content.categoryIdentifier ?? '',
+    notification.silent ? 'silent' : '',
+    // A changed emergency contact must replace the prompt that reaches them
+    notification.content.data?.contactName ?? '',
+    notification.content.data?.contactPhone ?? '',
+  ].join('|');
+
+/**
+ * The notifications that should be pending for the next week: soonest first,
+ * within the user's preferences and the OS limit, and without occurrences
+ * already taken or skipped.
+ */
+export const planNotifications = (
+  reminders: Reminder[],
+  medications: Medication[],
+  recordedOccurrences: Set<string>,
+  preferences: NotificationPreferences,
+  context: EscalationContext,
+  now = new Date()
+): PlannedNotification[] => {
+  const to = new Date(now.getTime() + WINDOW_DAYS * DAY_MS);
+  const reminderNotifications = getUpcomingReminderOccurrences(
+    reminders.filter(reminder => reminder.notificationEnabled),
+    // Lead-time notices can fire up to a day before their occurrence
+    now,
+    new Date(to.getTime() + DAY_MS)
+  )
+    .filter(occurrence => !recordedOccurrences.has(occurrence.id))
+    .flatMap(occurrence => planReminder(occurrence, preferences, context));
+  const doseNotifications = getUpcomingDoses(
+    medications.filter(medication => medication.notificationEnabled),
+    now,
+    to
+  )
+    .filter(dose => !recordedOccurrences.has(dose.id))
+    .flatMap(dose => planDose(dose, preferences, context));
+
+  const upcoming = [...reminderNotifications, ...doseNotifications].filter(
+    notification => notification.date > now && notification.date < to
+  );
+  return applyPreferences(upcoming, preferences)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(0, MAX_SCHEDULED);
+};
+
+/**
+ * Follow-ups for critical doses in the last day that have gone off without
+ * the dose being recorded. Critical follow-ups are never held back, so each
+ * of these reached the phone whether or not it was opened.
+ */
+export const getFiredEscalations = (
+  reminders: Reminder[],
+  medications: Medication[],
+  recordedOccurrences: Set<string>,
+  preferences: NotificationPreferences,
+  context: EscalationContext,
+  now = new Date()
+): FiredEscalation[] => {
+  const since = new Date(now.getTime() - DAY_MS);
+  const reminderEscalations = getUpcomingReminderOccurrences(
+    reminders.filter(reminder => reminder.notificationEnabled && reminder.type === 'medication' && reminder.critical),
+    since,
+    now
+  )
+    .filter(occurrence => !recordedOccurrences.has(occurrence.id))
+    .flatMap(occurrence => planReminder(occurrence, preferences, context));
+  const doseEscalations = getUpcomingDoses(
+    medications.filter(medication => medication.notificationEnabled && medication.critical),
+    since,
+    now
+  )
+    .filter(dose => !recordedOccurrences.has(dose.id))
+    .flatMap(dose => planDose(dose, preferences, context));
+
+  return [...reminderEscalations, ...doseEscalations]
+    .filter(notification => notification.kind === 'escalation' && notification.date <= now)
+    .map(notification => ({
+      step: notification.identifier.endsWith(':contact') ? 'escalated' : 'renotified',
+      firedAt: notification.date,
+      data: { ...notification.content.data, critical: true },
+    }));
+};
+
+const loadSchedulingState = async (uid: string) => {
+  const since = new Date(Date.now() - DAY_MS);
+  const [profile, reminders, medications, adherence] = await Promise.all([
+    getDoc(doc(db, 'users', uid)),
+    getDocs(collection(db, 'users', uid, 'reminders')),
+    getDocs(collection(db, 'users', uid, 'medications')),
+    getDocs(query(collection(db, 'users', uid, 'adherence'), where('scheduledAt', '>=', Timestamp.fromDate(since)))),
+  ]);
+  const profileData = profile.exists() ? profile.data() : {};
+  return {
+    reminders: reminders.docs.map(item => ({ id: item.id, ...item.data() }) as Reminder),
+    medications: medications.docs.map(item => ({ id: item.id, ...item.data() }) as Medication),
+    // Snoozed doses can still be missed, so they keep their follow-ups
+    recordedOccurrences: new Set(
+      adherence.docs.filter(item => item.data().status !== 'snoozed').map(item => item.id)
+    ),
+    preferences: getNotificationPreferences(profileData),
+    context: {
+      userName: profileData.fullName?.split(' ')[0] ?? '',
+      contact: profileData.emergencyContact as EmergencyContact | undefined,
+    },
+  };
+};
+
+// Android 8+ drops notifications for a channel that does not exist; creating it again just updates it
+const ensureRemindersChannel = async () => {
+  if (Platform.OS !== 'android') return;
+  await Notifications.setNotificationChannelAsync(REMINDERS_CHANNEL, {
+    name: 'Reminders',
+    importance: Notifications.AndroidImportance.HIGH,
+    vibrationPattern: [0, 250, 250, 250],
+    lightColor: '#4CAF50',
+  });
+};
+
+const reconcile = async (uid: string) => {
+  await ensureRemindersChannel();
+  const { reminders, medications, recordedOccurrences, preferences, context } = await loadSchedulingState(uid);
+  await logFiredEscalations(
+    uid,
+    getFiredEscalations(reminders, medications, recordedOccurrences, preferences, context)
+  ).catch(error => console.error('Error logging escalations:', error));
+  const planned = new Map(
+    planNotifications(reminders, medications, recordedOccurrences, preferences, context).map(item => [
+      item.identifier,
+      item,
+    ])
+  );
+
+  // Keep what already matches; cancel the rest, including anything left by older app versions
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  for (const request of scheduled) {
+    if (request.identifier.startsWith(SNOOZE_PREFIX)) continue;
+    const wanted = planned.get(request.identifier);
+    if (wanted && request.content.data?.signature === signatureOf(wanted)) {
+      planned.delete(request.identifier);
+    } else {
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+    }
+  }
+
+  for (const notification of planned.values()) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: notification.identifier,
+      content: {
+        ...notification.content,
+        sound: !notification.silent,
+        priority: notification.silent
+          ? Notifications.AndroidNotificationPriority.LOW
+          : Notifications.AndroidNotificationPriority.HIGH,
+        data: { ...notification.content.data, signature: signatureOf(notification) },
+      },
+      trigger: { channelId: REMINDERS_CHANNEL, date: notification.date },
+    });
+  }
+};
+
+let lastRun: Promise<void> = Promise.resolve();
+
+/**
+ * Brings the pending notifications in line with the user's reminders,
+ * medications and recorded doses. Runs one at a time, since each run reads
+ * and rewrites the whole pending set; safe to call after any change.
+ */
+export const reconcileNotifications = (uid: string): Promise<void> => {
+  lastRun = lastRun
+    .then(() => reconcile(uid))
+    .catch(error => console.error('Error reconciling notifications:', error));
+  return lastRun;
+};
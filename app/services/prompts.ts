@@ -0,0 +1,128 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import localTemplates from '../config/promptTemplates.json';
+
+/**
+ * A named, versioned prompt. `{{name}}` placeholders are filled from the
+ * variables passed to renderPrompt, falling back to `defaults`.
+ */
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  template: string;
+  defaults?: Record<string, string>;
+}
+
+// Stored on assistant ChatMessages so replies can be traced back to the prompt that produced them
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+}
+
+export interface RenderedPrompt extends PromptTemplateRef {
+  text: string;
+}
+
+export type PromptVariables = Record<string, string | number | undefined>;
+
+export const HEALTH_SYSTEM_PROMPT_ID = 'health-system';
+
+// Bump `version` whenever the wording changes
+const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: HEALTH_SYSTEM_PROMPT_ID,
+    version: 3,
+    template: `You are {{persona}}. Your responses must be concise and directly address the user's query. If the query is vague, provide general advice and suggest specifying details for personalized responses. Provide health advice, symptom tracking, lifestyle tips, and treatment suggestions with disclaimers. Do not provide definitive diagnoses; always recommend consulting a healthcare professional for accurate diagnosis. Tailor responses to user health data if available. For emergencies, urge immediate medical attention. Use bullet points for clarity. Be empathetic and professional.
+
+Write the answer, recommendations and disclaimers in {{language}} for {{readingLevel}}. Keep JSON keys and enum values in English.
+
+Format the "answer" field using markdown:
+- Use ## for section headers
+- Use **bold** for emphasis
+- Use - for bullet points
+- Put disclaimers in the "disclaimers" field instead of the answer
+- Keep the answer under {{maxWords}} words; don't ask questions, always give a solution
+
+{{responseFormat}}
+
+{{tools}}`,
+    defaults: {
+      persona: 'Neuracare AI, a health assistant',
+      language: 'English',
+      readingLevel: 'a general adult audience',
+      maxWords: '120',
+    },
+  },
+];
+
+const OVERRIDES_CACHE_KEY = 'promptTemplateOverrides';
+
+const registry = new Map<string, PromptTemplate>(BUILT_IN_TEMPLATES.map(template => [template.id, template]));
+
+const isPromptTemplate = (value: unknown): value is PromptTemplate => {
+  if (!value || typeof value !== 'object') return false;
+  const data = value as Record<string, unknown>;
+  return (
+    typeof data.id === 'string' &&
+    typeof data.version === 'number' &&
+    typeof data.template === 'string' &&
+    data.template.trim() !== '' &&
+    (data.defaults === undefined || (typeof data.defaults === 'object' && data.defaults !== null))
+  );
+};
+
+/**
+ * Adds or replaces templates from a JSON source shaped like `{ "templates": [...] }`.
+ * Invalid entries are skipped; returns how many templates were registered.
+ */
+export const registerPromptTemplates = (source: unknown): number => {
+  const templates = (source as { templates?: unknown } | null)?.templates;
+  if (!Array.isArray(templates)) return 0;
+  const valid = templates.filter(isPromptTemplate);
+  valid.forEach(template => registry.set(template.id, template));
+  return valid.length;
+};
+
+// Bundled overrides ship with OTA updates, so they also apply without a store release
+registerPromptTemplates(localTemplates);
+
+/**
+ * Applies templates from PROMPT_TEMPLATES_URL, if configured. The last download is
+ * cached so overrides still apply when the app starts offline.
+ */
+export const loadRemotePromptTemplates = async () => {
+  const url = Constants.expoConfig?.extra?.PROMPT_TEMPLATES_URL;
+  if (!url) return;
+  try {
+    const cached = await AsyncStorage.getItem(OVERRIDES_CACHE_KEY);
+    if (cached) registerPromptTemplates(JSON.parse(cached));
+  } catch (error) {
+    console.error('Error loading cached prompt templates:', error);
+  }
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Prompt templates request failed: ${response.status}`);
+    const source = await response.json();
+    if (registerPromptTemplates(source) > 0) {
+      await AsyncStorage.setItem(OVERRIDES_CACHE_KEY, JSON.stringify(source));
+    }
+  } catch (error) {
+    console.error('Error fetching prompt templates:', error);
+  }
+};
+
+export const getPromptTemplate = (id: string): PromptTemplate => {
+  const template = registry.get(id);
+  if (!template) throw new Error(`Unknown prompt template: ${id}`);
+  return template;
+};
+
+// Unknown placeholders render empty rather than leaking `{{...}}` into the prompt
+export const renderPrompt = (id: string, variables: PromptVariables = {}): RenderedPrompt => {
+  const { version, template, defaults = {} } = getPromptTemplate(id);
+  const text = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = variables[name] ?? defaults[name];
+    return value === undefined ? '' : String(value);
+  });
+  return { id, version, text: text.trim() };
+};
@@ -0,0 +1,106 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * RRULE-style repeat rule (FREQ, INTERVAL, BYDAY, COUNT, UNTIL plus EXDATE).
+ * The series starts at the reminder's own date and time.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every n days / weeks / months
+  byWeekday?: number[]; // Weekly only, 0 = Sunday; defaults to the start date's weekday
+  count?: number; // Total occurrences from the start, skipped ones included
+  until?: Timestamp; // Local midnight of the last day, inclusive
+  exceptions?: string[]; // 'yyyy-mm-dd' days left out of the series
+}
+
+export const RECURRENCE_UNITS: Record<RecurrenceFrequency, { singular: string; plural: string }> = {
+  daily: { singular: 'day', plural: 'days' },
+  weekly: { singular: 'week', plural: 'weeks' },
+  monthly: { singular: 'month', plural: 'months' },
+};
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Guards against runaway loops for very old series or malformed rules
+const MAX_CANDIDATES = 20000;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const atDay = (start: Date, year: number, month: number, day: number) =>
+  new Date(year, month, day, start.getHours(), start.getMinutes());
+
+/**
+ * Yields every date the rule produces from `start`, in order, before COUNT,
+ * UNTIL and exceptions are applied. Monthly series skip months that are too
+ * short for the start day, as RRULE does.
+ */
+function* candidates(start: Date, rule: RecurrenceRule): Generator<Date> {
+  const interval = Math.max(1, Math.floor(rule.interval) || 1);
+  const [year, month, day] = [start.getFullYear(), start.getMonth(), start.getDate()];
+
+  for (let step = 0; step < MAX_CANDIDATES; step++) {
+    switch (rule.frequency) {
+      case 'daily':
+        yield atDay(start, year, month, day + step * interval);
+        break;
+      case 'weekly': {
+        const weekdays = rule.byWeekday?.length ? [...rule.byWeekday].sort() : [start.getDay()];
+        const weekStart = day - start.getDay() + step * interval * 7;
+        for (const weekday of weekdays) {
+          const date = atDay(start, year, month, weekStart + weekday);
+          if (date >= start) yield date;
+        }
+        break;
+      }
+      case 'monthly': {
+        const date = atDay(start, year, month + step * interval, day);
+        if (date.getDate() === day) yield date;
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Occurrences of a series in [from, to). A null rule means a one-off at `start`.
+ */
+export const expandRecurrence = (start: Date, rule: RecurrenceRule | null, from: Date, to: Date): Date[] => {
+  if (!rule) return start >= from && start < to ? [start] : [];
+
+  const exceptions = new Set(rule.exceptions ?? []);
+  const until = rule.until?.toDate();
+  const lastDay = until ? new Date(until.getFullYear(), until.getMonth(), until.getDate() + 1) : null;
+  const occurrences: Date[] = [];
+  let produced = 0;
+
+  for (const date of candidates(start, rule)) {
+    if (date >= to || (lastDay && date >= lastDay)) break;
+    if (rule.count !== undefined && produced >= rule.count) break;
+    produced++;
+    if (date >= from && !exceptions.has(toDateKey(date))) occurrences.push(date);
+  }
+  return occurrences;
+};
+
+// First occurrence at or after `from`, looking up to a year ahead
+export const getNextOccurrence = (start: Date, rule: RecurrenceRule | null, from: Date): Date | null => {
+  const horizon = new Date(from.getFullYear() + 1, from.getMonth(), from.getDate() + 1);
+  return expandRecurrence(start, rule, from, horizon)[0] ?? null;
+};
+
+// e.g. "Every 2 weeks on Mon, Thu · 10 times"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const unit = RECURRENCE_UNITS[rule.frequency];
+  const parts = [rule.interval > 1 ? `Every ${rule.interval} ${unit.plural}` : `Every ${unit.singular}`];
+  if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+    parts[0] += ` on ${[...rule.byWeekday].sort().map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  if (rule.count !== undefined) parts.push(`${rule.count} times`);
+  if (rule.until) parts.push(`until ${rule.until.toDate().toLocaleDateString([], { month: 'short', day: 'numeric' })}`);
+  if (rule.exceptions?.length) parts.push(`${rule.exceptions.length} skipped`);
+  return parts.join(' · ');
+};
@@ -0,0 +1,95 @@
+import { Timestamp } from 'firebase/firestore';
+import { reminderOccurrenceId } from './adherence';
+import { DoseTarget } from './doseNotifications';
+import { expandRecurrence, getNextOccurrence, RecurrenceRule } from './recurrence';
+
+export type ReminderType = 'medication' | 'appointment' | 'exercise' | 'water' | 'other';
+
+export const REMINDER_TYPES: ReminderType[] = ['medication', 'appointment', 'exercise', 'water', 'other'];
+
+// Stored in users/{uid}/reminders
+export interface Reminder {
+  id: string;
+  title: string;
+  description?: string;
+  date: Timestamp; // First (or only) day
+  time: string;
+  type: ReminderType;
+  isCompleted: boolean; // One-off reminders only; recurring ones are tracked per occurrence
+  isRecurring: boolean;
+  recurringPattern?: 'daily' | 'weekly' | 'monthly'; // Older reminders, before `recurrence`
+  recurrence?: RecurrenceRule;
+  notificationEnabled: boolean;
+  critical?: boolean; // Medication reminders only; missed ones escalate to the emergency contact
+  createdAt: Timestamp;
+}
+
+export type ReminderInput = Omit<Reminder, 'id'>;
+
+export interface ReminderOccurrence {
+  id: string; // `${reminderId}@${yyyy-mm-dd}`
+  reminder: Reminder;
+  scheduledAt: Date;
+}
+
+// Reminder times are stored as typed or formatted, e.g. "08:30" or "08:30 PM"
+export const parseReminderTime = (time: string): [number, number] => {
+  const match = time.match(/(\d{1,2}):(\d{2})\s*([ap]\.?m\.?)?/i);
+  if (!match) return [0, 0];
+  let hours = parseInt(match[1]) % 24;
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem?.startsWith('p') && hours < 12) hours += 12;
+  if (meridiem?.startsWith('a') && hours === 12) hours = 0;
+  return [hours, parseInt(match[2])];
+};
+
+// Rule for the reminder, upgrading the older daily/weekly/monthly pattern; null for one-offs
+export const getRecurrenceRule = (reminder: Reminder): RecurrenceRule | null => {
+  if (!reminder.isRecurring) return null;
+  return reminder.recurrence ?? { frequency: reminder.recurringPattern ?? 'daily', interval: 1 };
+};
+
+const getStart = (reminder: Reminder) => {
+  const day = reminder.date.toDate();
+  const [hours, minutes] = parseReminderTime(reminder.time);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+};
+
+const toOccurrence = (reminder: Reminder, scheduledAt: Date): ReminderOccurrence => ({
+  id: reminderOccurrenceId(reminder.id, scheduledAt),
+  reminder,
+  scheduledAt,
+});
+
+// Occurrences of one reminder in [from, to)
+export const getReminderOccurrences = (reminder: Reminder, from: Date, to: Date): ReminderOccurrence[] =>
+  expandRecurrence(getStart(reminder), getRecurrenceRule(reminder), from, to).map(date =>
+    toOccurrence(reminder, date)
+  );
+
+/**
+ * The occurrence a reminder's checkbox refers to: a one-off reminder's only
+ * one, or the first one from today on for a recurring reminder. Null once a
+ * recurring series has ended.
+ */
+export const getCurrentReminderOccurrence = (reminder: Reminder, now = new Date()): ReminderOccurrence | null => {
+  const rule = getRecurrenceRule(reminder);
+  if (!rule) return toOccurrence(reminder, getStart(reminder));
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const date = getNextOccurrence(getStart(reminder), rule, today);
+  return date ? toOccurrence(reminder, date) : null;
+};
+
+// Open occurrences across all reminders in [from, to), soonest first
+export const getUpcomingReminderOccurrences = (reminders: Reminder[], from: Date, to: Date) =>
+  reminders
+    .filter(reminder => reminder.isRecurring || !reminder.isCompleted)
+    .flatMap(reminder => getReminderOccurrences(reminder, from, to))
+    .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+
+export const toReminderTarget = (occurrence: ReminderOccurrence): DoseTarget => ({
+  occurrenceId: occurrence.id,
+  reminderId: occurrence.reminder.id,
+  title: occurrence.reminder.title,
+  scheduledAt: occurrence.scheduledAt,
+});
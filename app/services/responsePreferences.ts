@@ -0,0 +1,57 @@
+// How the assistant should write its answers; stored on the user's profile document
+export type ResponseLanguage = 'en' | 'ta' | 'hi';
+export type ReadingLevel = 'simple' | 'standard' | 'clinical';
+
+export interface ResponsePreferences {
+  preferredLanguage?: ResponseLanguage;
+  readingLevel?: ReadingLevel;
+}
+
+export const DEFAULT_LANGUAGE: ResponseLanguage = 'en';
+export const DEFAULT_READING_LEVEL: ReadingLevel = 'standard';
+
+export const RESPONSE_LANGUAGES: {
+  key: ResponseLanguage;
+  label: string; // In the language itself, so people can find their own
+  promptName: string;
+  speechLocale: string;
+}[] = [
+  { key: 'en', label: 'English', promptName: 'English', speechLocale: 'en-US' },
+  { key: 'ta', label: 'தமிழ்', promptName: 'Tamil', speechLocale: 'ta-IN' },
+  { key: 'hi', label: 'हिन्दी', promptName: 'Hindi', speechLocale: 'hi-IN' },
+];
+
+export const READING_LEVELS: { key: ReadingLevel; label: string; description: string; audience: string }[] = [
+  {
+    key: 'simple',
+    label: 'Simple',
+    description: 'Short sentences and everyday words',
+    audience: 'someone with no medical background, using short sentences, everyday words and no medical jargon',
+  },
+  {
+    key: 'standard',
+    label: 'Standard',
+    description: 'Plain language with common medical terms explained',
+    audience: 'a general adult audience, explaining any medical terms you use',
+  },
+  {
+    key: 'clinical',
+    label: 'Clinical',
+    description: 'Precise medical terminology',
+    audience: 'a reader with medical training, using precise clinical terminology',
+  },
+];
+
+export const getLanguage = (prefs?: ResponsePreferences | null) =>
+  RESPONSE_LANGUAGES.find(item => item.key === prefs?.preferredLanguage) ??
+  RESPONSE_LANGUAGES.find(item => item.key === DEFAULT_LANGUAGE)!;
+
+export const getReadingLevel = (prefs?: ResponsePreferences | null) =>
+  READING_LEVELS.find(item => item.key === prefs?.readingLevel) ??
+  READING_LEVELS.find(item => item.key === DEFAULT_READING_LEVEL)!;
+
+// Variables for the health-system prompt template
+export const toPromptVariables = (prefs?: ResponsePreferences | null) => ({
+  language: getLanguage(prefs).promptName,
+  readingLevel: getReadingLevel(prefs).audience,
+});
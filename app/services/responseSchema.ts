@@ -0,0 +1,121 @@
+import { ToolCall, validateToolCall } from './chatTools';
+
+export type RecommendationKind = 'lifestyle' | 'medication' | 'see-doctor';
+export type UrgencyLevel = 'none' | 'routine' | 'soon' | 'emergency';
+
+export interface Recommendation {
+  kind: RecommendationKind;
+  text: string;
+}
+
+export interface AssistantResponse {
+  answer: string;
+  recommendations: Recommendation[];
+  urgency: UrgencyLevel;
+  disclaimers: string[];
+  toolCalls: ToolCall[];
+}
+
+const RECOMMENDATION_KINDS: RecommendationKind[] = ['lifestyle', 'medication', 'see-doctor'];
+const URGENCY_LEVELS: UrgencyLevel[] = ['none', 'routine', 'soon', 'emergency'];
+
+// JSON adds overhead on top of the concise answer itself
+export const STRUCTURED_MAX_OUTPUT_TOKENS = 400;
+
+export const RESPONSE_FORMAT_INSTRUCTIONS = `Respond ONLY with a JSON object, no code fences, matching:
+{
+  "answer": string,            // markdown answer
+  "recommendations": [         // concrete actions you suggest, may be empty
+    { "kind": "lifestyle" | "medication" | "see-doctor", "text": string }
+  ],
+  "urgency": "none" | "routine" | "soon" | "emergency",
+  "disclaimers": string[]      // short safety notes, may be empty
+}
+Use "medication" only for advice about taking, stopping or changing a medicine.`;
+
+const stripCodeFence = (raw: string) =>
+  raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+/**
+ * Validates a parsed JSON value against the response schema, dropping
+ * malformed recommendations. Returns null when the required answer is missing.
+ */
+export const validateAssistantResponse = (value: unknown): AssistantResponse | null => {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  if (typeof data.answer !== 'string' || !data.answer.trim()) return null;
+
+  const recommendations = Array.isArray(data.recommendations)
+    ? data.recommendations.filter(
+        (item): item is Recommendation =>
+          !!item &&
+          typeof item === 'object' &&
+          RECOMMENDATION_KINDS.includes(item.kind) &&
+          typeof item.text === 'string' &&
+          item.text.trim() !== ''
+      ).map(item => ({ kind: item.kind, text: item.text.trim() }))
+    : [];
+  const urgency = URGENCY_LEVELS.includes(data.urgency as UrgencyLevel)
+    ? (data.urgency as UrgencyLevel)
+    : 'none';
+  const disclaimers = Array.isArray(data.disclaimers)
+    ? data.disclaimers.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    : [];
+
+  const toolCalls = Array.isArray(data.toolCalls)
+    ? data.toolCalls.map(validateToolCall).filter((call): call is ToolCall => call !== null)
+    : [];
+
+  return { answer: data.answer.trim(), recommendations, urgency, disclaimers, toolCalls };
+};
+
+/**
+ * Parses a model reply into the response schema. Replies that are not valid
+ * JSON (older models, stopped streams) fall back to a plain answer.
+ */
+export const parseAssistantResponse = (raw: string): AssistantResponse => {
+  try {
+    const parsed = validateAssistantResponse(JSON.parse(stripCodeFence(raw)));
+    if (parsed) return parsed;
+  } catch {
+    // Not JSON, handled below
+  }
+  return {
+    answer: extractPartialAnswer(raw) || raw.trim(),
+    recommendations: [],
+    urgency: 'none',
+    disclaimers: [],
+    toolCalls: [],
+  };
+};
+
+/**
+ * Pulls the (possibly unfinished) "answer" string out of a JSON reply that is
+ * still streaming, so the bubble can show text instead of raw JSON.
+ */
+export const extractPartialAnswer = (raw: string): string => {
+  const match = /"answer"\s*:\s*"/.exec(raw);
+  if (!match) return raw.trimStart().startsWith('{') ? '' : raw;
+
+  let answer = '';
+  for (let i = match.index + match[0].length; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      answer += char;
+      continue;
+    }
+    const next = raw[i + 1];
+    if (next === undefined) break;
+    i++;
+    if (next === 'n') answer += '\n';
+    else if (next === 't') answer += '\t';
+    else if (next === 'u') {
+      const code = raw.slice(i + 1, i + 5);
+      if (code.length < 4) break;
+      answer += String.fromCharCode(parseInt(code, 16));
+      i += 4;
+    } else answer += next;
+  }
+  return answer;
+};
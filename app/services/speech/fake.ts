@@ -0,0 +1,77 @@
+import { RecognitionHandlers, SpeakOptions, SpeechRecognizer, SpeechSynthesizer } from './types';
+
+// Scripted recognizer for tests and demos: "hears" the transcript word by word
+export class FakeSpeechRecognizer implements SpeechRecognizer {
+  readonly name = 'fake';
+  private transcript: string;
+  private wordDelayMs: number;
+  private handlers: RecognitionHandlers | null = null;
+  private heard = '';
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(transcript = 'What is a normal resting heart rate?', wordDelayMs = 150) {
+    this.transcript = transcript;
+    this.wordDelayMs = wordDelayMs;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async requestPermission(): Promise<boolean> {
+    return true;
+  }
+
+  async start(handlers: RecognitionHandlers): Promise<void> {
+    this.handlers = handlers;
+    this.heard = '';
+    const words = this.transcript.split(/\s+/).filter(Boolean);
+    const next = (index: number) => {
+      if (index >= words.length) return;
+      this.timer = setTimeout(() => {
+        this.heard = words.slice(0, index + 1).join(' ');
+        this.handlers?.onPartial(this.heard);
+        next(index + 1);
+      }, this.wordDelayMs);
+    };
+    next(0);
+  }
+
+  stop(): void {
+    const handlers = this.finish();
+    if (!handlers) return;
+    handlers.onFinal(this.heard);
+    handlers.onEnd();
+  }
+
+  abort(): void {
+    this.finish()?.onEnd();
+  }
+
+  private finish(): RecognitionHandlers | null {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const handlers = this.handlers;
+    this.handlers = null;
+    return handlers;
+  }
+}
+
+// Records what would have been spoken instead of playing audio
+export class FakeSpeechSynthesizer implements SpeechSynthesizer {
+  readonly name = 'fake';
+  readonly spoken: string[] = [];
+  private onDone?: () => void;
+
+  speak(text: string, options: SpeakOptions = {}): void {
+    this.stop();
+    this.spoken.push(text);
+    this.onDone = options.onDone;
+  }
+
+  stop(): void {
+    const onDone = this.onDone;
+    this.onDone = undefined;
+    onDone?.();
+  }
+}
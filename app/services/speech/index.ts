@@ -0,0 +1,43 @@
+import { FakeSpeechRecognizer, FakeSpeechSynthesizer } from './fake';
+import { NativeSpeechRecognizer, NativeSpeechSynthesizer } from './native';
+import { SpeechRecognizer, SpeechSynthesizer } from './types';
+
+export * from './types';
+export { FakeSpeechRecognizer, FakeSpeechSynthesizer, NativeSpeechRecognizer, NativeSpeechSynthesizer };
+
+let recognizer: SpeechRecognizer | null = null;
+let synthesizer: SpeechSynthesizer | null = null;
+
+export const getSpeechRecognizer = (): SpeechRecognizer => {
+  if (!recognizer) recognizer = new NativeSpeechRecognizer();
+  return recognizer;
+};
+
+export const getSpeechSynthesizer = (): SpeechSynthesizer => {
+  if (!synthesizer) synthesizer = new NativeSpeechSynthesizer();
+  return synthesizer;
+};
+
+// Swap the engines, e.g. to the fakes in tests
+export const setSpeechRecognizer = (next: SpeechRecognizer | null) => {
+  recognizer = next;
+};
+
+export const setSpeechSynthesizer = (next: SpeechSynthesizer | null) => {
+  synthesizer = next;
+};
+
+/**
+ * Turns an assistant reply into plain sentences for text-to-speech, removing the
+ * headers, emphasis, quotes and bullets added by enhanceResponseWithMarkdown.
+ */
+export const toSpeechText = (markdown: string): string =>
+  markdown
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*#+\s*(.*?):?\s*$/gm, '$1.')
+    .replace(/^\s*>\s*/gm, '')
+    .replace(/^\s*(?:[-*]|\d+\.)\s+(.*?)[.!?]?\s*$/gm, '$1.')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\s*\n+\s*/g, ' ')
+    .replace(/\.{2,}/g, '.')
+    .trim();
@@ -0,0 +1,99 @@
+import * as Speech from 'expo-speech';
+import { RecognitionHandlers, RecognitionOptions, SpeakOptions, SpeechRecognizer, SpeechSynthesizer } from './types';
+
+type RecognitionModule = typeof import('expo-speech-recognition');
+type Subscription = ReturnType<RecognitionModule['addSpeechRecognitionListener']>;
+
+// Loaded lazily: the native module is missing in Expo Go, where dictation then reports unavailable
+let recognitionModule: RecognitionModule | null | undefined;
+const loadRecognitionModule = (): RecognitionModule | null => {
+  if (recognitionModule === undefined) {
+    try {
+      recognitionModule = require('expo-speech-recognition') as RecognitionModule;
+    } catch (error) {
+      console.warn('Speech recognition is not available in this build:', error);
+      recognitionModule = null;
+    }
+  }
+  return recognitionModule;
+};
+
+// Device speech recognition via expo-speech-recognition (needs a development build)
+export class NativeSpeechRecognizer implements SpeechRecognizer {
+  readonly name = 'native';
+  private subscriptions: Subscription[] = [];
+
+  isAvailable(): boolean {
+    const module = loadRecognitionModule();
+    return !!module && module.isRecognitionAvailable();
+  }
+
+  async requestPermission(): Promise<boolean> {
+    const module = loadRecognitionModule();
+    if (!module) return false;
+    const { granted } = await module.ExpoSpeechRecognitionModule.requestPermissionsAsync();
+    return granted;
+  }
+
+  async start(handlers: RecognitionHandlers, options: RecognitionOptions = {}): Promise<void> {
+    const module = loadRecognitionModule();
+    if (!module) throw new Error('Speech recognition is not available on this device.');
+    this.removeListeners();
+
+    this.subscriptions = [
+      module.addSpeechRecognitionListener('result', event => {
+        const transcript = event.results[0]?.transcript ?? '';
+        if (event.isFinal) handlers.onFinal(transcript);
+        else handlers.onPartial(transcript);
+      }),
+      module.addSpeechRecognitionListener('error', event => {
+        // Aborting is how the user cancels, not a failure
+        if (event.error !== 'aborted') handlers.onError(new Error(event.message || event.error));
+      }),
+      module.addSpeechRecognitionListener('end', () => {
+        this.removeListeners();
+        handlers.onEnd();
+      }),
+    ];
+
+    module.ExpoSpeechRecognitionModule.start({
+      lang: options.lang || 'en-US',
+      interimResults: true,
+      continuous: true,
+      addsPunctuation: true,
+    });
+  }
+
+  stop(): void {
+    loadRecognitionModule()?.ExpoSpeechRecognitionModule.stop();
+  }
+
+  abort(): void {
+    loadRecognitionModule()?.ExpoSpeechRecognitionModule.abort();
+  }
+
+  private removeListeners() {
+    this.subscriptions.forEach(subscription => subscription.remove());
+    this.subscriptions = [];
+  }
+}
+
+// Device text-to-speech via expo-speech
+export class NativeSpeechSynthesizer implements SpeechSynthesizer {
+  readonly name = 'native';
+
+  speak(text: string, options: SpeakOptions = {}): void {
+    Speech.stop();
+    Speech.speak(text, {
+      language: options.lang,
+      rate: options.rate ?? 0.9,
+      onDone: options.onDone,
+      onStopped: options.onDone,
+      onError: options.onDone,
+    });
+  }
+
+  stop(): void {
+    Speech.stop();
+  }
+}
@@ -0,0 +1,37 @@
+export interface RecognitionHandlers {
+  // Best guess so far while the user is still speaking
+  onPartial(text: string): void;
+  onFinal(text: string): void;
+  onError(error: Error): void;
+  // Always called once, after a final result, an error or abort()
+  onEnd(): void;
+}
+
+export interface RecognitionOptions {
+  lang?: string;
+}
+
+// Dictation backend; one recognition session at a time
+export interface SpeechRecognizer {
+  readonly name: string;
+  isAvailable(): boolean;
+  requestPermission(): Promise<boolean>;
+  start(handlers: RecognitionHandlers, options?: RecognitionOptions): Promise<void>;
+  // Stops listening and delivers the final result
+  stop(): void;
+  // Stops listening and discards the result
+  abort(): void;
+}
+
+export interface SpeakOptions {
+  lang?: string;
+  rate?: number;
+  onDone?: () => void;
+}
+
+// Text-to-speech backend; speaking again interrupts the current utterance
+export interface SpeechSynthesizer {
+  readonly name: string;
+  speak(text: string, options?: SpeakOptions): void;
+  stop(): void;
+}
@@ -0,0 +1,257 @@
+import { getLocales } from 'expo-localization';
+import { addDoc, collection, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { getCurrentCountryCode } from './emergencyContact';
+
+export type TriageCategory =
+  | 'cardiac'
+  | 'stroke'
+  | 'suicide'
+  | 'anaphylaxis'
+  | 'breathing'
+  | 'bleeding'
+  | 'overdose'
+  | 'unconscious';
+
+export interface TriageRule {
+  id: string;
+  category: TriageCategory;
+  title: string;
+  advice: string;
+  patterns: RegExp[];
+}
+
+export interface TriageResult {
+  rule: TriageRule;
+  matchedText: string;
+}
+
+// Used when the country is unknown or not listed; GSM phones route 112 in most countries, so it is shown alongside
+export const DEFAULT_EMERGENCY_NUMBER = '112';
+
+// Ambulance numbers where they differ from 112, keyed by ISO country code
+const EMERGENCY_NUMBERS: Record<string, string> = {
+  US: '911',
+  CA: '911',
+  MX: '911',
+  PR: '911',
+  PH: '911',
+  GB: '999',
+  HK: '999',
+  MY: '999',
+  BD: '999',
+  AU: '000',
+  NZ: '111',
+  JP: '119',
+  KR: '119',
+  TW: '119',
+  CN: '120',
+  SG: '995',
+  BR: '192',
+  AE: '998',
+  SA: '997',
+  EG: '123',
+  IL: '101',
+  PK: '1122',
+};
+
+// The region set on the phone, e.g. 'GB'; the JS locale ('en-GB' or 'en_GB') when the native module has none
+export const getDeviceRegion = (): string | null =>
+  getLocales()[0]?.regionCode ??
+  Intl.DateTimeFormat()
+    .resolvedOptions()
+    .locale.match(/[-_]([A-Z]{2})(?:$|[-_])/)?.[1] ??
+  null;
+
+// e.g. 'GB' -> '999'; without a country, the phone's region setting
+export const getEmergencyNumber = (region: string | null = getDeviceRegion()): string =>
+  (region && EMERGENCY_NUMBERS[region.toUpperCase()]) || DEFAULT_EMERGENCY_NUMBER;
+
+/**
+ * The number for the country the phone is in, which can differ from its
+ * region setting when travelling. Uses the region setting when location is
+ * not available.
+ */
+export const resolveEmergencyNumber = async () =>
+  getEmergencyNumber((await getCurrentCountryCode()) ?? getDeviceRegion());
+
+/**
+ * Red-flag symptom rules. These are deliberately broad: a false alarm costs the
+ * user a dismissed card, a miss can cost far more.
+ *
+ * Patterns cover the reply languages in responsePreferences: English, plus Hindi
+ * (Devanagari and common romanized spellings) and Tamil for chest pain, stroke,
+ * breathing and suicide. Messages in other languages, and the remaining rules in
+ * Hindi and Tamil, are not caught here and go straight to the model. `\b` only
+ * matches ASCII word edges, so the Devanagari and Tamil patterns do without it.
+ */
+export const TRIAGE_RULES: TriageRule[] = [
+  {
+    id: 'chest-pain',
+    category: 'cardiac',
+    title: 'Possible heart attack',
+    advice: 'Call emergency services now. Sit down, stay calm and chew an aspirin if you are not allergic and a doctor has not told you to avoid it.',
+    patterns: [
+      /\bchest (pain|tightness|pressure|discomfort|hurts?)\b/,
+      /\b(pain|tightness|pressure) in (my |the )?chest\b/,
+      /\bheart attack\b/,
+      /\bpain (spreading|radiating) (to|down) (my |the )?(left )?(arm|jaw)\b/,
+      // Hindi
+      /(सीने|छाती) (में|मे) (दर्द|जकड़न|दबाव)/,
+      /दिल का दौरा|हार्ट अटैक/,
+      /\b(seene|sine|chhati|chati) (me|mein|main) dard\b/,
+      /\bdil ka daura\b/,
+      // Tamil
+      /(நெஞ்சு|நெஞ்சில்|மார்பு|மார்பில்) ?(வலி|அழுத்தம்)/,
+      /மாரடைப்பு/,
+    ],
+  },
+  {
+    id: 'stroke-signs',
+    category: 'stroke',
+    title: 'Possible stroke',
+    advice: 'Call emergency services now and note the time symptoms started. Do not eat, drink or take medication.',
+    patterns: [
+      /\bstroke\b/,
+      /\b(face|mouth) (is )?(drooping|droops|numb)\b/,
+      /\bslurred speech\b|\b(can'?t|cannot|unable to) (speak|talk) (properly|clearly)\b/,
+      /\b(sudden )?(weakness|numbness) (in|on) (one|my left|my right|the left|the right) side\b/,
+      /\bone side of (my|the) (body|face) (is )?(numb|weak|paralysed|paralyzed)\b/,
+      // Hindi
+      /लकवा|स्ट्रोक/,
+      /(चेहरा|मुँह|मुंह) (टेढ़ा|लटक)/,
+      /बोलने में (दिक्कत|परेशानी|तकलीफ)|ज़ुबान लड़खड़ा|जुबान लड़खड़ा/,
+      /एक (तरफ|तरफ़) (सुन्न|कमज़ोरी|कमजोरी)/,
+      /\b(lakwa|lakva)\b/,
+      // Tamil
+      /பக்கவாதம்/,
+      /(வாய்|முகம்) ?(கோணல்|கோணி|இழுத்து)/,
+      /ஒரு பக்கம் ?(மரத்து|மரத்துப்|பலவீனம்|செயலிழ)/,
+      /பேச முடியவில்லை|பேச்சு குழறு/,
+    ],
+  },
+  {
+    id: 'suicidal-ideation',
+    category: 'suicide',
+    title: 'You are not alone',
+    advice: 'If you are thinking about ending your life or hurting yourself, please call emergency services or a crisis line now, or reach out to someone you trust.',
+    patterns: [
+      /\b(kill|hurt|harm) (myself|my self)\b/,
+      /\bsuicid(e|al)\b/,
+      /\b(want|going|plan(ning)?) to die\b/,
+      /\b(don'?t|do not) want to (live|be alive)\b/,
+      /\bend (my|it) (life|all)\b/,
+      // Hindi
+      /आत्महत्या|ख़ुदकुशी|खुदकुशी/,
+      /(खुद|ख़ुद|अपने आप) को (मार|ख़त्म|खत्म)/,
+      /मरना (चाहता|चाहती)|जीना नहीं (चाहता|चाहती)/,
+      /\b(aatmahatya|atmahatya|khudkushi)\b/,
+      /\bmarna (chahta|chahti)\b|\bjeena nahi(n)? (chahta|chahti)\b/,
+      // Tamil
+      /தற்கொலை/,
+      /சாக (வேண்டும்|போகிறேன்|விரும்புகிறேன்)|சாகப் போகிறேன்/,
+      /என்னை நானே (கொல்ல|காயப்படுத்த)/,
+      /வாழ (விருப்பமில்லை|விருப்பம் இல்லை|பிடிக்கவில்லை)/,
+    ],
+  },
+  {
+    id: 'anaphylaxis',
+    category: 'anaphylaxis',
+    title: 'Possible severe allergic reaction',
+    advice: 'Use an adrenaline auto-injector (EpiPen) if you have one and call emergency services now.',
+    patterns: [
+      /\banaphyla(xis|ctic)\b/,
+      /\b(throat|tongue|lips?|face) (is |are )?(swelling|swollen|closing)\b/,
+      /\bswelling (of|in) (my |the )?(throat|tongue|lips?|face)\b/,
+      /\ballergic reaction\b.*\b(breath|swell|throat)/,
+    ],
+  },
+  {
+    id: 'breathing',
+    category: 'breathing',
+    title: 'Severe breathing difficulty',
+    advice: 'Call emergency services now. Sit upright and use your reliever inhaler if you have one.',
+    patterns: [
+      /\b(can'?t|cannot|unable to|struggling to|hard to) breathe?\b/,
+      /\b(choking|suffocating|gasping for (air|breath))\b/,
+      /\blips? (are |is |turning )?(blue|purple)\b/,
+      // Hindi
+      /(सांस|साँस) (नहीं आ|नहीं ले पा|लेने में (दिक्कत|तकलीफ|परेशानी))|दम घुट/,
+      /\bsaa?ns (nahi|nahin) (aa|le pa)|\bsaa?ns lene (me|mein) (dikkat|taklif|pareshani)\b/,
+      // Tamil
+      /மூச்சு ?(விட|வாங்க) ?முடியவில்லை|மூச்சுத் ?திணறல்|மூச்சு ?திணறல்|சுவாசிக்க முடியவில்லை/,
+    ],
+  },
+  {
+    id: 'severe-bleeding',
+    category: 'bleeding',
+    title: 'Severe bleeding',
+    advice: 'Call emergency services now and press firmly on the wound with a clean cloth.',
+    patterns: [
+      /\b(heavy|severe|uncontrolled|won'?t stop|not stopping) bleeding\b/,
+      /\bbleeding (heavily|a lot|won'?t stop|will not stop|non ?stop)\b/,
+      /\b(vomiting|coughing (up)?) blood\b/,
+    ],
+  },
+  {
+    id: 'overdose',
+    category: 'overdose',
+    title: 'Possible overdose or poisoning',
+    advice: 'Call emergency services or poison control now. Keep the packaging of what was taken.',
+    patterns: [
+      /\boverdos(e|ed)\b/,
+      /\b(took|taken|swallowed) (too many|a lot of|the whole (bottle|pack))\b/,
+      /\b(drank|swallowed|ingested) (some )?(bleach|poison|pesticide|detergent|antifreeze)\b/,
+    ],
+  },
+  {
+    id: 'unconscious',
+    category: 'unconscious',
+    title: 'Loss of consciousness or seizure',
+    advice: 'Call emergency services now. Place the person on their side and do not put anything in their mouth.',
+    patterns: [
+      /\b(passed out|fainted|unconscious|unresponsive|not waking up)\b/,
+      /\b(seizure|convulsion)s?\b/,
+    ],
+  },
+];
+
+const NEGATION = /\b(no|not|without|never|denies?)\s+(\w+\s+)?$/;
+
+/**
+ * Checks a user message against the local red-flag rules. Runs entirely
+ * on-device so it works offline and before any model call.
+ */
+export const detectEmergency = (text: string): TriageResult | null => {
+  const normalized = text.toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, ' ');
+  for (const rule of TRIAGE_RULES) {
+    for (const pattern of rule.patterns) {
+      const match = normalized.match(pattern);
+      if (!match || match.index === undefined) continue;
+      // Skip simple negations such as "no chest pain"
+      if (NEGATION.test(normalized.slice(Math.max(0, match.index - 20), match.index))) continue;
+      return { rule, matchedText: match[0] };
+    }
+  }
+  return null;
+};
+
+// Audit trail under users/{uid}/triageEvents
+export const logTriageEvent = async (
+  uid: string,
+  result: TriageResult,
+  context: { sessionId?: string | null; source: string }
+) => {
+  try {
+    await addDoc(collection(db, 'users', uid, 'triageEvents'), {
+      ruleId: result.rule.id,
+      category: result.rule.category,
+      matchedText: result.matchedText,
+      source: context.source,
+      ...(context.sessionId ? { sessionId: context.sessionId } : {}),
+      timestamp: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('Error logging triage event:', error);
+  }
+};
@@ -0,0 +1,156 @@
+import { View, Text, TouchableOpacity, StyleSheet, Linking, Alert } from 'react-native'
+import React from 'react'
+import { MaterialIcons } from '@expo/vector-icons'
+import { LinearGradient } from 'expo-linear-gradient'
+
+interface EmergencyContact {
+  name: string;
+  relationship: string;
+  phoneNumber: string;
+}
+
+interface EmergencyCardProps {
+  title: string;
+  advice: string;
+  emergencyNumber: string;
+  fallbackNumber?: string; // Offered as well when it differs, e.g. 112
+  emergencyContact?: EmergencyContact;
+  onDismiss?: () => void;
+}
+
+const callNumber = async (phoneNumber: string) => {
+  const url = `tel:${phoneNumber.replace(/[^\d+]/g, '')}`
+  try {
+    await Linking.openURL(url)
+  } catch (error) {
+    console.error('Error opening dialer:', error)
+    Alert.alert('Unable to place call', `Please dial ${phoneNumber} manually.`)
+  }
+}
+
+export default function EmergencyCard({
+  title,
+  advice,
+  emergencyNumber,
+  fallbackNumber,
+  emergencyContact,
+  onDismiss,
+}: EmergencyCardProps) {
+  return (
+    <LinearGradient
+      colors={['#B71C1C', '#F44336']}
+      start={{ x: 0, y: 0 }}
+      end={{ x: 1, y: 1 }}
+      style={styles.card}
+    >
+      <View style={styles.header}>
+        <MaterialIcons name="warning" size={24} color="#fff" />
+        <Text style={styles.title}>{title}</Text>
+        {onDismiss && (
+          <TouchableOpacity onPress={onDismiss} accessibilityLabel="Dismiss emergency alert">
+            <MaterialIcons name="close" size={20} color="#fff" />
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={styles.advice}>{advice}</Text>
+
+      <TouchableOpacity style={styles.primaryButton} onPress={() => callNumber(emergencyNumber)}>
+        <MaterialIcons name="call" size={20} color="#B71C1C" />
+        <Text style={styles.primaryButtonText}>Call {emergencyNumber}</Text>
+      </TouchableOpacity>
+      {fallbackNumber && fallbackNumber !== emergencyNumber && (
+        <TouchableOpacity style={styles.fallbackButton} onPress={() => callNumber(fallbackNumber)}>
+          <Text style={styles.fallbackButtonText}>or call {fallbackNumber}</Text>
+        </TouchableOpacity>
+      )}
+
+      {emergencyContact?.phoneNumber ? (
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => callNumber(emergencyContact.phoneNumber)}
+        >
+          <MaterialIcons name="person" size={20} color="#fff" />
+          <Text style={styles.secondaryButtonText}>
+            Call {emergencyContact.name}
+            {emergencyContact.relationship ? ` (${emergencyContact.relationship})` : ''}
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        <Text style={styles.hint}>Add an emergency contact in your profile to call them from here.</Text>
+      )}
+    </LinearGradient>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  advice: {
+    color: '#fff',
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  primaryButtonText: {
+    color: '#B71C1C',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  fallbackButton: {
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  fallbackButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+    textDecorationLine: 'underline',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#fff',
+    borderRadius: 12,
+    paddingVertical: 10,
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  hint: {
+    color: '#fff',
+    opacity: 0.8,
+    fontSize: 12,
+    marginTop: 8,
+  },
+})
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react'
+import { getEmergencyNumber, resolveEmergencyNumber } from '@/app/services/triage'
+
+/**
+ * The local emergency number. Starts from the phone's region setting and
+ * switches to the country the phone is in once location has been looked up,
+ * which happens when `enabled` first becomes true.
+ */
+export function useEmergencyNumber(enabled = true) {
+  const [emergencyNumber, setEmergencyNumber] = useState(() => getEmergencyNumber())
+  const [resolved, setResolved] = useState(false)
+
+  useEffect(() => {
+    if (!enabled || resolved) return
+    let active = true
+    resolveEmergencyNumber().then(number => {
+      if (!active) return
+      setEmergencyNumber(number)
+      setResolved(true)
+    })
+    return () => {
+      active = false
+    }
+  }, [enabled, resolved])
+
+  return emergencyNumber
+}